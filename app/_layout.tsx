@@ -12,6 +12,8 @@ import "../global.css";
 import { Platform } from "react-native";
 import { ThemeProvider } from "../context/ThemeContext";
 import { useTheme } from "../context/ThemeContext";
+// Defines the background sync task, which has to happen at startup
+import { registerBackgroundSync } from "../utils/backgroundSync";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -45,6 +47,12 @@ export default function RootLayout() {
     }
   }, []);
 
+  useEffect(() => {
+    if (Platform.OS !== "web") {
+      registerBackgroundSync();
+    }
+  }, []);
+
   useEffect(() => {
     if (loaded) {
       SplashScreen.hideAsync();
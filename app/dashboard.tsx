@@ -7,14 +7,16 @@ import {
   TouchableOpacity,
 } from "react-native";
 import { useRouter } from "expo-router";
-import { getPendingReadings, getLastSyncTime } from "../utils/storage";
 import {
-  setupNetworkListener,
-  syncPendingReadings,
-  syncFromSupabase,
-  syncToSupabase,
-} from "../utils/syncService";
+  getPendingReadings,
+  getReadingStats,
+  getLastSyncTime,
+} from "../utils/storage";
 import { getRoutesForLeiturista } from "../utils/database";
+import { getCurrentLeiturista } from "../utils/leiturista";
+import { useSyncProgress } from "../utils/syncProgress";
+import { useSyncEngine } from "../utils/syncEngine";
+import { getSyncPolicy, getScheduledSyncKind } from "../utils/syncPolicy";
 import { Bell } from "lucide-react-native";
 
 import Header from "../components/Header";
@@ -26,21 +28,14 @@ export default function Dashboard() {
   // Function to load daily stats from the database
   const loadDailyStats = async () => {
     try {
-      // Get all readings from the database
-      const readings = await getPendingReadings();
+      // Get reading counts from the database
+      const stats = await getReadingStats();
 
-      // Calculate stats
-      const total = readings.length;
-      const completed = readings.filter(
-        (r) => r.syncStatus === "synced",
-      ).length;
-      const pending = readings.filter((r) => r.syncStatus === "pending").length;
-
-      // Update state
+      // Update state (readings whose upload failed are still pending)
       setDailyStats({
-        totalReadings: total,
-        completedReadings: completed,
-        pendingReadings: pending,
+        totalReadings: stats.total,
+        completedReadings: stats.synced,
+        pendingReadings: stats.pending + stats.failed,
       });
     } catch (error) {
       console.error("Error loading daily stats:", error);
@@ -49,6 +44,7 @@ export default function Dashboard() {
 
   // Function to load routes for the current leiturista
   const loadRoutesForLeiturista = async () => {
+    if (!leituristaId) return;
     try {
       setRoutesLoading(true);
       setRoutesError(null);
@@ -68,7 +64,7 @@ export default function Dashboard() {
     }
   };
 
-  // Set up network listener and load initial data
+  // Load initial data
   useEffect(() => {
     // Create a cleanup controller
     const abortController = new AbortController();
@@ -86,9 +82,7 @@ export default function Dashboard() {
         const pendingReadings = await getPendingReadings();
         // Only update state if component is still mounted
         if (isComponentMounted) {
-          setPendingUploads(
-            pendingReadings.filter((r) => r.syncStatus === "pending").length,
-          );
+          setPendingUploads(pendingReadings.length);
         }
 
         // Load last sync time
@@ -121,40 +115,13 @@ export default function Dashboard() {
     const loadDataPromise = Promise.resolve()
       .then(() => {
         if (isComponentMounted) {
-          return Promise.all([
-            loadPendingReadings(),
-            loadDailyStats(),
-            loadRoutesForLeiturista(),
-          ]);
+          return Promise.all([loadPendingReadings(), loadDailyStats()]);
         }
       })
       .catch((err) => {
         console.error("Failed to load initial data:", err);
       });
 
-    // Set up network listener with proper cleanup
-    let unsubscribe: (() => void) | null = null;
-
-    try {
-      // Create a safe callback that checks mount state
-      const safeNetworkCallback = (isConnected: boolean) => {
-        // Only update state if component is still mounted
-        if (isComponentMounted) {
-          try {
-            setIsOnline(isConnected);
-            setSyncStatus(isConnected ? "online" : "offline");
-          } catch (error) {
-            console.error("Error updating connection status in UI:", error);
-          }
-        }
-      };
-
-      // Set up the network listener
-      unsubscribe = setupNetworkListener(safeNetworkCallback);
-    } catch (error) {
-      console.error("Failed to setup network listener:", error);
-    }
-
     // Cleanup function
     return () => {
       // Mark component as unmounted first to prevent any further state updates
@@ -167,17 +134,6 @@ export default function Dashboard() {
         console.error("Error aborting pending operations:", abortError);
       }
 
-      // Safe unsubscribe to prevent premature close
-      try {
-        // Unsubscribe immediately to stop new events
-        if (unsubscribe && typeof unsubscribe === "function") {
-          unsubscribe();
-          unsubscribe = null;
-        }
-      } catch (error) {
-        console.error("Error in unsubscribe:", error);
-      }
-
       // Cancel any pending promises
       try {
         if (loadDataPromise && typeof loadDataPromise.cancel === "function") {
@@ -189,18 +145,11 @@ export default function Dashboard() {
     };
   }, []);
   const router = useRouter();
-  const [isOnline, setIsOnline] = useState(true);
+  const syncProgress = useSyncProgress();
+  const sync = useSyncEngine();
+  const isOnline = sync.isOnline;
   const [pendingUploads, setPendingUploads] = useState(0);
   const [lastSyncTime, setLastSyncTime] = useState("--:--");
-  const [syncStatus, setSyncStatus] = useState<
-    | "online"
-    | "offline"
-    | "syncing"
-    | "completed"
-    | "error"
-    | "downloading"
-    | "uploading"
-  >("online");
 
   // Daily stats state
   const [dailyStats, setDailyStats] = useState({
@@ -209,8 +158,8 @@ export default function Dashboard() {
     pendingReadings: 0,
   });
 
-  // Current leiturista ID (would come from user authentication in a real app)
-  const [leituristaId, setLeituristaId] = useState<string>("1"); // Default leiturista ID
+  // Leiturista of the signed-in user; null until it is read from the cache
+  const [leituristaId, setLeituristaId] = useState<string | null>(null);
 
   // State for routes data
   const [routes, setRoutes] = useState<
@@ -228,555 +177,91 @@ export default function Dashboard() {
   const [routesLoading, setRoutesLoading] = useState<boolean>(true);
   const [routesError, setRoutesError] = useState<string | null>(null);
 
-  // Function to handle morning sync (download from Supabase to SQLite)
-  const handleMorningSync = async () => {
-    // Update daily stats before syncing
-    await loadDailyStats();
-    // Also refresh routes data
-    await loadRoutesForLeiturista();
-    if (!isOnline) {
-      return; // Can't sync when offline
-    }
-
-    // Create an abort controller for this sync operation
-    const abortController = new AbortController();
-    const signal = abortController.signal;
-
-    // Start sync process
-    setSyncStatus("downloading");
-
-    // Use a flag to track if the component is still active during this operation
-    let isActive = true;
-    // Store timeout ID in a higher scope for reliable cleanup
-    let timeoutId: NodeJS.Timeout | null = null;
-
-    // Create a cleanup function that can be called from multiple places
-    const cleanup = () => {
-      // Mark as inactive first
-      isActive = false;
-
-      // Clear any pending timeout
-      if (timeoutId !== null) {
-        try {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        } catch (clearError) {
-          console.error("Error clearing timeout during cleanup:", clearError);
-        }
-      }
-
-      // Abort any pending operations
-      try {
-        if (!signal.aborted) {
-          abortController.abort();
-        }
-      } catch (abortError) {
-        console.error(
-          "Error aborting sync operation during cleanup:",
-          abortError,
-        );
-      }
-    };
-
-    try {
-      // Set up a timeout that will abort the operation if it takes too long
-      timeoutId = setTimeout(() => {
-        try {
-          if (isActive && !signal.aborted) {
-            console.log("Sync operation timed out, aborting...");
-            abortController.abort();
-
-            // Update UI to show error if still active
-            if (isActive) {
-              setSyncStatus("error");
-            }
-          }
-        } catch (abortError) {
-          console.error("Error aborting sync operation:", abortError);
-        }
-      }, 15000); // 15 second timeout
-
-      try {
-        // Start the sync operation
-        const result = await syncFromSupabase(leituristaId);
-
-        // Clear the timeout since the operation completed
-        if (timeoutId !== null) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
-
-        // Only update UI if the component is still active
-        if (isActive) {
-          // Update UI based on sync result
-          if (result.success) {
-            setSyncStatus("completed");
-          } else {
-            setSyncStatus("error");
-          }
-
-          // Update last sync time
-          try {
-            const currentTime = new Date().toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            });
-            if (isActive) {
-              setLastSyncTime(currentTime);
-            }
-          } catch (timeError) {
-            console.error("Error updating sync time:", timeError);
-          }
-        }
-      } catch (error) {
-        // Clear the timeout since the operation completed (with an error)
-        if (timeoutId !== null) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
-
-        console.error("Sync error:", error);
-
-        // Only update UI if the component is still active
-        if (isActive) {
-          setSyncStatus("error");
-
-          // Ensure we update the UI even if there's an error
-          try {
-            const currentTime = new Date().toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            });
-            setLastSyncTime(currentTime);
-          } catch (timeError) {
-            console.error("Error updating sync time after error:", timeError);
-          }
-        }
-      }
-    } catch (outerError) {
-      console.error("Unexpected error in sync handler:", outerError);
-
-      // Only update UI if the component is still active
-      if (isActive) {
-        setSyncStatus("error");
-      }
-    } finally {
-      // Make sure we abort the controller if it hasn't been aborted yet
-      try {
-        if (isActive && !signal.aborted) {
-          abortController.abort();
-        }
-      } catch (finalAbortError) {
-        console.error("Error in final abort:", finalAbortError);
-      }
-    }
-
-    // Return the cleanup function that can be used if the component unmounts during sync
-    return cleanup;
-  };
-
-  // Function to handle evening sync (upload from SQLite to Supabase)
-  const handleEveningSync = async () => {
-    // Update daily stats before syncing
-    await loadDailyStats();
-    // Also refresh routes data
-    await loadRoutesForLeiturista();
-    if (!isOnline) {
-      return; // Can't sync when offline
-    }
-
-    // Create an abort controller for this sync operation
-    const abortController = new AbortController();
-    const signal = abortController.signal;
-
-    // Start sync process
-    setSyncStatus("uploading");
-
-    // Use a flag to track if the component is still active during this operation
-    let isActive = true;
-    // Store timeout ID in a higher scope for reliable cleanup
-    let timeoutId: NodeJS.Timeout | null = null;
-
-    // Create a cleanup function that can be called from multiple places
-    const cleanup = () => {
-      // Mark as inactive first
-      isActive = false;
-
-      // Clear any pending timeout
-      if (timeoutId !== null) {
-        try {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        } catch (clearError) {
-          console.error("Error clearing timeout during cleanup:", clearError);
-        }
-      }
-
-      // Abort any pending operations
-      try {
-        if (!signal.aborted) {
-          abortController.abort();
+  // Find the signed-in user's leiturista, then load their routes
+  useEffect(() => {
+    let isComponentMounted = true;
+    getCurrentLeiturista()
+      .then((leiturista) => {
+        if (!isComponentMounted) return;
+        if (leiturista) {
+          setLeituristaId(leiturista.id);
+        } else {
+          setRoutesError(
+            "Leiturista não identificado. Entre novamente no aplicativo.",
+          );
+          setRoutesLoading(false);
         }
-      } catch (abortError) {
-        console.error(
-          "Error aborting sync operation during cleanup:",
-          abortError,
-        );
-      }
+      })
+      .catch((error) => console.error("Error loading leiturista:", error));
+    return () => {
+      isComponentMounted = false;
     };
+  }, []);
 
-    try {
-      // Set up a timeout that will abort the operation if it takes too long
-      timeoutId = setTimeout(() => {
-        try {
-          if (isActive && !signal.aborted) {
-            console.log("Sync operation timed out, aborting...");
-            abortController.abort();
-
-            // Update UI to show error if still active
-            if (isActive) {
-              setSyncStatus("error");
-            }
-          }
-        } catch (abortError) {
-          console.error("Error aborting sync operation:", abortError);
-        }
-      }, 15000); // 15 second timeout
-
-      try {
-        // Start the sync operation
-        const result = await syncToSupabase();
-
-        // Clear the timeout since the operation completed
-        if (timeoutId !== null) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
-
-        // Only update UI if the component is still active
-        if (isActive) {
-          // Update UI based on sync result
-          if (result.success) {
-            setSyncStatus("completed");
-            // Update pending uploads count
-            try {
-              const pendingReadings = await getPendingReadings();
-              if (isActive) {
-                setPendingUploads(
-                  pendingReadings.filter((r) => r.syncStatus === "pending")
-                    .length,
-                );
-              }
-            } catch (countError) {
-              console.error("Error updating pending count:", countError);
-            }
-          } else {
-            setSyncStatus("error");
-          }
-
-          // Update last sync time
-          try {
-            const currentTime = new Date().toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            });
-            if (isActive) {
-              setLastSyncTime(currentTime);
-            }
-          } catch (timeError) {
-            console.error("Error updating sync time:", timeError);
-          }
-        }
-      } catch (error) {
-        // Clear the timeout since the operation completed (with an error)
-        if (timeoutId !== null) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
-
-        console.error("Sync error:", error);
-
-        // Only update UI if the component is still active
-        if (isActive) {
-          setSyncStatus("error");
-
-          // Ensure we update the UI even if there's an error
-          try {
-            const currentTime = new Date().toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            });
-            setLastSyncTime(currentTime);
-          } catch (timeError) {
-            console.error("Error updating sync time after error:", timeError);
-          }
-        }
-      }
-    } catch (outerError) {
-      console.error("Unexpected error in sync handler:", outerError);
-
-      // Only update UI if the component is still active
-      if (isActive) {
-        setSyncStatus("error");
-      }
-    } finally {
-      // Make sure we abort the controller if it hasn't been aborted yet
-      try {
-        if (isActive && !signal.aborted) {
-          abortController.abort();
-        }
-      } catch (finalAbortError) {
-        console.error("Error in final abort:", finalAbortError);
-      }
-    }
-
-    // Return the cleanup function that can be used if the component unmounts during sync
-    return cleanup;
-  };
-
-  // Legacy sync function, now uses syncToSupabase
-  const handleSyncPress = async () => {
-    if (!isOnline) {
-      return; // Can't sync when offline
-    }
-
-    // Create an abort controller for this sync operation
-    const abortController = new AbortController();
-    const signal = abortController.signal;
-
-    // Start sync process
-    setSyncStatus("syncing");
-
-    // Use a flag to track if the component is still active during this operation
-    let isActive = true;
-    // Store timeout ID in a higher scope for reliable cleanup
-    let timeoutId: NodeJS.Timeout | null = null;
-
-    // Create a cleanup function that can be called from multiple places
-    const cleanup = () => {
-      // Mark as inactive first
-      isActive = false;
+  useEffect(() => {
+    loadRoutesForLeiturista();
+  }, [leituristaId]);
 
-      // Clear any pending timeout
-      if (timeoutId !== null) {
-        try {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        } catch (clearError) {
-          console.error("Error clearing timeout during cleanup:", clearError);
-        }
-      }
+  // Refresh the screen whenever the sync engine finishes a sync
+  useEffect(() => {
+    if (!sync.lastSyncAt) return;
 
-      // Abort any pending operations
-      try {
-        if (!signal.aborted) {
-          abortController.abort();
-        }
-      } catch (abortError) {
-        console.error(
-          "Error aborting sync operation during cleanup:",
-          abortError,
-        );
-      }
-    };
+    setLastSyncTime(
+      new Date(sync.lastSyncAt).toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+      }),
+    );
+    getPendingReadings()
+      .then((pendingReadings) => setPendingUploads(pendingReadings.length))
+      .catch((error) => console.error("Error updating pending count:", error));
+    loadDailyStats();
+    loadRoutesForLeiturista();
+  }, [sync.lastSyncAt]);
 
+  const handleCheckSync = async () => {
     try {
-      // Set up a timeout that will abort the operation if it takes too long
-      timeoutId = setTimeout(() => {
-        try {
-          if (isActive && !signal.aborted) {
-            console.log("Sync operation timed out, aborting...");
-            abortController.abort();
-
-            // Update UI to show error if still active
-            if (isActive) {
-              setSyncStatus("error");
-            }
-          }
-        } catch (abortError) {
-          console.error("Error aborting sync operation:", abortError);
-        }
-      }, 10000); // 10 second timeout (reduced from 15s)
+      // Check pending readings
+      const pendingReadings = await getPendingReadings();
+      setPendingUploads(pendingReadings.length);
 
-      try {
-        // Use a more reliable approach with Promise.resolve and error boundaries
-        const syncPromise = new Promise<{
-          success: boolean;
-          syncedCount: number;
-          errorCount: number;
-        }>((resolve) => {
-          // Only proceed if still active
-          if (isActive && !signal.aborted) {
-            // Wrap in try-catch to handle any synchronous errors
-            try {
-              // Start the sync operation
-              syncPendingReadings()
-                .then((result) => {
-                  if (isActive) {
-                    resolve(result);
-                  } else {
-                    resolve({ success: false, syncedCount: 0, errorCount: -2 });
-                  }
-                })
-                .catch((syncError) => {
-                  console.error("Sync operation failed:", syncError);
-                  resolve({ success: false, syncedCount: 0, errorCount: -1 });
-                });
-            } catch (syncStartError) {
-              console.error("Error starting sync operation:", syncStartError);
-              resolve({ success: false, syncedCount: 0, errorCount: -1 });
-            }
-          } else {
-            resolve({ success: false, syncedCount: 0, errorCount: -2 }); // Aborted
-          }
-        });
-
-        // Add a timeout to the promise
-        const timeoutPromise = new Promise<{
-          success: boolean;
-          syncedCount: number;
-          errorCount: number;
-        }>((resolve) => {
-          const timeoutId = setTimeout(() => {
-            resolve({ success: false, syncedCount: 0, errorCount: -3 }); // Timeout
-          }, 8000); // 8 second timeout for the promise itself
-
-          // Clean up the timeout if aborted
-          signal.addEventListener("abort", () => {
-            clearTimeout(timeoutId);
-            resolve({ success: false, syncedCount: 0, errorCount: -2 }); // Aborted
-          });
-        });
-
-        // Race the sync promise against the timeout
-        const result = await Promise.race([syncPromise, timeoutPromise]);
-
-        // Clear the timeout since the operation completed
-        if (timeoutId !== null) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
+      // Update daily stats
+      await loadDailyStats();
 
-        // Only update UI if the component is still active
-        if (isActive) {
-          // Update UI based on sync result
-          if (result.success) {
-            setSyncStatus("completed");
-            // Update pending uploads count
-            try {
-              const pendingReadings = await getPendingReadings();
-              if (isActive) {
-                setPendingUploads(
-                  pendingReadings.filter((r) => r.syncStatus === "pending")
-                    .length,
-                );
-              }
-            } catch (countError) {
-              console.error("Error updating pending count:", countError);
-              // Don't change the status on this error
-            }
-          } else {
-            setSyncStatus("error");
-          }
+      // Refresh routes data
+      await loadRoutesForLeiturista();
 
-          // Update last sync time
-          try {
-            const currentTime = new Date().toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            });
-            if (isActive) {
-              setLastSyncTime(currentTime);
-            }
-          } catch (timeError) {
-            console.error("Error updating sync time:", timeError);
-            // Continue despite this error
-          }
-        }
-      } catch (error) {
-        // Clear the timeout since the operation completed (with an error)
-        if (timeoutId !== null) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
-        }
-
-        console.error("Sync error:", error);
-
-        // Only update UI if the component is still active
-        if (isActive) {
-          setSyncStatus("error");
-
-          // Ensure we update the UI even if there's an error
-          try {
-            const currentTime = new Date().toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            });
-            setLastSyncTime(currentTime);
-          } catch (timeError) {
-            console.error("Error updating sync time after error:", timeError);
-          }
-        }
-      }
-    } catch (outerError) {
-      console.error("Unexpected error in sync handler:", outerError);
-
-      // Only update UI if the component is still active
-      if (isActive) {
-        setSyncStatus("error");
+      // Try to sync if online; the sync engine reports how it went
+      if (isOnline && pendingReadings.length > 0) {
+        await sync.requestSync("upload");
       }
-    } finally {
-      // Make sure we abort the controller if it hasn't been aborted yet
-      try {
-        if (isActive && !signal.aborted) {
-          abortController.abort();
-        }
-      } catch (finalAbortError) {
-        console.error("Error in final abort:", finalAbortError);
-      }
-    }
-
-    // Return the cleanup function that can be used if the component unmounts during sync
-    return cleanup;
-  };
-
-  const handleCheckSync = async () => {
-    // Check pending readings
-    const pendingReadings = await getPendingReadings();
-    setPendingUploads(
-      pendingReadings.filter((r) => r.syncStatus === "pending").length,
-    );
-
-    // Update daily stats
-    await loadDailyStats();
-
-    // Refresh routes data
-    await loadRoutesForLeiturista();
-
-    // Try to sync if online
-    if (isOnline && pendingReadings.length > 0) {
-      handleSyncPress();
+    } catch (error) {
+      console.error("Error checking sync:", error);
     }
   };
 
-  // Check if it's morning or evening and perform appropriate sync
+  // Run the sync the sync policy asks for at this time of day
   const handleTimeBasedSync = async () => {
-    const currentHour = new Date().getHours();
+    const policy = await getSyncPolicy();
+    const scheduledKind = getScheduledSyncKind(policy);
 
-    // Morning sync (download data) - between 6 AM and 10 AM
-    if (currentHour >= 6 && currentHour < 10) {
+    // Morning sync (download data) - inside the policy's download window
+    if (scheduledKind === "download") {
       console.log("Executando sincronização matinal (download de dados)");
-      await handleMorningSync();
+      await sync.requestSync("download", {
+        leituristaId,
+        trigger: "schedule",
+      });
     }
-    // Evening sync (upload data) - between 5 PM and 8 PM
-    else if (currentHour >= 17 && currentHour < 20) {
+    // Evening sync (upload data) - inside the policy's upload window
+    else if (scheduledKind === "upload") {
       console.log("Executando sincronização noturna (upload de leituras)");
-      await handleEveningSync();
+      await sync.requestSync("upload", { trigger: "schedule" });
     }
     // Regular sync during the day
     else {
       console.log("Executando sincronização regular");
-      await handleSyncPress();
+      await sync.requestSync("upload", { timeoutMs: 10000 });
     }
   };
 
@@ -793,6 +278,7 @@ export default function Dashboard() {
         isOnline={isOnline}
         lastSyncTime={lastSyncTime}
         pendingUploads={pendingUploads}
+        progress={syncProgress}
         onSyncPress={handleTimeBasedSync}
       />
 
@@ -1,8 +1,442 @@
-import React from "react";
-import { View, Text, ScrollView } from "react-native";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
 import SyncDiagnostics from "../components/SyncDiagnostics";
 import SyncDebugger from "../components/SyncDebugger";
 import Header from "../components/Header";
+import {
+  SyncRun,
+  getSyncRuns,
+  getLastSuccessfulUpload,
+} from "../utils/syncHistory";
+import { useSyncEngine } from "../utils/syncEngine";
+import {
+  HealthCheck,
+  SupabaseHealthReport,
+  checkSupabaseConnection,
+} from "../utils/supabaseClient";
+import {
+  CircuitState,
+  RESILIENCE_CONFIG,
+  useResilienceStatus,
+} from "../utils/resilience";
+import {
+  OutboxItem,
+  getPoisonedOutboxItems,
+  requeueOutboxItem,
+  requeuePoisonedOutboxItems,
+} from "../utils/outbox";
+
+const TRIGGER_LABELS: Record<SyncRun["trigger"], string> = {
+  manual: "Manual",
+  reconnect: "Reconexão",
+  schedule: "Agendada",
+  background: "Segundo plano",
+};
+
+const DIRECTION_LABELS: Record<SyncRun["direction"], string> = {
+  download: "Download",
+  upload: "Envio",
+  full: "Completa",
+};
+
+const STATUS_LABELS: Record<SyncRun["status"], string> = {
+  running: "Em andamento",
+  done: "Concluída",
+  failed: "Falhou",
+  cancelled: "Cancelada",
+  offline: "Sem conexão",
+  skipped: "Ignorada",
+};
+
+const STATUS_COLORS: Record<SyncRun["status"], string> = {
+  running: "text-blue-600",
+  done: "text-green-600",
+  failed: "text-red-600",
+  cancelled: "text-amber-600",
+  offline: "text-gray-500",
+  skipped: "text-gray-500",
+};
+
+const CIRCUIT_LABELS: Record<CircuitState, string> = {
+  closed: "Normal",
+  open: "Bloqueado",
+  "half-open": "Em teste",
+};
+
+const CIRCUIT_COLORS: Record<CircuitState, string> = {
+  closed: "text-green-600",
+  open: "text-red-600",
+  "half-open": "text-amber-600",
+};
+
+const AUTH_LABELS: Record<SupabaseHealthReport["auth"]["status"], string> = {
+  valid: "Sessão válida",
+  expired: "Sessão expirada",
+  invalid: "Sessão recusada",
+  "signed-out": "Sem sessão",
+  unverified: "Não verificada",
+};
+
+const ENTITY_LABELS: Record<OutboxItem["entity"], string> = {
+  leitura: "Leitura",
+  foto: "Foto",
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString([], {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatDuration = (durationMs: number | null) => {
+  if (durationMs === null) return "--";
+  if (durationMs < 1000) return `${durationMs} ms`;
+  return `${(durationMs / 1000).toFixed(1)} s`;
+};
+
+// History of sync runs, newest first, with the last successful upload on top
+function SyncRunHistory() {
+  const sync = useSyncEngine();
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [lastUpload, setLastUpload] = useState<SyncRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const [recentRuns, lastSuccessfulUpload] = await Promise.all([
+        getSyncRuns(50),
+        getLastSuccessfulUpload(),
+      ]);
+      setRuns(recentRuns);
+      setLastUpload(lastSuccessfulUpload);
+      setError(null);
+    } catch (loadError) {
+      console.error("Error loading sync history:", loadError);
+      setError("Não foi possível carregar o histórico de sincronização.");
+    }
+  }, []);
+
+  // Reload when a sync starts or finishes
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, sync.status, sync.lastSyncAt]);
+
+  return (
+    <View className="p-4">
+      <View className="flex-row justify-between items-center mb-3">
+        <Text className="text-lg font-semibold text-gray-800">
+          Histórico de Sincronização
+        </Text>
+        <TouchableOpacity onPress={loadHistory}>
+          <Text className="text-blue-600 font-medium">Atualizar</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View className="bg-gray-100 rounded-lg p-3 mb-3">
+        <Text className="text-sm text-gray-600">
+          Último envio bem-sucedido
+        </Text>
+        <Text className="text-base font-semibold text-gray-800">
+          {lastUpload
+            ? `${formatDateTime(lastUpload.startedAt)} · ` +
+              `${lastUpload.syncedCount} itens`
+            : "Nenhum envio registrado"}
+        </Text>
+      </View>
+
+      {error && (
+        <View className="bg-red-100 p-3 rounded-md mb-3">
+          <Text className="text-red-700">{error}</Text>
+        </View>
+      )}
+
+      {runs.length === 0 && !error ? (
+        <Text className="text-gray-500">
+          Nenhuma sincronização registrada.
+        </Text>
+      ) : (
+        runs.map((run) => (
+          <View key={run.id} className="border-b border-gray-200 py-2">
+            <View className="flex-row justify-between">
+              <Text className="text-gray-800">
+                {formatDateTime(run.startedAt)} ·{" "}
+                {DIRECTION_LABELS[run.direction]}
+              </Text>
+              <Text className={`font-medium ${STATUS_COLORS[run.status]}`}>
+                {STATUS_LABELS[run.status]}
+              </Text>
+            </View>
+            <Text className="text-xs text-gray-500">
+              {TRIGGER_LABELS[run.trigger]} · {run.syncedCount}{" "}
+              sincronizados · {run.errorCount} erros ·{" "}
+              {formatDuration(run.durationMs)}
+            </Text>
+            {run.errorMessage && (
+              <Text className="text-xs text-red-600">{run.errorMessage}</Text>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+// One line of the health report
+function HealthCheckRow({
+  label,
+  check,
+  detail,
+}: {
+  label: string;
+  check: HealthCheck;
+  detail: string;
+}) {
+  const color = check.ok ? "text-green-600" : "text-red-600";
+  return (
+    <View className="border-b border-gray-200 py-2">
+      <View className="flex-row justify-between">
+        <Text className="text-gray-800">{label}</Text>
+        <Text className={`font-medium ${color}`}>
+          {check.ok ? "OK" : "Falhou"}
+        </Text>
+      </View>
+      <Text className="text-xs text-gray-500">
+        {detail}
+        {check.latencyMs !== null ? ` · ${check.latencyMs} ms` : ""}
+      </Text>
+      {check.error && (
+        <Text className="text-xs text-red-600">{check.error.message}</Text>
+      )}
+    </View>
+  );
+}
+
+// Health of the Supabase connection: session, database, storage and schema
+function SupabaseHealth() {
+  const [report, setReport] = useState<SupabaseHealthReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const runCheck = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      setReport(await checkSupabaseConnection());
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runCheck();
+  }, [runCheck]);
+
+  return (
+    <View className="p-4">
+      <View className="flex-row justify-between items-center mb-3">
+        <Text className="text-lg font-semibold text-gray-800">
+          Conexão com o Servidor
+        </Text>
+        <TouchableOpacity onPress={runCheck} disabled={isChecking}>
+          <Text className="text-blue-600 font-medium">Verificar</Text>
+        </TouchableOpacity>
+      </View>
+
+      {!report ? (
+        <ActivityIndicator color="#3b82f6" />
+      ) : (
+        <>
+          <View className="bg-gray-100 rounded-lg p-3 mb-3">
+            <Text
+              className={`text-base font-semibold ${
+                report.success ? "text-green-600" : "text-red-600"
+              }`}
+            >
+              {report.success ? "Servidor disponível" : "Servidor com falhas"}
+            </Text>
+            <Text className="text-xs text-gray-500">
+              Verificado em {formatDateTime(report.checkedAt)} ·{" "}
+              {formatDuration(report.durationMs)}
+            </Text>
+          </View>
+          <HealthCheckRow
+            label="Autenticação"
+            check={report.auth}
+            detail={AUTH_LABELS[report.auth.status]}
+          />
+          <HealthCheckRow
+            label="Banco de dados"
+            check={report.database}
+            detail="Consulta de teste"
+          />
+          <HealthCheckRow
+            label="Armazenamento de fotos"
+            check={report.storage}
+            detail={`Bucket ${report.storage.bucket}`}
+          />
+          <HealthCheckRow
+            label="Versão do esquema"
+            check={report.schema}
+            detail={
+              report.schema.version !== null
+                ? `Versão ${report.schema.version} (mínima ` +
+                  `${report.schema.minVersion})`
+                : "Versão não informada pelo servidor"
+            }
+          />
+        </>
+      )}
+    </View>
+  );
+}
+
+// Retry budget of the current or last sync and the circuit of each endpoint
+function ResilienceStatus() {
+  const { circuits, retryBudget, syncRunning } = useResilienceStatus();
+  const { requestAttempts, backoff, circuitBreaker } = RESILIENCE_CONFIG;
+
+  return (
+    <View className="p-4">
+      <Text className="text-lg font-semibold text-gray-800 mb-3">
+        Resiliência de Rede
+      </Text>
+
+      <View className="bg-gray-100 rounded-lg p-3 mb-3">
+        <Text className="text-sm text-gray-600">
+          {syncRunning
+            ? "Novas tentativas da sincronização atual"
+            : "Novas tentativas da última sincronização"}
+        </Text>
+        <Text className="text-base font-semibold text-gray-800">
+          {retryBudget
+            ? `${retryBudget.used} de ${retryBudget.limit}` +
+              (retryBudget.exhausted ? " · limite atingido" : "")
+            : "Nenhuma sincronização registrada"}
+        </Text>
+        <Text className="text-xs text-gray-500">
+          Até {requestAttempts} tentativas por requisição · espera de{" "}
+          {backoff.baseDelayMs / 1000} a {backoff.maxDelayMs / 1000} s ·
+          bloqueio após {circuitBreaker.failureThreshold} falhas por{" "}
+          {circuitBreaker.openDurationMs / 1000} s
+        </Text>
+      </View>
+
+      {circuits.length === 0 ? (
+        <Text className="text-gray-500">Nenhuma requisição registrada.</Text>
+      ) : (
+        circuits.map((circuit) => (
+          <View
+            key={circuit.endpoint}
+            className="border-b border-gray-200 py-2"
+          >
+            <View className="flex-row justify-between">
+              <Text className="text-gray-800 flex-1 mr-2" numberOfLines={1}>
+                {circuit.endpoint}
+              </Text>
+              <Text className={`font-medium ${CIRCUIT_COLORS[circuit.state]}`}>
+                {CIRCUIT_LABELS[circuit.state]}
+              </Text>
+            </View>
+            <Text className="text-xs text-gray-500">
+              {circuit.consecutiveFailures} falhas seguidas
+              {circuit.openedAt
+                ? ` · bloqueado às ${formatDateTime(circuit.openedAt)}`
+                : ""}
+            </Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+// Uploads that were set aside after failing, with a way to send them again
+function PoisonedOutbox() {
+  const sync = useSyncEngine();
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await getPoisonedOutboxItems());
+      setError(null);
+    } catch (loadError) {
+      console.error("Error loading poisoned outbox items:", loadError);
+      setError("Não foi possível carregar os itens com falha.");
+    }
+  }, []);
+
+  // Reload when a sync starts or finishes
+  useEffect(() => {
+    loadItems();
+  }, [loadItems, sync.status, sync.lastSyncAt]);
+
+  const requeue = async (id?: string) => {
+    try {
+      if (id) {
+        await requeueOutboxItem(id);
+      } else {
+        await requeuePoisonedOutboxItems();
+      }
+      await loadItems();
+      await sync.requestSync("upload");
+    } catch (requeueError) {
+      console.error("Error requeueing outbox items:", requeueError);
+      setError("Não foi possível reenviar os itens com falha.");
+    }
+  };
+
+  return (
+    <View className="p-4">
+      <View className="flex-row justify-between items-center mb-3">
+        <Text className="text-lg font-semibold text-gray-800">
+          Itens com Falha
+        </Text>
+        {items.length > 0 && (
+          <TouchableOpacity onPress={() => requeue()}>
+            <Text className="text-blue-600 font-medium">Reenviar todos</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {error && (
+        <View className="bg-red-100 p-3 rounded-md mb-3">
+          <Text className="text-red-700">{error}</Text>
+        </View>
+      )}
+
+      {items.length === 0 && !error ? (
+        <Text className="text-gray-500">Nenhum item com falha.</Text>
+      ) : (
+        items.map((item) => (
+          <View key={item.id} className="border-b border-gray-200 py-2">
+            <View className="flex-row justify-between">
+              <Text className="text-gray-800 flex-1 mr-2" numberOfLines={1}>
+                {ENTITY_LABELS[item.entity]} · {item.entityId}
+              </Text>
+              <TouchableOpacity onPress={() => requeue(item.id)}>
+                <Text className="text-blue-600 font-medium">Reenviar</Text>
+              </TouchableOpacity>
+            </View>
+            <Text className="text-xs text-gray-500">
+              {item.attempts} tentativas · desde{" "}
+              {formatDateTime(item.createdAt)}
+            </Text>
+            {item.lastError && (
+              <Text className="text-xs text-red-600">{item.lastError}</Text>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
 
 export default function DiagnosticsScreen() {
   return (
@@ -11,6 +445,10 @@ export default function DiagnosticsScreen() {
       <ScrollView className="flex-1">
         <SyncDebugger />
         <SyncDiagnostics />
+        <SupabaseHealth />
+        <ResilienceStatus />
+        <PoisonedOutbox />
+        <SyncRunHistory />
       </ScrollView>
     </View>
   );
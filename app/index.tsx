@@ -10,63 +10,295 @@ import {
   ScrollView,
   Alert,
   ActivityIndicator,
+  TextInput,
+  TouchableOpacity,
 } from "react-native";
 import { useRouter } from "expo-router";
 import LoginForm from "../components/LoginForm";
 import AppLogo from "../components/AppLogo";
-import { supabase } from "../utils/supabaseClient";
-import { checkOnlineStatus, fetchDailyRoutes } from "../utils/syncService";
+import { User, isAuthRetryableFetchError } from "@supabase/supabase-js";
+import { supabase, supabaseConfig } from "../utils/supabaseClient";
+import { fetchDailyRoutes } from "../utils/syncService";
+import { resolveLeiturista } from "../utils/leiturista";
+import {
+  ConnectionStatus,
+  isUsableConnection,
+  useConnectionState,
+} from "../utils/connectionState";
+import {
+  OFFLINE_LOGIN_CONFIG,
+  OfflineLoginAvailability,
+  OfflineUnlockFailure,
+  declineOfflineLogin,
+  enableOfflineLogin,
+  getOfflineLoginAvailability,
+  isValidPin,
+  recordOnlineLogin,
+  shouldOfferOfflineLogin,
+  unlockOffline,
+} from "../utils/offlineAuth";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import NetInfo from "@react-native-community/netinfo";
+
+const CONNECTION_WARNINGS: Record<ConnectionStatus, string> = {
+  online: "",
+  offline: "Você está offline. Algumas funcionalidades podem estar limitadas.",
+  unreachable:
+    "O servidor não responde. Algumas funcionalidades podem estar limitadas.",
+  degraded:
+    "Conexão instável com o servidor. O login e a sincronização podem demorar.",
+  "captive-portal":
+    "A rede Wi-Fi exige login. Abra o navegador para acessar a internet.",
+};
+
+const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+  online: "🟢 Online",
+  offline: "🔴 Offline",
+  unreachable: "🔴 Servidor inacessível",
+  degraded: "🟡 Conexão instável",
+  "captive-portal": "🟠 Login de rede necessário",
+};
+
+const UNLOCK_ERRORS: Record<OfflineUnlockFailure, string> = {
+  "no-credential": "Login offline não configurado neste aparelho.",
+  expired:
+    "O prazo do login offline terminou. Conecte-se à internet para entrar.",
+  "wrong-pin": "PIN incorreto.",
+  locked:
+    "Muitas tentativas erradas. Conecte-se à internet para entrar novamente.",
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString([], {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Offered after an online login: a PIN that unlocks the app without a
+// connection
+function OfflinePinSetup({
+  onSave,
+  onSkip,
+}: {
+  onSave: (pin: string) => Promise<void>;
+  onSkip: () => void;
+}) {
+  const [pin, setPin] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!isValidPin(pin)) {
+      setError(
+        `O PIN deve ter pelo menos ${OFFLINE_LOGIN_CONFIG.minPinLength} números.`,
+      );
+      return;
+    }
+    if (pin !== confirmation) {
+      setError("Os PINs não conferem.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(pin);
+    } catch (saveError) {
+      console.error("Error enabling offline login:", saveError);
+      setError("Não foi possível salvar o PIN. Tente novamente.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View className="w-full max-w-sm">
+      <Text className="text-lg font-semibold text-gray-800 mb-2">
+        Entrar sem internet
+      </Text>
+      <Text className="text-gray-600 mb-4">
+        Crie um PIN para abrir o aplicativo quando estiver sem sinal. Ele vale
+        por {OFFLINE_LOGIN_CONFIG.gracePeriodHours} horas após cada login
+        online.
+      </Text>
+      <TextInput
+        className="border border-gray-300 rounded-md p-3 mb-3"
+        placeholder="PIN"
+        value={pin}
+        onChangeText={setPin}
+        keyboardType="number-pad"
+        secureTextEntry
+      />
+      <TextInput
+        className="border border-gray-300 rounded-md p-3 mb-3"
+        placeholder="Confirme o PIN"
+        value={confirmation}
+        onChangeText={setConfirmation}
+        keyboardType="number-pad"
+        secureTextEntry
+      />
+      {error && <Text className="text-red-600 mb-3">{error}</Text>}
+      <TouchableOpacity
+        className="bg-blue-600 rounded-md p-3 items-center mb-3"
+        onPress={handleSave}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text className="text-white font-semibold">Salvar PIN</Text>
+        )}
+      </TouchableOpacity>
+      <TouchableOpacity
+        className="items-center p-2"
+        onPress={onSkip}
+        disabled={isSaving}
+      >
+        <Text className="text-blue-600">Agora não</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// Unlocks the cached session with the PIN while the server can't be reached
+function OfflineUnlockForm({
+  availability,
+  onUnlocked,
+}: {
+  availability: OfflineLoginAvailability;
+  onUnlocked: () => void;
+}) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    try {
+      const result = await unlockOffline(pin);
+      if (result.session) {
+        onUnlocked();
+        return;
+      }
+      setPin("");
+      setIsLocked(result.reason !== "wrong-pin");
+      setError(
+        result.reason === "wrong-pin"
+          ? `${UNLOCK_ERRORS["wrong-pin"]} Restam ${result.attemptsLeft} ` +
+              "tentativas."
+          : UNLOCK_ERRORS[result.reason],
+      );
+    } catch (unlockError) {
+      console.error("Error unlocking offline:", unlockError);
+      setError("Não foi possível verificar o PIN. Tente novamente.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <View className="w-full max-w-sm">
+      <Text className="text-lg font-semibold text-gray-800 mb-2">
+        Entrar sem internet
+      </Text>
+      <Text className="text-gray-600 mb-4">
+        {availability.email} · válido até{" "}
+        {availability.expiresAt ? formatDateTime(availability.expiresAt) : "--"}
+        . As leituras feitas offline serão enviadas após o próximo login online.
+      </Text>
+      <TextInput
+        className="border border-gray-300 rounded-md p-3 mb-3"
+        placeholder="PIN"
+        value={pin}
+        onChangeText={setPin}
+        keyboardType="number-pad"
+        secureTextEntry
+        editable={!isLocked}
+      />
+      {error && <Text className="text-red-600 mb-3">{error}</Text>}
+      <TouchableOpacity
+        className="bg-blue-600 rounded-md p-3 items-center"
+        onPress={handleUnlock}
+        disabled={isUnlocking || isLocked || pin.length === 0}
+      >
+        {isUnlocking ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text className="text-white font-semibold">Desbloquear</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
 
 export default function LoginScreen() {
   const [isLoading, setIsLoading] = useState(false);
-  const [isOnline, setIsOnline] = useState(true);
   const [isCheckingSession, setIsCheckingSession] = useState(true);
-  const [networkError, setNetworkError] = useState("");
+  // Set when the cached session can't be checked because the server is out
+  // of reach
+  const [offlineLogin, setOfflineLogin] =
+    useState<OfflineLoginAvailability | null>(null);
+  // User offered to set up offline login before entering the app
+  const [pinSetup, setPinSetup] = useState<{
+    user: User;
+    leituristaId: string;
+  } | null>(null);
+  const connection = useConnectionState();
+  const isOnline = isUsableConnection(connection.status);
+  const networkError = CONNECTION_WARNINGS[connection.status];
   const router = useRouter();
 
-  // Check network status on component mount and set up listener
-  useEffect(() => {
-    const checkNetwork = async () => {
+  // Enter the app: the first route of the day when it can be fetched,
+  // otherwise the dashboard
+  const enterApp = async (leituristaId: string) => {
+    if (isOnline) {
       try {
-        const online = await checkOnlineStatus();
-        setIsOnline(online);
-        if (!online) {
-          setNetworkError(
-            "Você está offline. Algumas funcionalidades podem estar limitadas.",
-          );
-        } else {
-          setNetworkError("");
+        const routes = await fetchDailyRoutes(leituristaId);
+        if (routes && routes.length > 0) {
+          // Redirect to the first route of the day
+          router.replace(`/route/${routes[0].id}`);
+          return;
         }
-      } catch (error) {
-        console.error("Error checking network status:", error);
-        setIsOnline(false);
-        setNetworkError("Erro ao verificar status da rede.");
+      } catch (routeError) {
+        console.error("Error fetching daily routes:", routeError);
+        // Continue to dashboard if route fetch fails
       }
-    };
+    }
 
-    // Initial check
-    checkNetwork();
+    // If no routes or offline, go to dashboard
+    router.replace("/dashboard");
+  };
 
-    // Set up network listener
-    const unsubscribe = NetInfo.addEventListener((state) => {
-      const isConnected = state.isConnected && state.isInternetReachable;
-      setIsOnline(!!isConnected);
-      if (!isConnected) {
-        setNetworkError(
-          "Você está offline. Algumas funcionalidades podem estar limitadas.",
-        );
-      } else {
-        setNetworkError("");
-      }
-    });
+  // Finish a login the server validated. Users who haven't set up offline
+  // login are offered to before entering the app.
+  const completeOnlineLogin = async (user: User) => {
+    // Routes and readings belong to the user's leituristas row
+    const leiturista = await resolveLeiturista(user);
+    if (!leiturista) {
+      throw new Error(
+        "Usuário não cadastrado como leiturista. Procure o administrador",
+      );
+    }
 
-    // Clean up listener on unmount
-    return () => {
-      unsubscribe();
-    };
-  }, []);
+    // Store user info in AsyncStorage
+    await AsyncStorage.setItem("userId", user.id);
+    await AsyncStorage.setItem("userEmail", user.email || "");
+    await AsyncStorage.setItem("lastLoginTime", new Date().toISOString());
+    await recordOnlineLogin(user);
+
+    if (await shouldOfferOfflineLogin(user.id)) {
+      setPinSetup({ user, leituristaId: leiturista.id });
+      return;
+    }
+    await enterApp(leiturista.id);
+  };
+
+  // The cached session can't be checked without the server: let the PIN
+  // unlock it, if offline login was set up
+  const offerOfflineLogin = async () => {
+    setOfflineLogin(await getOfflineLoginAvailability());
+    setIsCheckingSession(false);
+  };
 
   // Check if user is already logged in
   useEffect(() => {
@@ -74,7 +306,9 @@ export default function LoginScreen() {
       setIsCheckingSession(true);
       try {
         // First check if we have a stored token
-        const storedToken = await AsyncStorage.getItem("supabase-auth-token");
+        const storedToken = await AsyncStorage.getItem(
+          supabaseConfig.storageKey,
+        );
 
         // Check for existing session
         const {
@@ -84,6 +318,11 @@ export default function LoginScreen() {
 
         if (sessionError) {
           console.error("Error getting session:", sessionError);
+          // An expired token can't be refreshed without the server
+          if (storedToken && isAuthRetryableFetchError(sessionError)) {
+            await offerOfflineLogin();
+            return;
+          }
           setIsCheckingSession(false);
           return;
         }
@@ -97,36 +336,17 @@ export default function LoginScreen() {
 
           if (userError) {
             console.error("Error getting user:", userError);
+            if (isAuthRetryableFetchError(userError)) {
+              await offerOfflineLogin();
+              return;
+            }
             setIsCheckingSession(false);
             return;
           }
 
           if (user) {
-            // Store user info in AsyncStorage
-            await AsyncStorage.setItem("userId", user.id);
-            await AsyncStorage.setItem("userEmail", user.email || "");
-            await AsyncStorage.setItem(
-              "lastLoginTime",
-              new Date().toISOString(),
-            );
-
-            // Try to get daily routes if online
-            if (isOnline) {
-              try {
-                const routes = await fetchDailyRoutes(user.id);
-                if (routes && routes.length > 0) {
-                  // Redirect to the first route of the day
-                  router.replace(`/route/${routes[0].id}`);
-                  return;
-                }
-              } catch (routeError) {
-                console.error("Error fetching daily routes:", routeError);
-                // Continue to dashboard if route fetch fails
-              }
-            }
-
-            // If no routes or offline, go to dashboard
-            router.replace("/dashboard");
+            setOfflineLogin(null);
+            await completeOnlineLogin(user);
           }
         } else {
           // No active session
@@ -158,28 +378,8 @@ export default function LoginScreen() {
         throw new Error("Usuário não encontrado após login");
       }
 
-      // Store user info in AsyncStorage
-      await AsyncStorage.setItem("userId", user.id);
-      await AsyncStorage.setItem("userEmail", user.email || "");
-      await AsyncStorage.setItem("lastLoginTime", new Date().toISOString());
-
-      // Try to get daily routes if online
-      if (isOnline) {
-        try {
-          const routes = await fetchDailyRoutes(user.id);
-          if (routes && routes.length > 0) {
-            // Redirect to the first route of the day
-            router.replace(`/route/${routes[0].id}`);
-            return;
-          }
-        } catch (routeError) {
-          console.error("Error fetching daily routes:", routeError);
-          // Continue to dashboard if route fetch fails
-        }
-      }
-
-      // If no routes or offline, go to dashboard
-      router.replace("/dashboard");
+      setOfflineLogin(null);
+      await completeOnlineLogin(user);
     } catch (error) {
       console.error("Error after login:", error);
       Alert.alert(
@@ -191,10 +391,34 @@ export default function LoginScreen() {
     }
   };
 
+  const handlePinSave = async (pin: string) => {
+    if (!pinSetup) return;
+    await enableOfflineLogin(pinSetup.user, pin);
+    await enterApp(pinSetup.leituristaId);
+  };
+
+  const handlePinSkip = async () => {
+    if (!pinSetup) return;
+    await declineOfflineLogin(pinSetup.user.id);
+    await enterApp(pinSetup.leituristaId);
+  };
+
+  // Readings taken from here on wait for the next online login
+  const handleOfflineUnlock = () => {
+    router.replace("/dashboard");
+  };
+
+  const offlineLoginWarning =
+    offlineLogin &&
+    offlineLogin.reason &&
+    offlineLogin.reason !== "no-credential"
+      ? UNLOCK_ERRORS[offlineLogin.reason]
+      : null;
+
   return (
     <SafeAreaView className="flex-1 bg-white">
       <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
-      {isCheckingSession ? (
+      {isCheckingSession && !pinSetup ? (
         <View className="flex-1 items-center justify-center">
           <ActivityIndicator size="large" color="#3b82f6" />
           <Text className="mt-4 text-gray-600">Verificando sessão...</Text>
@@ -219,11 +443,29 @@ export default function LoginScreen() {
                 </View>
               ) : null}
 
-              <LoginForm
-                onLoginSuccess={handleLoginSuccess}
-                isLoading={isLoading}
-                isOffline={!isOnline}
-              />
+              {offlineLoginWarning ? (
+                <View className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md w-full max-w-sm">
+                  <Text className="text-red-700">{offlineLoginWarning}</Text>
+                </View>
+              ) : null}
+
+              {pinSetup ? (
+                <OfflinePinSetup
+                  onSave={handlePinSave}
+                  onSkip={handlePinSkip}
+                />
+              ) : offlineLogin?.available ? (
+                <OfflineUnlockForm
+                  availability={offlineLogin}
+                  onUnlocked={handleOfflineUnlock}
+                />
+              ) : (
+                <LoginForm
+                  onLoginSuccess={handleLoginSuccess}
+                  isLoading={isLoading}
+                  isOffline={!isOnline}
+                />
+              )}
 
               <View className="mt-8 items-center">
                 <Text className="text-sm text-gray-500">Versão 1.0.0</Text>
@@ -231,7 +473,7 @@ export default function LoginScreen() {
                   © 2023 LeituraFácil
                 </Text>
                 <Text className="text-xs text-gray-400 mt-1">
-                  {isOnline ? "🟢 Online" : "🔴 Offline"}
+                  {CONNECTION_LABELS[connection.status]}
                 </Text>
               </View>
             </View>
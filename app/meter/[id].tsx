@@ -34,8 +34,15 @@ export default function MeterReadingScreen() {
   // State management
   const [inputMethod, setInputMethod] = useState<"manual" | "camera">("manual");
   const [readingValue, setReadingValue] = useState<string>("");
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [visitCompleted, setVisitCompleted] = useState(false);
+  // One reading id for the visit, so saving again after an error writes the
+  // same reading instead of a new one
+  const [readingId] = useState(
+    () =>
+      `reading-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  );
 
   // Handle method selection
   const handleMethodSelect = useCallback((method: "manual" | "camera") => {
@@ -54,8 +61,8 @@ export default function MeterReadingScreen() {
   const handleCameraCapture = useCallback(
     (reading: string, imageUri: string) => {
       setReadingValue(reading);
+      setPhotoUri(imageUri);
       setShowConfirmation(true);
-      // In a real app, you would store the imageUri as well
     },
     [],
   );
@@ -65,114 +72,81 @@ export default function MeterReadingScreen() {
     async (value: string) => {
       try {
         console.log("Saving reading value:", value);
-        // Generate a unique ID for the reading without using UUID
-        const readingId = `reading-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        const timestamp = new Date().toISOString();
 
         // For native platforms, use SQLite
         if (Platform.OS !== "web") {
-          // Dynamically import database to avoid issues on web
-          const { saveMeterReading } = await import("../../utils/storage");
-          const { exec } = await import("../../utils/database");
-
-          const readingData = {
-            id: readingId,
-            meterId: meterData.meterId,
-            addressId: id as string,
-            routeId: meterData.routeId,
-            value: value,
-            timestamp: timestamp,
-            imageUri: "", // Add image URI if available
-            syncStatus: "pending",
-          };
-
-          console.log("Saving reading to SQLite:", readingData);
-          await saveMeterReading(readingData);
-          console.log("Reading saved to SQLite successfully:", readingId);
+          // Dynamically import storage to avoid issues on web
+          const { saveReading } = await import("../../utils/storage");
+          const { persistReadingPhoto } = await import(
+            "../../utils/photoSync"
+          );
+          const { getCurrentLeiturista } = await import(
+            "../../utils/leiturista"
+          );
 
-          // Also save to leituras table for proper synchronization
-          try {
-            console.log("Also saving to leituras table...");
-            await exec(
-              `INSERT INTO leituras (id, residencia_id, cliente_id, leiturista_id, leitura_valor, status, data_leitura, hora_leitura, sincronizado) 
-               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-              [
-                readingId,
-                id,
-                "1", // Default cliente_id
-                "1", // Default leiturista_id
-                value,
-                "concluido",
-                new Date().toISOString().split("T")[0],
-                new Date().toISOString().split("T")[1].substring(0, 8),
-                0, // Not synchronized yet
-              ],
+          const leiturista = await getCurrentLeiturista();
+          if (!leiturista) {
+            throw new Error(
+              "Leiturista não identificado. Entre novamente no aplicativo",
             );
-            console.log("Successfully saved to leituras table");
-          } catch (leituraError) {
-            console.error("Error saving to leituras table:", leituraError);
-            // Continue even if this fails, as we already saved to meter_readings
           }
+
+          // Keep the photo out of the camera cache until it is uploaded
+          const photoPath = photoUri
+            ? await persistReadingPhoto(photoUri, readingId)
+            : undefined;
+
+          // Single write to the local reading store; sync picks it up from there
+          const leitura = await saveReading({
+            id: readingId,
+            residenciaId: id as string,
+            leituristaId: leiturista.id,
+            roteiroId: meterData.routeId as string,
+            medidorId: meterData.meterId,
+            value: value,
+            photoPath,
+            status: "concluido",
+          });
+          console.log("Reading saved to SQLite successfully:", leitura.id);
         } else {
           // For web, try to save directly to Supabase
-          const { supabase, checkSupabaseConnection } = await import(
-            "../../utils/supabaseClient"
+          // A failing connection shows up as the error of the upsert below.
+          // There is no local database on web, so nothing that reads one is
+          // imported here.
+          const { supabase } = await import("../../utils/supabaseClient");
+          const { findLeituristaRow } = await import(
+            "../../utils/syncBackend"
           );
 
-          // First check if Supabase connection is working
-          const connectionCheck = await checkSupabaseConnection();
-          if (!connectionCheck.success) {
-            console.error("Supabase connection failed:", connectionCheck.error);
+          // Ask the server who the user is
+          const {
+            data: { user },
+          } = await supabase.auth.getUser();
+          const { data: leiturista, error: leituristaError } = user
+            ? await findLeituristaRow(user)
+            : { data: null, error: null };
+          if (leituristaError) throw leituristaError;
+          if (!leiturista) {
             throw new Error(
-              `Supabase connection failed: ${connectionCheck.error?.message || "Unknown error"}`,
+              "Leiturista não identificado. Entre novamente no aplicativo",
             );
           }
-
-          // Try to save to the readings table (new schema)
-          try {
-            const readingData = {
-              id: readingId,
-              meter_id: meterData.meterId,
-              reading_value: value,
-              client_name: meterData.customerName,
-              address: meterData.address,
-              notes: "",
-              timestamp: new Date().toISOString(),
-              synced: true,
-            };
-
-            console.log(
-              "Saving reading to Supabase readings table:",
-              readingData,
-            );
-            const { data: readingsData, error: readingsError } = await supabase
-              .from("readings")
-              .insert([readingData]);
-
-            if (readingsError) {
-              console.error(
-                "Error saving to Supabase readings table:",
-                readingsError,
-              );
-              // Continue to try the leituras table as fallback
-            } else {
-              console.log(
-                "Reading saved to Supabase readings table successfully:",
-                readingsData,
-              );
-              return; // Success, no need to try the legacy table
-            }
-          } catch (readingsError) {
-            console.error("Exception saving to readings table:", readingsError);
-            // Continue to try the leituras table as fallback
+          const { data: cliente, error: clienteError } = await supabase
+            .from("clientes")
+            .select("id")
+            .eq("residencia_id", id)
+            .limit(1)
+            .maybeSingle();
+          if (clienteError) throw clienteError;
+          if (!cliente) {
+            throw new Error("Nenhum cliente cadastrado para esta residência");
           }
 
-          // Fallback to the leituras table (legacy schema)
           const leituraData = {
             id: readingId,
-            residencia_id: id || "default-residencia-id",
-            leiturista_id: "1", // Default leiturista ID
-            cliente_id: "1", // Default cliente ID
+            residencia_id: id as string,
+            leiturista_id: leiturista.id,
+            cliente_id: cliente.id,
             leitura_valor: value,
             status: "concluido",
             data_leitura: new Date().toISOString().split("T")[0],
@@ -181,15 +155,17 @@ export default function MeterReadingScreen() {
               .split("T")[1]
               .substring(0, 8),
             sincronizado: true,
+            versao: 1,
           };
 
           console.log(
             "Saving reading to Supabase leituras table:",
             leituraData,
           );
+          // Upsert on the id so a retried save can't create a duplicate
           const { data, error } = await supabase
             .from("leituras")
-            .insert([leituraData]);
+            .upsert([leituraData], { onConflict: "id" });
 
           if (error) {
             console.error("Error saving to Supabase leituras table:", error);
@@ -219,7 +195,7 @@ export default function MeterReadingScreen() {
         );
       }
     },
-    [router, meterData.routeId, meterData.meterId, id],
+    [router, meterData.routeId, meterData.meterId, id, photoUri, readingId],
   );
 
   // Handle back button press
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from "react";
 import { View, Text, ScrollView, TouchableOpacity, Alert } from "react-native";
 import { useLocalSearchParams, Stack, router } from "expo-router";
-import { getPendingReadings } from "../../utils/storage";
 import {
-  syncPendingReadings,
-  checkOnlineStatus,
-} from "../../utils/syncService";
+  getPendingReadings,
+  getUploadConfirmation,
+  UploadConfirmation,
+} from "../../utils/storage";
+import { checkOnlineStatus } from "../../utils/syncService";
+import { useSyncProgress } from "../../utils/syncProgress";
+import { useSyncEngine } from "../../utils/syncEngine";
 import { ArrowLeft, Home } from "lucide-react-native";
 
 import RouteSummary from "../../components/RouteSummary";
@@ -22,9 +25,10 @@ export default function RouteSummaryScreen() {
 
       // Check pending readings
       const pendingReadings = await getPendingReadings();
-      setPendingUploads(
-        pendingReadings.filter((r) => r.syncStatus === "pending").length,
-      );
+      setPendingUploads(pendingReadings.length);
+
+      // Last server confirmation of uploaded readings
+      setConfirmation(await getUploadConfirmation());
     };
 
     checkStatus();
@@ -34,6 +38,11 @@ export default function RouteSummaryScreen() {
     "online" | "offline" | "syncing" | "completed" | "error"
   >("online");
   const [pendingUploads, setPendingUploads] = useState(0);
+  const [confirmation, setConfirmation] = useState<UploadConfirmation | null>(
+    null,
+  );
+  const syncProgress = useSyncProgress();
+  const sync = useSyncEngine();
 
   // Mock data for the route summary
   const routeSummaryData = {
@@ -58,11 +67,18 @@ export default function RouteSummaryScreen() {
 
     try {
       // Actual sync process
-      const result = await syncPendingReadings();
+      const result = await sync.requestSync("upload");
 
       setSyncStatus(result.success ? "completed" : "error");
 
-      if (result.success) {
+      if (result.cancelled) {
+        Alert.alert(
+          "Sync Cancelled",
+          result.reason === "timeout"
+            ? "Synchronization took too long and was stopped. Please try again."
+            : "Synchronization was cancelled.",
+        );
+      } else if (result.success) {
         Alert.alert(
           "Sync Complete",
           `Successfully synchronized ${result.syncedCount} readings.`,
@@ -74,11 +90,10 @@ export default function RouteSummaryScreen() {
         );
       }
 
-      // Update pending count
+      // Update pending count and the server confirmation
       const pendingReadings = await getPendingReadings();
-      setPendingUploads(
-        pendingReadings.filter((r) => r.syncStatus === "pending").length,
-      );
+      setPendingUploads(pendingReadings.length);
+      setConfirmation(await getUploadConfirmation());
     } catch (error) {
       console.error("Sync error:", error);
       setSyncStatus("error");
@@ -143,9 +158,39 @@ export default function RouteSummaryScreen() {
               minute: "2-digit",
             })}
             pendingUploads={pendingUploads}
+            progress={syncProgress}
             onSyncPress={handleSyncPress}
           />
 
+          {/* Server Confirmation */}
+          {confirmation && (
+            <View
+              className={`rounded-lg p-4 ${
+                confirmation.requeuedIds.length > 0
+                  ? "bg-amber-100"
+                  : "bg-green-100"
+              }`}
+            >
+              <Text className="font-semibold text-gray-800">
+                Server confirmed {confirmation.confirmedCount} of{" "}
+                {confirmation.expectedCount} readings
+              </Text>
+              {confirmation.requeuedIds.length > 0 && (
+                <Text className="text-amber-800 mt-1">
+                  {confirmation.requeuedIds.length} readings were not found on
+                  the server and will be uploaded again.
+                </Text>
+              )}
+              <Text className="text-xs text-gray-600 mt-1">
+                Checked at{" "}
+                {new Date(confirmation.checkedAt).toLocaleTimeString([], {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </Text>
+            </View>
+          )}
+
           {/* Complete Route Button */}
           <TouchableOpacity
             className="bg-green-500 py-4 rounded-lg mb-8"
@@ -0,0 +1,171 @@
+import { createHmac, randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { FakeStore, FixtureUser } from "./store";
+import { readJson, sendJson } from "./respond";
+
+// The Supabase Auth subset the app uses: password sign-in, token refresh,
+// reading the signed-in user and signing out. Access tokens are real HS256
+// JWTs signed with a fixed secret, so clients that decode them keep working.
+
+const JWT_SECRET = "fake-supabase-jwt-secret";
+const TOKEN_LIFETIME_SECONDS = 3600;
+
+const base64Url = (value: string): string =>
+  Buffer.from(value, "utf8").toString("base64url");
+
+const sign = (content: string): string =>
+  createHmac("sha256", JWT_SECRET).update(content).digest("base64url");
+
+const createJwt = (payload: Record<string, any>): string => {
+  const content = `${base64Url(
+    JSON.stringify({ alg: "HS256", typ: "JWT" }),
+  )}.${base64Url(JSON.stringify(payload))}`;
+  return `${content}.${sign(content)}`;
+};
+
+// The token's claims when it is valid and not expired
+const verifyJwt = (token: string): Record<string, any> | null => {
+  const [header, payload, signature] = token.split(".");
+  if (!signature || sign(`${header}.${payload}`) !== signature) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return claims.exp * 1000 > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+const toAuthUser = (user: FixtureUser) => ({
+  id: user.id,
+  aud: "authenticated",
+  role: "authenticated",
+  email: user.email,
+  email_confirmed_at: "2024-01-01T00:00:00Z",
+  app_metadata: { provider: "email", providers: ["email"] },
+  user_metadata: user.user_metadata || {},
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+});
+
+const sendAuthError = (
+  res: ServerResponse,
+  status: number,
+  code: string,
+  message: string,
+): void =>
+  sendJson(res, status, { code: status, error_code: code, msg: message });
+
+export const createAuthHandler = (store: FakeStore) => {
+  // Refresh tokens issued since the server started, with their user ids
+  const refreshTokens = new Map<string, string>();
+
+  const createSession = (user: FixtureUser) => {
+    const expiresAt = Math.floor(Date.now() / 1000) + TOKEN_LIFETIME_SECONDS;
+    const refreshToken = randomUUID();
+    refreshTokens.set(refreshToken, user.id);
+    return {
+      access_token: createJwt({
+        sub: user.id,
+        email: user.email,
+        aud: "authenticated",
+        role: "authenticated",
+        exp: expiresAt,
+      }),
+      token_type: "bearer",
+      expires_in: TOKEN_LIFETIME_SECONDS,
+      expires_at: expiresAt,
+      refresh_token: refreshToken,
+      user: toAuthUser(user),
+    };
+  };
+
+  // Handle a request under /auth/v1/
+  return async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+  ): Promise<void> => {
+    const route = url.pathname.replace(/^\/auth\/v1\//, "");
+
+    // Reachability probe of the app's connection state
+    if (route === "health" && req.method === "GET") {
+      sendJson(res, 200, {
+        version: "fake",
+        name: "GoTrue",
+        description: "Fake Supabase auth",
+      });
+      return;
+    }
+
+    if (route === "token" && req.method === "POST") {
+      const body = (await readJson(req)) || {};
+      const grantType = url.searchParams.get("grant_type");
+      let user: FixtureUser | undefined;
+
+      if (grantType === "password") {
+        user = store.users.find(
+          (candidate) =>
+            candidate.email === body.email &&
+            candidate.password === body.password,
+        );
+        if (!user) {
+          sendAuthError(
+            res,
+            400,
+            "invalid_credentials",
+            "Invalid login credentials",
+          );
+          return;
+        }
+      } else if (grantType === "refresh_token") {
+        const userId = refreshTokens.get(body.refresh_token);
+        refreshTokens.delete(body.refresh_token);
+        user = store.users.find((candidate) => candidate.id === userId);
+        if (!user) {
+          sendAuthError(
+            res,
+            400,
+            "refresh_token_not_found",
+            "Invalid Refresh Token: Refresh Token Not Found",
+          );
+          return;
+        }
+      } else {
+        sendAuthError(res, 400, "validation_failed", "Unsupported grant type");
+        return;
+      }
+
+      sendJson(res, 200, createSession(user));
+      return;
+    }
+
+    const token = String(req.headers.authorization || "").replace(
+      /^Bearer\s+/i,
+      "",
+    );
+    const claims = verifyJwt(token);
+
+    if (route === "user" && req.method === "GET") {
+      const user = store.users.find(
+        (candidate) => candidate.id === claims?.sub,
+      );
+      if (!user) {
+        sendAuthError(res, 401, "bad_jwt", "invalid JWT");
+        return;
+      }
+      sendJson(res, 200, toAuthUser(user));
+      return;
+    }
+
+    if (route === "logout" && req.method === "POST") {
+      for (const [refreshToken, userId] of refreshTokens) {
+        if (userId === claims?.sub) refreshTokens.delete(refreshToken);
+      }
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    sendAuthError(res, 404, "not_found", `Unknown route ${route}`);
+  };
+};
@@ -0,0 +1,105 @@
+// Fault injection for the fake Supabase server. Rules pick out requests by
+// method and path and make them slow, fail with a status, drop the
+// connection or close it in the middle of the response. Rules can be
+// limited to a number of requests and skip the first ones, and random rules
+// use a seeded generator, so a run fails the same way every time.
+
+export type FaultKind = "latency" | "status" | "drop" | "premature-close";
+
+export interface FaultRule {
+  kind: FaultKind;
+  // Only requests whose path contains this, e.g. "/rest/v1/leituras"
+  path?: string;
+  // Only requests with this method
+  method?: string;
+  // Delay for "latency" faults, in milliseconds
+  delayMs?: number;
+  // Status for "status" faults; 503 when unset
+  status?: number;
+  // Let this many matching requests through before the rule applies
+  skip?: number;
+  // Apply to this many requests, then remove the rule; no limit when unset
+  times?: number;
+  // Apply to a matching request with this probability
+  probability?: number;
+}
+
+export interface FaultConfig {
+  // Seed for rules with a probability
+  seed?: number;
+  rules: FaultRule[];
+}
+
+export interface FaultInjector {
+  getConfig: () => FaultConfig;
+  configure: (config: FaultConfig) => void;
+  clear: () => void;
+  // Faults to apply to a request: any latency rules plus at most one rule
+  // that ends the request. Counts down the rules that matched.
+  match: (method: string, path: string) => FaultRule[];
+}
+
+const DEFAULT_SEED = 1;
+
+// mulberry32: small, fast and good enough to spread faults over requests
+const createRandom = (seed: number) => {
+  let state = seed | 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createFaultInjector = (
+  initial: FaultConfig = { rules: [] },
+): FaultInjector => {
+  let config: FaultConfig = { rules: [] };
+  let random = createRandom(DEFAULT_SEED);
+
+  const configure = (newConfig: FaultConfig) => {
+    config = {
+      seed: newConfig.seed ?? DEFAULT_SEED,
+      rules: (newConfig.rules || []).map((rule) => ({ ...rule })),
+    };
+    random = createRandom(config.seed!);
+  };
+
+  configure(initial);
+
+  return {
+    getConfig: () => config,
+
+    configure,
+
+    clear: () => configure({ rules: [] }),
+
+    match: (method, path) => {
+      const matched: FaultRule[] = [];
+
+      for (const rule of config.rules) {
+        if (rule.method && rule.method.toUpperCase() !== method) continue;
+        if (rule.path && !path.includes(rule.path)) continue;
+        const ends = rule.kind !== "latency";
+        if (ends && matched.some((fault) => fault.kind !== "latency")) {
+          continue;
+        }
+        if (rule.skip) {
+          rule.skip--;
+          continue;
+        }
+        if (rule.probability !== undefined && random() >= rule.probability) {
+          continue;
+        }
+        if (rule.times !== undefined) rule.times--;
+        matched.push(rule);
+      }
+
+      config.rules = config.rules.filter(
+        (rule) => rule.times === undefined || rule.times > 0,
+      );
+      return matched;
+    },
+  };
+};
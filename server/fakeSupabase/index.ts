@@ -0,0 +1,37 @@
+import path from "path";
+import { createFakeSupabase } from "./server";
+
+// Start the fake Supabase server: `npm run fake-supabase`
+//
+//   FAKE_SUPABASE_PORT     port to listen on (54321, like `supabase start`)
+//   FAKE_SUPABASE_FIXTURE  fixture file to seed from
+//   FAKE_SUPABASE_FAULTS   fault rules as JSON, e.g.
+//                          {"rules":[{"kind":"status","status":503,"times":2}]}
+//   FAKE_SUPABASE_CHANGE_RETENTION_DAYS
+//                          refuse sync cursors older than this with 410
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fakeSupabase = createFakeSupabase({
+  port: Number(process.env.FAKE_SUPABASE_PORT) || 54321,
+  fixture: process.env.FAKE_SUPABASE_FIXTURE
+    ? path.resolve(process.env.FAKE_SUPABASE_FIXTURE)
+    : undefined,
+  faults: process.env.FAKE_SUPABASE_FAULTS
+    ? JSON.parse(process.env.FAKE_SUPABASE_FAULTS)
+    : undefined,
+  changeRetentionMs: process.env.FAKE_SUPABASE_CHANGE_RETENTION_DAYS
+    ? Number(process.env.FAKE_SUPABASE_CHANGE_RETENTION_DAYS) * DAY_MS
+    : undefined,
+});
+
+fakeSupabase.listen().then(
+  (url) => {
+    console.log(`Fake Supabase listening on ${url}`);
+    console.log(`Seeded from ${fakeSupabase.store.fixturePath}`);
+  },
+  (error) => {
+    console.error("Could not start the fake Supabase server:", error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,666 @@
+import { randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { FakeStore, Row, FOREIGN_KEYS } from "./store";
+import { readJson, sendJson } from "./respond";
+
+// The PostgREST subset the app uses: selects with embedded relations
+// (including !inner joins and filters on embedded columns), the common
+// filter operators, `or`, ordering, limit/offset and Range paging, exact
+// counts, single-object responses, inserts/upserts, and the upsert_leituras
+// function.
+
+type SelectItem =
+  | { type: "column"; name: string; alias: string }
+  | {
+      type: "embed";
+      relation: string;
+      alias: string;
+      hint: string | null;
+      inner: boolean;
+      items: SelectItem[];
+    };
+
+interface Filter {
+  // Embedded resource the filter applies to; empty for the table itself
+  path: string[];
+  column: string;
+  operator: string;
+  value: string;
+  negate: boolean;
+}
+
+interface Ordering {
+  column: string;
+  descending: boolean;
+  nullsFirst: boolean;
+}
+
+export interface PostgrestOptions {
+  // How far back rows can be asked for by updated_at; older gt/gte filters
+  // are refused with 410, like a database that raises sqlstate PT410 for
+  // expired sync cursors. Unlimited when unset.
+  changeRetentionMs?: number;
+}
+
+// Query parameters that aren't filters
+const RESERVED_PARAMS = ["select", "order", "limit", "offset", "on_conflict"];
+
+const OBJECT_MEDIA_TYPE = "application/vnd.pgrst.object+json";
+
+// Error in PostgREST's response format
+class PostgrestError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details: string | null = null,
+  ) {
+    super(message);
+  }
+}
+
+const getTable = (store: FakeStore, table: string): Row[] => {
+  const rows = store.tables.get(table);
+  if (!rows) {
+    throw new PostgrestError(
+      404,
+      "PGRST205",
+      `Could not find the table 'public.${table}' in the schema cache`,
+    );
+  }
+  return rows;
+};
+
+// Parse a select list such as `id, ruas!inner(id, bairros(nome))`
+const parseSelect = (input: string): SelectItem[] => {
+  const source = input.replace(/\s+/g, "");
+  let position = 0;
+
+  const parseError = () =>
+    new PostgrestError(
+      400,
+      "PGRST100",
+      `Failed to parse select parameter (${input})`,
+    );
+
+  const parseItems = (): SelectItem[] => {
+    const items: SelectItem[] = [];
+    while (position < source.length && source[position] !== ")") {
+      const start = position;
+      while (position < source.length && !",()".includes(source[position])) {
+        position++;
+      }
+      // Casts don't change the fake's values
+      const token = source.slice(start, position).replace(/::\w+$/, "");
+      const separator = token.indexOf(":");
+      const alias = separator === -1 ? null : token.slice(0, separator);
+      const target = separator === -1 ? token : token.slice(separator + 1);
+
+      if (source[position] === "(") {
+        position++;
+        const children = parseItems();
+        if (source[position] !== ")") throw parseError();
+        position++;
+        const [relation, ...hints] = target.split("!");
+        const hint = hints.find((name) => name !== "inner" && name !== "left");
+        items.push({
+          type: "embed",
+          relation,
+          alias: alias || relation,
+          hint: hint || null,
+          inner: hints.includes("inner"),
+          items: children,
+        });
+      } else if (target) {
+        items.push({ type: "column", name: target, alias: alias || target });
+      }
+
+      if (source[position] === ",") position++;
+    }
+    return items;
+  };
+
+  const items = parseItems();
+  if (position !== source.length) throw parseError();
+  return items.length > 0 ? items : [{ type: "column", name: "*", alias: "*" }];
+};
+
+// Find how `relation` embeds into `table`: through a foreign key on the
+// table (one related row) or on the relation (many related rows)
+const findRelationship = (
+  table: string,
+  relation: string,
+  hint: string | null,
+): { column: string; many: boolean } => {
+  const candidates = [
+    ...FOREIGN_KEYS.filter(
+      (key) => key.table === table && key.references === relation,
+    ).map((key) => ({ column: key.column, many: false })),
+    ...FOREIGN_KEYS.filter(
+      (key) => key.table === relation && key.references === table,
+    ).map((key) => ({ column: key.column, many: true })),
+  ].filter((candidate) => !hint || candidate.column === hint);
+
+  if (candidates.length === 0) {
+    throw new PostgrestError(
+      400,
+      "PGRST200",
+      `Could not find a relationship between '${table}' and '${relation}' ` +
+        "in the schema cache",
+    );
+  }
+  if (candidates.length > 1) {
+    throw new PostgrestError(
+      300,
+      "PGRST201",
+      `Could not embed because more than one relationship was found for ` +
+        `'${table}' and '${relation}'`,
+    );
+  }
+  return candidates[0];
+};
+
+// Strip the quotes PostgREST allows around values in lists and `or`
+const unquote = (value: string): string =>
+  value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+    : value;
+
+// Split on commas outside quotes and parentheses
+const splitTopLevel = (value: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === "(") {
+      depth++;
+    } else if (!quoted && char === ")") {
+      depth--;
+    } else if (!quoted && depth === 0 && char === ",") {
+      parts.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start));
+  return parts;
+};
+
+// Parse `[not.]operator.value` for a column such as `ruas.roteiros.id`
+const parseFilter = (key: string, expression: string): Filter => {
+  const match = /^(not\.)?(\w+)\.([\s\S]*)$/.exec(expression);
+  if (!match) {
+    throw new PostgrestError(
+      400,
+      "PGRST100",
+      `Failed to parse filter (${key}=${expression})`,
+    );
+  }
+  const segments = key.split(".");
+  return {
+    path: segments.slice(0, -1),
+    column: segments[segments.length - 1],
+    operator: match[2],
+    value: match[3],
+    negate: !!match[1],
+  };
+};
+
+// Parse `(a.eq.1,b.eq."x y")` into its conditions
+const parseOr = (expression: string): Filter[] =>
+  splitTopLevel(expression.replace(/^\(|\)$/g, "")).map((condition) => {
+    const [column, ...rest] = condition.split(".");
+    const filter = parseFilter(column, rest.join("."));
+    return { ...filter, value: unquote(filter.value) };
+  });
+
+const compare = (value: any, expected: string): number => {
+  if (typeof value === "number") return value - Number(expected);
+  const text = String(value);
+  return text < expected ? -1 : text > expected ? 1 : 0;
+};
+
+const likeToRegExp = (pattern: string, flags: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/[*%]/g, ".*")}$`,
+    flags,
+  );
+
+const matches = (row: Row, filter: Filter): boolean => {
+  const value = row[filter.column];
+  const present = value !== null && value !== undefined;
+  let result: boolean;
+
+  switch (filter.operator) {
+    case "eq":
+      result = present && compare(value, filter.value) === 0;
+      break;
+    case "neq":
+      result = present && compare(value, filter.value) !== 0;
+      break;
+    case "gt":
+      result = present && compare(value, filter.value) > 0;
+      break;
+    case "gte":
+      result = present && compare(value, filter.value) >= 0;
+      break;
+    case "lt":
+      result = present && compare(value, filter.value) < 0;
+      break;
+    case "lte":
+      result = present && compare(value, filter.value) <= 0;
+      break;
+    case "in":
+      result =
+        present &&
+        splitTopLevel(filter.value.replace(/^\(|\)$/g, ""))
+          .map(unquote)
+          .some((item) => compare(value, item) === 0);
+      break;
+    case "is":
+      result =
+        filter.value === "null" ? !present : String(value) === filter.value;
+      break;
+    case "like":
+    case "ilike":
+      result =
+        present &&
+        likeToRegExp(filter.value, filter.operator === "ilike" ? "i" : "").test(
+          String(value),
+        );
+      break;
+    default:
+      throw new PostgrestError(
+        400,
+        "PGRST100",
+        `Unsupported filter operator "${filter.operator}"`,
+      );
+  }
+
+  return filter.negate ? !result : result;
+};
+
+const samePath = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((segment, i) => segment === b[i]);
+
+// Shape a row for the response, embedding its related rows. Resolves to
+// null when an !inner embed has no rows left, which drops the row.
+const shapeRow = (
+  store: FakeStore,
+  table: string,
+  row: Row,
+  items: SelectItem[],
+  filters: Filter[],
+  path: string[] = [],
+): Row | null => {
+  const shaped: Row = {};
+
+  for (const item of items) {
+    if (item.type === "column") {
+      if (item.name === "*") {
+        Object.assign(shaped, row);
+      } else {
+        shaped[item.alias] = row[item.name] ?? null;
+      }
+      continue;
+    }
+
+    const { column, many } = findRelationship(table, item.relation, item.hint);
+    const embedPath = [...path, item.alias];
+    const embedFilters = filters.filter((filter) =>
+      samePath(filter.path, embedPath),
+    );
+    const related = getTable(store, item.relation)
+      .filter((candidate) =>
+        many ? candidate[column] === row.id : candidate.id === row[column],
+      )
+      .filter((candidate) =>
+        embedFilters.every((filter) => matches(candidate, filter)),
+      )
+      .map((candidate) =>
+        shapeRow(
+          store,
+          item.relation,
+          candidate,
+          item.items,
+          filters,
+          embedPath,
+        ),
+      )
+      .filter((candidate): candidate is Row => candidate !== null);
+
+    if (item.inner && related.length === 0) return null;
+    shaped[item.alias] = many ? related : related[0] ?? null;
+  }
+
+  return shaped;
+};
+
+const parseOrder = (order: string | null): Ordering[] =>
+  (order ? order.split(",") : []).map((term) => {
+    const [column, ...modifiers] = term.split(".");
+    const descending = modifiers.includes("desc");
+    return {
+      column,
+      descending,
+      nullsFirst: modifiers.includes("nullsfirst")
+        ? true
+        : modifiers.includes("nullslast")
+          ? false
+          : descending,
+    };
+  });
+
+const compareRows = (a: Row, b: Row, orderings: Ordering[]): number => {
+  for (const { column, descending, nullsFirst } of orderings) {
+    const left = a[column];
+    const right = b[column];
+    if (left == null || right == null) {
+      if (left == null && right == null) continue;
+      return (left == null ? -1 : 1) * (nullsFirst ? 1 : -1);
+    }
+    const difference =
+      typeof left === "number" && typeof right === "number"
+        ? left - right
+        : String(left).localeCompare(String(right));
+    if (difference !== 0) return descending ? -difference : difference;
+  }
+  return 0;
+};
+
+// Read the Prefer header into its settings, e.g. { count: "exact" }
+const parsePrefer = (header: string | string[] | undefined) =>
+  Object.fromEntries(
+    [header || ""]
+      .flat()
+      .join(",")
+      .split(/[;,]/)
+      .map((setting) => setting.trim().split("="))
+      .filter(([name]) => name),
+  ) as Record<string, string>;
+
+// Paging from limit/offset or a Range header such as `0-999`
+const getPaging = (
+  req: IncomingMessage,
+  params: URLSearchParams,
+): { offset: number; limit: number | null } => {
+  const range = /^(\d+)-(\d*)$/.exec(String(req.headers.range || ""));
+  let offset = Number(params.get("offset") || 0);
+  let limit = params.has("limit") ? Number(params.get("limit")) : null;
+  if (range) {
+    offset = Number(range[1]);
+    if (range[2]) limit = Number(range[2]) - offset + 1;
+  }
+  return { offset, limit };
+};
+
+const contentRange = (offset: number, count: number, total: number | null) =>
+  `${count > 0 ? `${offset}-${offset + count - 1}` : "*"}/${total ?? "*"}`;
+
+// Respond with rows, as a single object when the client asked for one
+const sendRows = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  status: number,
+  rows: Row[],
+  headers: Record<string, string>,
+): void => {
+  const wantsObject = String(req.headers.accept || "").includes(
+    OBJECT_MEDIA_TYPE,
+  );
+  if (wantsObject && rows.length !== 1) {
+    throw new PostgrestError(
+      406,
+      "PGRST116",
+      "JSON object requested, multiple (or no) rows returned",
+      `The result contains ${rows.length} rows`,
+    );
+  }
+  const body = wantsObject ? rows[0] : rows;
+  if (req.method === "HEAD") {
+    res.writeHead(status, headers);
+    res.end();
+  } else {
+    sendJson(res, status, body, headers);
+  }
+};
+
+// Refuse a changes request whose cursor is older than the retention
+const checkCursor = (filters: Filter[], options: PostgrestOptions): void => {
+  if (options.changeRetentionMs === undefined) return;
+  const oldest = Date.now() - options.changeRetentionMs;
+  for (const filter of filters) {
+    const isCursor =
+      filter.path.length === 0 &&
+      filter.column === "updated_at" &&
+      (filter.operator === "gt" || filter.operator === "gte");
+    if (isCursor && new Date(filter.value).getTime() < oldest) {
+      throw new PostgrestError(
+        410,
+        "PT410",
+        `Changes since ${filter.value} are no longer kept`,
+      );
+    }
+  }
+};
+
+const handleRead = (
+  store: FakeStore,
+  table: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: URLSearchParams,
+  options: PostgrestOptions,
+): void => {
+  const items = parseSelect(params.get("select") || "*");
+  const filters: Filter[] = [];
+  const alternatives: Filter[] = [];
+  for (const [key, value] of params) {
+    if (key === "or") {
+      alternatives.push(...parseOr(value));
+    } else if (!RESERVED_PARAMS.includes(key)) {
+      filters.push(parseFilter(key, value));
+    }
+  }
+  checkCursor(filters, options);
+  const ownFilters = filters.filter((filter) => filter.path.length === 0);
+
+  const selected = getTable(store, table)
+    .filter((row) => ownFilters.every((filter) => matches(row, filter)))
+    .filter(
+      (row) =>
+        alternatives.length === 0 ||
+        alternatives.some((filter) => matches(row, filter)),
+    )
+    .map((row) => ({
+      row,
+      shaped: shapeRow(store, table, row, items, filters),
+    }))
+    .filter((entry): entry is { row: Row; shaped: Row } => !!entry.shaped);
+
+  const orderings = parseOrder(params.get("order"));
+  if (orderings.length > 0) {
+    selected.sort((a, b) => compareRows(a.row, b.row, orderings));
+  }
+
+  const { offset, limit } = getPaging(req, params);
+  const page = selected
+    .slice(offset, limit === null ? undefined : offset + limit)
+    .map((entry) => entry.shaped);
+  const wantsCount = !!parsePrefer(req.headers.prefer).count;
+
+  sendRows(req, res, 200, page, {
+    "Content-Range": contentRange(
+      offset,
+      page.length,
+      wantsCount ? selected.length : null,
+    ),
+  });
+};
+
+const handleInsert = async (
+  store: FakeStore,
+  table: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  params: URLSearchParams,
+): Promise<void> => {
+  const rows = getTable(store, table);
+  let body: any;
+  try {
+    body = await readJson(req);
+  } catch {
+    throw new PostgrestError(400, "PGRST102", "Empty or invalid json");
+  }
+  if (!body || typeof body !== "object") {
+    throw new PostgrestError(400, "PGRST102", "Empty or invalid json");
+  }
+
+  const prefer = parsePrefer(req.headers.prefer);
+  const conflictColumns = (params.get("on_conflict") || "id").split(",");
+  const now = new Date().toISOString();
+  const written: Row[] = [];
+
+  for (const record of Array.isArray(body) ? body : [body]) {
+    const existing = rows.find((row) =>
+      conflictColumns.every(
+        (column) =>
+          record[column] !== undefined && row[column] === record[column],
+      ),
+    );
+
+    if (!existing) {
+      const row = { id: randomUUID(), created_at: now, ...record };
+      row.updated_at = now;
+      rows.push(row);
+      written.push(row);
+    } else if (prefer.resolution === "merge-duplicates") {
+      Object.assign(existing, record, { updated_at: now });
+      written.push(existing);
+    } else if (prefer.resolution !== "ignore-duplicates") {
+      throw new PostgrestError(
+        409,
+        "23505",
+        `duplicate key value violates unique constraint "${table}_pkey"`,
+        `Key (${conflictColumns.join(", ")})=(` +
+          `${conflictColumns.map((column) => record[column]).join(", ")}) ` +
+          "already exists.",
+      );
+    }
+  }
+
+  if (prefer.return !== "representation") {
+    res.writeHead(201);
+    res.end();
+    return;
+  }
+  const items = parseSelect(params.get("select") || "*");
+  const shaped = written
+    .map((row) => shapeRow(store, table, row, items, []))
+    .filter((row): row is Row => row !== null);
+  sendRows(req, res, 201, shaped, {
+    "Content-Range": contentRange(0, shaped.length, null),
+  });
+};
+
+// Same as the upsert_leituras function in supabase/migrations: a reading is
+// only written when it is new or its versao is higher than the stored one,
+// and every reading is answered with the id and versao the server holds
+const upsertLeituras = (store: FakeStore, args: any): Row[] => {
+  const rows = getTable(store, "leituras");
+  if (!Array.isArray(args?.leituras)) {
+    throw new PostgrestError(
+      400,
+      "PGRST202",
+      "Could not find the function public.upsert_leituras without parameters",
+    );
+  }
+  const now = new Date().toISOString();
+
+  return args.leituras.map((record: Row) => {
+    const existing = rows.find((row) => row.id === record.id);
+    if (!existing) {
+      const row: Row = { created_at: now, ...record, updated_at: now };
+      rows.push(row);
+      return { id: row.id, versao: row.versao };
+    }
+    if ((existing.versao ?? 1) < (record.versao ?? 1)) {
+      Object.assign(existing, record, { updated_at: now });
+    }
+    return { id: existing.id, versao: existing.versao };
+  });
+};
+
+const RPC_FUNCTIONS: Record<string, (store: FakeStore, args: any) => Row[]> = {
+  upsert_leituras: upsertLeituras,
+};
+
+const handleRpc = async (
+  store: FakeStore,
+  name: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> => {
+  const call = RPC_FUNCTIONS[name];
+  if (!call) {
+    throw new PostgrestError(
+      404,
+      "PGRST202",
+      `Could not find the function public.${name} in the schema cache`,
+    );
+  }
+  let body: any;
+  try {
+    body = await readJson(req);
+  } catch {
+    throw new PostgrestError(400, "PGRST102", "Empty or invalid json");
+  }
+  sendRows(req, res, 200, call(store, body), {});
+};
+
+// Handle a request under /rest/v1/
+export const handlePostgrest = async (
+  store: FakeStore,
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  options: PostgrestOptions = {},
+): Promise<void> => {
+  const table = decodeURIComponent(url.pathname.replace(/^\/rest\/v1\//, ""));
+  try {
+    switch (req.method) {
+      case "GET":
+      case "HEAD":
+        handleRead(store, table, req, res, url.searchParams, options);
+        return;
+      case "POST":
+        if (table.startsWith("rpc/")) {
+          await handleRpc(store, table.slice("rpc/".length), req, res);
+          return;
+        }
+        await handleInsert(store, table, req, res, url.searchParams);
+        return;
+      default:
+        throw new PostgrestError(
+          405,
+          "PGRST105",
+          `Method ${req.method} is not supported by the fake server`,
+        );
+    }
+  } catch (error) {
+    if (!(error instanceof PostgrestError)) throw error;
+    sendJson(res, error.status, {
+      code: error.code,
+      details: error.details,
+      hint: null,
+      message: error.message,
+    });
+  }
+};
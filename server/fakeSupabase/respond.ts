@@ -0,0 +1,33 @@
+import type { IncomingMessage, ServerResponse } from "http";
+
+// Small HTTP helpers shared by the fake Supabase services
+
+// Read the whole request body
+export const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+// Read a JSON request body; undefined when the body is empty
+export const readJson = async (req: IncomingMessage): Promise<any> => {
+  const body = (await readBody(req)).toString("utf8");
+  return body.trim() ? JSON.parse(body) : undefined;
+};
+
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void => {
+  const payload = body === undefined ? "" : JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(payload),
+    ...headers,
+  });
+  res.end(payload);
+};
@@ -0,0 +1,211 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { createFakeStore, FakeStore } from "./store";
+import {
+  createFaultInjector,
+  FaultConfig,
+  FaultInjector,
+  FaultRule,
+} from "./faults";
+import { handlePostgrest, PostgrestOptions } from "./postgrest";
+import { handleStorage } from "./storage";
+import { createAuthHandler } from "./auth";
+import { readJson, sendJson } from "./respond";
+
+// Local stand-in for a Supabase project, so the sync can be run end to end
+// without a live project. Point EXPO_PUBLIC_SUPABASE_URL at it.
+//
+// Besides /rest/v1, /storage/v1 and /auth/v1 it has control endpoints,
+// which faults never apply to:
+//   GET|PUT|DELETE /__fake/faults    read, replace or clear the fault rules
+//   GET|DELETE     /__fake/requests  read or clear the request log
+//   POST           /__fake/reset     reseed from the fixture ({ fixture })
+
+export interface FakeSupabaseOptions extends PostgrestOptions {
+  port?: number;
+  host?: string;
+  // Fixture file to seed from; the default fixture when unset
+  fixture?: string;
+  faults?: FaultConfig;
+}
+
+export interface RequestLogEntry {
+  at: string;
+  method: string;
+  path: string;
+  status: number | null;
+  // Kinds of the faults applied to the request
+  faults: string[];
+}
+
+export interface FakeSupabase {
+  store: FakeStore;
+  faults: FaultInjector;
+  requests: RequestLogEntry[];
+  // Start listening; resolves to the server's URL
+  listen: () => Promise<string>;
+  close: () => Promise<void>;
+}
+
+const MAX_LOGGED_REQUESTS = 1000;
+
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Browsers (the web build) call the server cross-origin
+const setCorsHeaders = (res: ServerResponse): void => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "*");
+  res.setHeader(
+    "Access-Control-Allow-Methods",
+    "GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS",
+  );
+  res.setHeader(
+    "Access-Control-Expose-Headers",
+    "Content-Range, Location, Tus-Resumable, Upload-Offset, Upload-Length",
+  );
+};
+
+// Apply the faults picked for a request; true when one ended it
+const applyFaults = async (
+  faults: FaultRule[],
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<boolean> => {
+  for (const fault of faults) {
+    switch (fault.kind) {
+      case "latency":
+        await delay(fault.delayMs ?? 1000);
+        break;
+      case "status": {
+        const status = fault.status ?? 503;
+        sendJson(res, status, {
+          code: "FAKE_FAULT",
+          message: `Injected ${status} response`,
+        });
+        return true;
+      }
+      case "drop":
+        req.socket.destroy();
+        return true;
+      case "premature-close":
+        // Promise more body than is sent, then cut the connection
+        res.writeHead(200, {
+          "Content-Type": "application/json; charset=utf-8",
+          "Content-Length": 4096,
+        });
+        res.write('[{"id":', () => req.socket.destroy());
+        return true;
+    }
+  }
+  return false;
+};
+
+export const createFakeSupabase = (
+  options: FakeSupabaseOptions = {},
+): FakeSupabase => {
+  const store = createFakeStore(options.fixture);
+  const faults = createFaultInjector(options.faults);
+  const handleAuth = createAuthHandler(store);
+  const requests: RequestLogEntry[] = [];
+
+  const handleControl = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    route: string,
+  ): Promise<void> => {
+    if (route === "faults") {
+      if (req.method === "PUT") faults.configure((await readJson(req)) || {});
+      if (req.method === "DELETE") faults.clear();
+      sendJson(res, 200, faults.getConfig());
+    } else if (route === "requests") {
+      if (req.method === "DELETE") requests.length = 0;
+      sendJson(res, 200, requests);
+    } else if (route === "reset" && req.method === "POST") {
+      const body = (await readJson(req)) || {};
+      store.reset(body.fixture);
+      faults.clear();
+      requests.length = 0;
+      sendJson(res, 200, { fixture: store.fixturePath });
+    } else {
+      sendJson(res, 404, { message: `Unknown control route ${route}` });
+    }
+  };
+
+  const handleRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const method = req.method || "GET";
+    setCorsHeaders(res);
+
+    if (method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (url.pathname.startsWith("/__fake/")) {
+      await handleControl(req, res, url.pathname.slice("/__fake/".length));
+      return;
+    }
+
+    const applied = faults.match(method, url.pathname);
+    const entry: RequestLogEntry = {
+      at: new Date().toISOString(),
+      method,
+      path: `${url.pathname}${url.search}`,
+      status: null,
+      faults: applied.map((fault) => fault.kind),
+    };
+    requests.push(entry);
+    if (requests.length > MAX_LOGGED_REQUESTS) requests.shift();
+    res.on("finish", () => {
+      entry.status = res.statusCode;
+    });
+
+    if (await applyFaults(applied, req, res)) return;
+
+    if (url.pathname.startsWith("/rest/v1/")) {
+      await handlePostgrest(store, req, res, url, options);
+    } else if (url.pathname.startsWith("/storage/v1/")) {
+      await handleStorage(store, req, res, url);
+    } else if (url.pathname.startsWith("/auth/v1/")) {
+      await handleAuth(req, res, url);
+    } else {
+      sendJson(res, 404, { message: `Unknown route ${url.pathname}` });
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error("[fakeSupabase] Request failed:", error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { message: String(error?.message || error) });
+      } else {
+        res.destroy();
+      }
+    });
+  });
+
+  return {
+    store,
+    faults,
+    requests,
+
+    listen: () =>
+      new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(options.port ?? 0, options.host ?? "0.0.0.0", () => {
+          const { port } = server.address() as AddressInfo;
+          resolve(`http://localhost:${port}`);
+        });
+      }),
+
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
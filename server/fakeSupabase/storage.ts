@@ -0,0 +1,309 @@
+import { randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { FakeStore, StoredObject } from "./store";
+import { readBody, readJson, sendJson } from "./respond";
+
+// The Supabase Storage subset the app uses: uploads (raw bodies like the
+// native upload task sends, multipart like supabase-js sends from the web,
+// or resumable tus uploads), downloads, listing a folder and reading bucket
+// details.
+
+const TUS_HEADERS = { "Tus-Resumable": "1.0.0", "Cache-Control": "no-store" };
+
+const sendStorageError = (
+  res: ServerResponse,
+  status: number,
+  error: string,
+  message: string,
+): void =>
+  sendJson(res, status, { statusCode: String(status), error, message });
+
+// Take the file out of a multipart/form-data body
+const readMultipartFile = (
+  body: Buffer,
+  contentType: string,
+): { data: Buffer; contentType: string } | null => {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) return null;
+  const delimiter = `--${boundary[1] || boundary[2]}`;
+
+  for (const part of body.toString("latin1").split(delimiter)) {
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd === -1) continue;
+    const headers = part.slice(0, headerEnd);
+    if (!/filename=/i.test(headers) && !/name=""/.test(headers)) continue;
+    const content = part.slice(headerEnd + 4).replace(/\r\n$/, "");
+    return {
+      data: Buffer.from(content, "latin1"),
+      contentType:
+        /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1] ||
+        "application/octet-stream",
+    };
+  }
+  return null;
+};
+
+// Store an object, keeping the creation time of the one it replaces
+const putObject = (
+  bucket: Map<string, StoredObject>,
+  key: string,
+  data: Buffer,
+  contentType: string,
+): void => {
+  const now = new Date().toISOString();
+  bucket.set(key, {
+    data,
+    contentType,
+    createdAt: bucket.get(key)?.createdAt || now,
+    updatedAt: now,
+  });
+};
+
+const handleUpload = async (
+  bucket: Map<string, StoredObject>,
+  bucketName: string,
+  key: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> => {
+  const upsert =
+    req.method === "PUT" || String(req.headers["x-upsert"]) === "true";
+  const existing = bucket.get(key);
+  if (existing && !upsert) {
+    sendStorageError(res, 409, "Duplicate", "The resource already exists");
+    return;
+  }
+
+  let data = await readBody(req);
+  let contentType = String(
+    req.headers["content-type"] || "application/octet-stream",
+  );
+  if (contentType.startsWith("multipart/form-data")) {
+    const file = readMultipartFile(data, contentType);
+    if (!file) {
+      sendStorageError(res, 400, "InvalidRequest", "No file in form data");
+      return;
+    }
+    ({ data, contentType } = file);
+  }
+
+  putObject(bucket, key, data, contentType);
+  sendJson(res, 200, { Key: `${bucketName}/${key}`, Id: key });
+};
+
+// Read Upload-Metadata: comma separated `key base64-value` pairs
+const parseUploadMetadata = (header: unknown): Record<string, string> =>
+  Object.fromEntries(
+    String(header || "")
+      .split(",")
+      .filter((pair) => pair.trim())
+      .map((pair) => {
+        const [key, value = ""] = pair.trim().split(" ");
+        return [key, Buffer.from(value, "base64").toString("utf8")];
+      }),
+  );
+
+// Resumable uploads: POST upload/resumable creates one, HEAD
+// upload/resumable/:id tells how many bytes are stored and PATCH appends to
+// them. The object is stored once all of its bytes arrived.
+const handleResumable = async (
+  store: FakeStore,
+  req: IncomingMessage,
+  res: ServerResponse,
+  uploadId: string | undefined,
+): Promise<void> => {
+  if (req.method === "POST" && !uploadId) {
+    const length = Number(req.headers["upload-length"]);
+    const metadata = parseUploadMetadata(req.headers["upload-metadata"]);
+    const bucket = store.buckets.get(metadata.bucketName);
+    if (!bucket) {
+      sendStorageError(res, 404, "Bucket not found", "Bucket not found");
+      return;
+    }
+    if (!Number.isInteger(length) || length < 0 || !metadata.objectName) {
+      sendStorageError(
+        res,
+        400,
+        "InvalidRequest",
+        "Upload-Length and the objectName metadata are required",
+      );
+      return;
+    }
+    const upsert = String(req.headers["x-upsert"]) === "true";
+    if (bucket.has(metadata.objectName) && !upsert) {
+      sendStorageError(res, 409, "Duplicate", "The resource already exists");
+      return;
+    }
+
+    const id = randomUUID();
+    const contentType = metadata.contentType || "application/octet-stream";
+    store.uploads.set(id, {
+      bucket: metadata.bucketName,
+      key: metadata.objectName,
+      length,
+      data: Buffer.alloc(0),
+      contentType,
+    });
+    if (length === 0) {
+      putObject(bucket, metadata.objectName, Buffer.alloc(0), contentType);
+    }
+    res.writeHead(201, {
+      ...TUS_HEADERS,
+      Location: `http://${req.headers.host}/storage/v1/upload/resumable/${id}`,
+      "Upload-Offset": "0",
+    });
+    res.end();
+    return;
+  }
+
+  const upload = uploadId ? store.uploads.get(uploadId) : undefined;
+  if (!upload) {
+    sendStorageError(res, 404, "not_found", "Upload not found");
+    return;
+  }
+
+  if (req.method === "HEAD") {
+    res.writeHead(200, {
+      ...TUS_HEADERS,
+      "Upload-Offset": String(upload.data.length),
+      "Upload-Length": String(upload.length),
+    });
+    res.end();
+  } else if (req.method === "PATCH") {
+    if (req.headers["content-type"] !== "application/offset+octet-stream") {
+      sendStorageError(res, 415, "InvalidRequest", "Unsupported media type");
+      return;
+    }
+    if (Number(req.headers["upload-offset"]) !== upload.data.length) {
+      sendStorageError(res, 409, "Conflict", "Upload-Offset does not match");
+      return;
+    }
+    const chunk = await readBody(req);
+    if (upload.data.length + chunk.length > upload.length) {
+      sendStorageError(res, 413, "InvalidRequest", "Upload-Length exceeded");
+      return;
+    }
+    upload.data = Buffer.concat([upload.data, chunk]);
+    const bucket = store.buckets.get(upload.bucket);
+    if (bucket && upload.data.length === upload.length) {
+      putObject(bucket, upload.key, upload.data, upload.contentType);
+    }
+    res.writeHead(204, {
+      ...TUS_HEADERS,
+      "Upload-Offset": String(upload.data.length),
+    });
+    res.end();
+  } else {
+    sendStorageError(res, 405, "InvalidRequest", "Method not allowed");
+  }
+};
+
+// List the files and folders directly inside a prefix, like storage's
+// list endpoint does
+const handleList = async (
+  bucket: Map<string, StoredObject>,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> => {
+  const {
+    prefix = "",
+    search = "",
+    limit = 100,
+    offset = 0,
+  } = (await readJson(req)) || {};
+  const folder = String(prefix).replace(/\/+$/, "");
+  const entries = new Map<string, Record<string, any>>();
+
+  for (const [key, object] of bucket) {
+    if (folder && !key.startsWith(`${folder}/`)) continue;
+    const rest = folder ? key.slice(folder.length + 1) : key;
+    const [name, ...below] = rest.split("/");
+    if (!name.toLowerCase().startsWith(String(search).toLowerCase())) {
+      continue;
+    }
+    if (below.length > 0) {
+      entries.set(name, { name, id: null, metadata: null });
+    } else {
+      entries.set(name, {
+        name,
+        id: key,
+        created_at: object.createdAt,
+        updated_at: object.updatedAt,
+        last_accessed_at: object.updatedAt,
+        metadata: { size: object.data.length, mimetype: object.contentType },
+      });
+    }
+  }
+
+  const listed = Array.from(entries.values())
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(offset, offset + limit);
+  sendJson(res, 200, listed);
+};
+
+// Handle a request under /storage/v1/
+export const handleStorage = async (
+  store: FakeStore,
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+): Promise<void> => {
+  const route = url.pathname.replace(/^\/storage\/v1\//, "");
+  const segments = route.split("/").map(decodeURIComponent);
+
+  if (segments[0] === "bucket") {
+    const names = Array.from(store.buckets.keys());
+    const toBucket = (name: string) => ({ id: name, name, public: false });
+    if (!segments[1]) {
+      sendJson(res, 200, names.map(toBucket));
+    } else if (store.buckets.has(segments[1])) {
+      sendJson(res, 200, toBucket(segments[1]));
+    } else {
+      sendStorageError(res, 404, "Bucket not found", "Bucket not found");
+    }
+    return;
+  }
+
+  if (segments[0] === "upload" && segments[1] === "resumable") {
+    await handleResumable(store, req, res, segments[2]);
+    return;
+  }
+
+  if (segments[0] !== "object") {
+    sendStorageError(res, 404, "not_found", `Unknown route ${route}`);
+    return;
+  }
+
+  // object/list/:bucket, or object[/authenticated|/public]/:bucket/:key
+  const isList = segments[1] === "list";
+  const offset = ["list", "authenticated", "public"].includes(segments[1])
+    ? 2
+    : 1;
+  const bucketName = segments[offset];
+  const key = segments.slice(offset + 1).join("/");
+  const bucket = store.buckets.get(bucketName);
+  if (!bucket) {
+    sendStorageError(res, 404, "Bucket not found", "Bucket not found");
+    return;
+  }
+
+  if (isList && req.method === "POST") {
+    await handleList(bucket, req, res);
+  } else if (req.method === "POST" || req.method === "PUT") {
+    await handleUpload(bucket, bucketName, key, req, res);
+  } else if (req.method === "GET" || req.method === "HEAD") {
+    const object = bucket.get(key);
+    if (!object) {
+      sendStorageError(res, 404, "not_found", "Object not found");
+      return;
+    }
+    res.writeHead(200, {
+      "Content-Type": object.contentType,
+      "Content-Length": object.data.length,
+      "Last-Modified": new Date(object.updatedAt).toUTCString(),
+    });
+    res.end(req.method === "GET" ? object.data : undefined);
+  } else {
+    sendStorageError(res, 405, "InvalidRequest", "Method not allowed");
+  }
+};
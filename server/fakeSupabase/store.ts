@@ -0,0 +1,120 @@
+import fs from "fs";
+import path from "path";
+
+// In-memory data behind the fake Supabase server: the tables PostgREST
+// serves, the auth users and the storage buckets. Everything is seeded from
+// a fixture file and can be reset to it between test runs.
+
+export type Row = Record<string, any>;
+
+export interface FixtureUser {
+  id: string;
+  email: string;
+  password: string;
+  user_metadata?: Record<string, any>;
+}
+
+export interface Fixture {
+  tables: Record<string, Row[]>;
+  users?: FixtureUser[];
+  buckets?: string[];
+}
+
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A resumable (tus) upload that hasn't received all of its bytes yet
+export interface PendingUpload {
+  bucket: string;
+  key: string;
+  // Bytes the upload will have
+  length: number;
+  // Bytes received so far
+  data: Buffer;
+  contentType: string;
+}
+
+// A foreign key: `table.column` references `references.id`
+export interface ForeignKey {
+  table: string;
+  column: string;
+  references: string;
+}
+
+// Relationships PostgREST would read from the schema; they drive the
+// embedding of related tables in selects
+export const FOREIGN_KEYS: ForeignKey[] = [
+  { table: "ruas", column: "bairro_id", references: "bairros" },
+  { table: "residencias", column: "rua_id", references: "ruas" },
+  { table: "clientes", column: "residencia_id", references: "residencias" },
+  { table: "roteiros", column: "rua_id", references: "ruas" },
+  { table: "roteiros", column: "leiturista_id", references: "leituristas" },
+  { table: "leituras", column: "residencia_id", references: "residencias" },
+  { table: "leituras", column: "cliente_id", references: "clientes" },
+  { table: "leituras", column: "leiturista_id", references: "leituristas" },
+  {
+    table: "politicas_sincronizacao",
+    column: "leiturista_id",
+    references: "leituristas",
+  },
+];
+
+export const DEFAULT_FIXTURE = path.join(__dirname, "fixtures", "default.json");
+
+export interface FakeStore {
+  tables: Map<string, Row[]>;
+  users: FixtureUser[];
+  buckets: Map<string, Map<string, StoredObject>>;
+  // Resumable uploads by id
+  uploads: Map<string, PendingUpload>;
+  // Path of the fixture the store was last seeded from
+  fixturePath: string;
+  // Replace all data with the contents of a fixture file
+  reset: (fixturePath?: string) => void;
+}
+
+// Read and check a fixture file
+export const loadFixture = (fixturePath: string): Fixture => {
+  const fixture = JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+  if (!fixture || typeof fixture.tables !== "object") {
+    throw new Error(`Fixture ${fixturePath} has no "tables" object`);
+  }
+  return fixture;
+};
+
+export const createFakeStore = (
+  fixturePath: string = DEFAULT_FIXTURE,
+): FakeStore => {
+  const store: FakeStore = {
+    tables: new Map(),
+    users: [],
+    buckets: new Map(),
+    uploads: new Map(),
+    fixturePath,
+
+    reset: (newFixturePath = store.fixturePath) => {
+      const fixture = loadFixture(newFixturePath);
+      const now = new Date().toISOString();
+
+      store.fixturePath = newFixturePath;
+      store.tables = new Map(
+        Object.entries(fixture.tables).map(([name, rows]) => [
+          name,
+          rows.map((row) => ({ updated_at: now, ...row })),
+        ]),
+      );
+      store.users = fixture.users || [];
+      store.buckets = new Map(
+        (fixture.buckets || []).map((bucket) => [bucket, new Map()]),
+      );
+      store.uploads = new Map();
+    },
+  };
+
+  store.reset();
+  return store;
+};
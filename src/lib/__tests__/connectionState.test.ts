@@ -0,0 +1,35 @@
+import { TEST_SUPABASE_PORT } from "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFakeSupabase } from "../../../server/fakeSupabase/server";
+import {
+  ConnectionStateManager,
+  isUsableConnection,
+} from "../connectionState";
+import { checkOnlineStatus } from "../syncService";
+
+const manager = ConnectionStateManager.getInstance();
+
+test("a backend that doesn't answer is unreachable, not usable", async () => {
+  // Nothing listens on the test port
+  const state = await manager.refresh();
+  assert.equal(state.status, "unreachable");
+  assert.equal(isUsableConnection(state.status), false);
+  assert.equal(await checkOnlineStatus(), false);
+});
+
+test("a backend answering with server errors is degraded", async () => {
+  const server = createFakeSupabase({
+    port: TEST_SUPABASE_PORT,
+    host: "127.0.0.1",
+    faults: { rules: [{ kind: "status", path: "/auth/v1/health" }] },
+  });
+  await server.listen();
+  try {
+    const state = await manager.refresh();
+    assert.equal(state.status, "degraded");
+    assert.equal(isUsableConnection(state.status), true);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,116 @@
+import { TEST_SUPABASE_PORT } from "./setup";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  FakeSupabase,
+  createFakeSupabase,
+} from "../../../server/fakeSupabase/server";
+import {
+  db,
+  exec,
+  query,
+  initDatabase,
+  getLeituraById,
+  LEITURA_OWNERS_UNKNOWN,
+} from "../database";
+import { MIGRATIONS, runMigrations } from "../migrations";
+import { syncToSupabase } from "../syncService";
+import { createMemoryBackend } from "../memoryBackend";
+import { setSyncBackend } from "../syncBackend";
+
+// Readings of the legacy readings table, taken before leituras was the only
+// reading store, go through migration 2 and the upload sync
+
+// The fake server only answers the connection probe; readings go to the
+// memory backend
+const server: FakeSupabase = createFakeSupabase({
+  port: TEST_SUPABASE_PORT,
+  host: "127.0.0.1",
+});
+const backend = createMemoryBackend();
+
+before(async () => {
+  await server.listen();
+  setSyncBackend(backend);
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("legacy readings get their owners and upload once known", async () => {
+  await runMigrations(db, MIGRATIONS.slice(0, 1));
+  await exec(
+    "INSERT INTO leituristas (id, nome, cidade) VALUES ('leit-1', 'Ana', 'X')",
+  );
+  await exec("INSERT INTO bairros (id, nome, cidade) VALUES ('b-1', 'C', 'X')");
+  await exec(
+    "INSERT INTO ruas (id, nome, bairro_id) VALUES ('rua-1', 'A', 'b-1')",
+  );
+  await exec(
+    "INSERT INTO residencias (id, rua_id, numero) VALUES ('res-1', 'rua-1', 1)",
+  );
+  await exec(
+    `INSERT INTO clientes (id, nome, residencia_id)
+     VALUES ('cli-1', 'Bia', 'res-1')`,
+  );
+  await exec(
+    `INSERT INTO roteiros (id, leiturista_id, rua_id, dia_semana)
+     VALUES ('rot-1', 'leit-1', 'rua-1', 'Segunda-feira')`,
+  );
+  for (const [id, meterId] of [
+    ["reading-1", "MTR-res-1"],
+    ["reading-2", "MTR-res-2"],
+  ]) {
+    await exec(
+      `INSERT INTO readings (id, meter_id, reading_value, timestamp)
+       VALUES (?, ?, '100', '2024-03-01T10:00:00.000Z')`,
+      [id, meterId],
+    );
+  }
+
+  const migrated = await initDatabase();
+  assert.equal(migrated.error, undefined);
+
+  const known = await getLeituraById("reading-1");
+  assert.equal(known.residencia_id, "res-1");
+  assert.equal(known.cliente_id, "cli-1");
+  assert.equal(known.leiturista_id, "leit-1");
+  assert.equal(known.erro_sincronizacao, null);
+
+  // The residence of the second reading wasn't downloaded yet
+  const unknown = await getLeituraById("reading-2");
+  assert.equal(unknown.residencia_id, "");
+  assert.equal(unknown.erro_sincronizacao, LEITURA_OWNERS_UNKNOWN);
+
+  const first = await syncToSupabase();
+  assert.equal(first.success, true);
+  assert.deepEqual(
+    backend.data.leituras.map((row) => row.id),
+    ["reading-1"],
+  );
+  // The held reading is still queued, with no attempt used up
+  const [held] = await query(
+    "SELECT status, attempts FROM sync_outbox WHERE entity_id = 'reading-2'",
+  );
+  assert.deepEqual({ ...held }, { status: "pending", attempts: 0 });
+
+  // A route download brings the residence and its customer
+  await exec(
+    "INSERT INTO residencias (id, rua_id, numero) VALUES ('res-2', 'rua-1', 2)",
+  );
+  await exec(
+    `INSERT INTO clientes (id, nome, residencia_id)
+     VALUES ('cli-2', 'Caio', 'res-2')`,
+  );
+
+  const second = await syncToSupabase();
+  assert.equal(second.success, true);
+  const uploaded = backend.data.leituras.find((row) => row.id === "reading-2");
+  assert.equal(uploaded?.residencia_id, "res-2");
+  assert.equal(uploaded?.cliente_id, "cli-2");
+  assert.equal(uploaded?.leiturista_id, "leit-1");
+  const repaired = await getLeituraById("reading-2");
+  assert.equal(repaired.sincronizado, 1);
+  assert.equal(repaired.erro_sincronizacao, null);
+});
@@ -0,0 +1,25 @@
+// Stand-in for @react-native-async-storage/async-storage when the tests run
+// in Node, keeping the items in memory.
+
+const items = new Map<string, string>();
+
+const AsyncStorage = {
+  getItem: async (key: string) => items.get(key) ?? null,
+  setItem: async (key: string, value: string) => {
+    items.set(key, value);
+  },
+  removeItem: async (key: string) => {
+    items.delete(key);
+  },
+  getAllKeys: async () => Array.from(items.keys()),
+  multiGet: async (keys: string[]) =>
+    keys.map((key): [string, string | null] => [key, items.get(key) ?? null]),
+  multiRemove: async (keys: string[]) => {
+    keys.forEach((key) => items.delete(key));
+  },
+  clear: async () => {
+    items.clear();
+  },
+};
+
+export default AsyncStorage;
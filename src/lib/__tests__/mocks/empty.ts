@@ -0,0 +1,2 @@
+// Stand-in for modules imported only for their side effects
+export {};
@@ -0,0 +1,24 @@
+// Stand-in for expo-file-system when the tests run in Node. There are no
+// files on the device.
+
+export const documentDirectory = "file:///documents/";
+export const cacheDirectory = "file:///cache/";
+
+export const EncodingType = { UTF8: "utf8", Base64: "base64" };
+export const FileSystemUploadType = { BINARY_CONTENT: 0, MULTIPART: 1 };
+export const FileSystemSessionType = { BACKGROUND: 0, FOREGROUND: 1 };
+
+export const getInfoAsync = async (uri: string) => ({ exists: false, uri });
+
+const unavailable = async (): Promise<never> => {
+  throw new Error("No file system in tests");
+};
+
+export const makeDirectoryAsync = unavailable;
+export const copyAsync = unavailable;
+export const readAsStringAsync = unavailable;
+export const writeAsStringAsync = unavailable;
+export const deleteAsync = unavailable;
+export const createUploadTask = () => {
+  throw new Error("No file system in tests");
+};
@@ -0,0 +1,115 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from "sql.js";
+
+// Stand-in for expo-sqlite when the tests run in Node. It keeps the
+// WebSQL-style API of expo-sqlite 11 on top of an in-memory sql.js database,
+// so the modules that use the local database run unchanged.
+
+type Params = any[];
+type SuccessCallback = (tx: Transaction, resultSet: any) => void;
+type ErrorCallback = (tx: Transaction, error: Error) => boolean | void;
+
+interface Statement {
+  sql: string;
+  params: Params;
+  success?: SuccessCallback;
+  error?: ErrorCallback;
+}
+
+class Transaction {
+  statements: Statement[] = [];
+
+  executeSql(
+    sql: string,
+    params: Params = [],
+    success?: SuccessCallback,
+    error?: ErrorCallback,
+  ): void {
+    this.statements.push({ sql, params, success, error });
+  }
+}
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+const toSqlValue = (value: any): SqlValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return value;
+};
+
+const execute = (database: Database, { sql, params }: Statement) => {
+  const statement = database.prepare(sql);
+  try {
+    statement.bind(params.map(toSqlValue));
+    const rows: any[] = [];
+    while (statement.step()) rows.push(statement.getAsObject());
+    const changesRows = statement.getColumnNames().length === 0;
+    return {
+      rows: {
+        length: rows.length,
+        item: (index: number) => rows[index],
+        _array: rows,
+      },
+      rowsAffected: changesRows ? database.getRowsModified() : 0,
+      insertId: changesRows
+        ? (database.exec("SELECT last_insert_rowid()")[0]?.values[0][0] as
+            | number
+            | undefined)
+        : undefined,
+    };
+  } finally {
+    statement.free();
+  }
+};
+
+export const openDatabase = (_name: string) => {
+  let database: Database | null = null;
+  // Transactions run one after the other, like on the device
+  let queue: Promise<void> = Promise.resolve();
+
+  const run = async (
+    callback: (tx: Transaction) => void,
+    errorCallback?: (error: Error) => void,
+    successCallback?: () => void,
+  ): Promise<void> => {
+    sqlJs ??= initSqlJs();
+    const SQL = await sqlJs;
+    database ??= new SQL.Database();
+
+    const tx = new Transaction();
+    database.run("BEGIN");
+    try {
+      callback(tx);
+      // Statements queued by callbacks run in the same transaction
+      while (tx.statements.length > 0) {
+        const statement = tx.statements.shift()!;
+        let resultSet;
+        try {
+          resultSet = execute(database, statement);
+        } catch (error: any) {
+          // An error callback that returns false lets the transaction go on
+          if (statement.error && statement.error(tx, error) === false) {
+            continue;
+          }
+          throw error;
+        }
+        statement.success?.(tx, resultSet);
+      }
+      database.run("COMMIT");
+    } catch (error: any) {
+      database.run("ROLLBACK");
+      errorCallback?.(error);
+      return;
+    }
+    successCallback?.();
+  };
+
+  const transaction = (
+    callback: (tx: Transaction) => void,
+    errorCallback?: (error: Error) => void,
+    successCallback?: () => void,
+  ): void => {
+    queue = queue.then(() => run(callback, errorCallback, successCallback));
+  };
+
+  return { transaction, readTransaction: transaction };
+};
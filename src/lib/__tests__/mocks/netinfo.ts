@@ -0,0 +1,18 @@
+// Stand-in for @react-native-community/netinfo when the tests run in Node.
+// The device is always online.
+
+const state = {
+  type: "wifi",
+  isConnected: true,
+  isInternetReachable: true,
+  details: null,
+};
+
+const NetInfo = {
+  fetch: async () => state,
+  addEventListener: (_listener: (state: any) => void) => () => undefined,
+};
+
+export const useNetInfo = () => state;
+
+export default NetInfo;
@@ -0,0 +1,14 @@
+// Stand-in for the parts of react-native that src/lib uses, when the tests
+// run in Node. The app is always in the foreground.
+
+export const AppState = {
+  currentState: "active",
+  addEventListener: (_type: string, _listener: (state: string) => void) => ({
+    remove: () => undefined,
+  }),
+};
+
+export const Platform = {
+  OS: "ios",
+  select: (options: Record<string, any>) => options.ios ?? options.default,
+};
@@ -0,0 +1,64 @@
+import "./setup";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RateLimitedError,
+  RequestTimeoutError,
+  errorFromStatus,
+  isRetryableError,
+} from "../networkErrors";
+import { RESILIENCE_CONFIG, withResilience } from "../resilience";
+
+// A transport that answers with the given replies, one per request
+const replying = (...replies: Response[]) => {
+  const sent: string[] = [];
+  const send = async (url: RequestInfo | URL): Promise<Response> => {
+    sent.push(String(url));
+    return replies.shift() || new Response(null, { status: 200 });
+  };
+  return { send, sent };
+};
+
+test("a 408 reply is a retryable timeout", () => {
+  const error = errorFromStatus(408);
+  assert.ok(error instanceof RequestTimeoutError);
+  assert.equal(error.status, 408);
+  assert.ok(isRetryableError(error));
+});
+
+test("a 429 reply is a retryable error that keeps Retry-After", () => {
+  const inSeconds = errorFromStatus(429, undefined, "120");
+  assert.ok(inSeconds instanceof RateLimitedError);
+  assert.equal(inSeconds.status, 429);
+  assert.equal(inSeconds.retryAfterMs, 120000);
+  assert.ok(isRetryableError(inSeconds));
+
+  const date = new Date(Date.now() + 30000).toUTCString();
+  const asDate = errorFromStatus(429, undefined, date) as RateLimitedError;
+  assert.ok(asDate.retryAfterMs > 28000 && asDate.retryAfterMs <= 30000);
+
+  const without = errorFromStatus(429) as RateLimitedError;
+  assert.equal(without.retryAfterMs, null);
+});
+
+test("a request answered with 429 is sent again", async () => {
+  const { send, sent } = replying(
+    new Response(null, { status: 429, headers: { "Retry-After": "0" } }),
+  );
+  const response = await withResilience(send)("https://api.test/rate");
+  assert.equal(response.status, 200);
+  assert.equal(sent.length, 2);
+});
+
+test("a request isn't sent again when Retry-After is too far off", async () => {
+  const seconds = RESILIENCE_CONFIG.backoff.maxDelayMs / 1000 + 60;
+  const { send, sent } = replying(
+    new Response(null, {
+      status: 429,
+      headers: { "Retry-After": String(seconds) },
+    }),
+  );
+  const response = await withResilience(send)("https://api.test/slow");
+  assert.equal(response.status, 429);
+  assert.equal(sent.length, 1);
+});
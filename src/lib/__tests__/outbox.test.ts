@@ -0,0 +1,126 @@
+import "./setup";
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { initDatabase, exec, Leitura } from "../database";
+import {
+  MAX_OUTBOX_ATTEMPTS,
+  OutboxItem,
+  enqueueOutboxItem,
+  getDueOutboxItems,
+  getPoisonedOutboxItems,
+  failOutboxItem,
+  completeOutboxItem,
+  requeuePoisonedOutboxItems,
+} from "../outbox";
+import { createMemoryBackend } from "../memoryBackend";
+import type { ReadingPayload } from "../syncBackend";
+
+// A reading as saveReading enqueues it
+const reading = (id: string): Leitura => ({
+  id,
+  residencia_id: "residencia-1",
+  cliente_id: "cliente-1",
+  leiturista_id: "leiturista-1",
+  leitura_valor: "1234",
+  foto_path: null,
+  status: "concluido",
+  data_leitura: "2026-10-01",
+  hora_leitura: "10:00:00",
+  sincronizado: 0,
+  medidor_id: "MTR-residencia-1",
+  roteiro_id: "roteiro-1",
+  observacoes: null,
+  latitude: null,
+  longitude: null,
+  erro_sincronizacao: null,
+  criado_em: "2026-10-01T10:00:00.000Z",
+  versao: 1,
+  versao_servidor: null,
+  usuario_id: "user-1",
+  autenticacao_offline: 0,
+});
+
+// The fields of a reading the upload sends
+const toPayload = (leitura: Leitura): ReadingPayload => ({
+  id: leitura.id,
+  residencia_id: leitura.residencia_id,
+  cliente_id: leitura.cliente_id,
+  leiturista_id: leitura.leiturista_id,
+  leitura_valor: leitura.leitura_valor,
+  foto_path: leitura.foto_path,
+  status: leitura.status,
+  data_leitura: leitura.data_leitura,
+  hora_leitura: leitura.hora_leitura,
+  sincronizado: true,
+  versao: leitura.versao,
+});
+
+// Fail an item until it is poisoned
+const failUntilPoisoned = async (
+  item: OutboxItem,
+  errorMessage: string,
+  permanent: boolean = false,
+): Promise<void> => {
+  for (let attempts = item.attempts; ; attempts++) {
+    const status = await failOutboxItem(
+      { ...item, attempts },
+      errorMessage,
+      permanent,
+    );
+    if (status === "poisoned") return;
+  }
+};
+
+before(async () => {
+  await initDatabase();
+});
+
+test("an item that ran out of attempts is requeued and uploaded", async () => {
+  await exec("DELETE FROM sync_outbox");
+  await enqueueOutboxItem("leitura", "leitura-1", reading("leitura-1"));
+  const [item] = await getDueOutboxItems("leitura");
+
+  await failUntilPoisoned(item, "Network request failed");
+  const [poisoned] = await getPoisonedOutboxItems();
+  assert.equal(poisoned.id, item.id);
+  assert.equal(poisoned.attempts, MAX_OUTBOX_ATTEMPTS);
+  assert.deepEqual(await getDueOutboxItems("leitura"), []);
+
+  assert.equal(await requeuePoisonedOutboxItems({ exhaustedOnly: true }), 1);
+  assert.deepEqual(await getPoisonedOutboxItems(), []);
+
+  const due = await getDueOutboxItems<Leitura>("leitura");
+  assert.equal(due.length, 1);
+  assert.equal(due[0].attempts, 0);
+
+  const backend = createMemoryBackend();
+  const { data: acks, error } = await backend.upsertReadings(
+    due.map((dueItem) => toPayload(dueItem.payload)),
+  );
+  assert.equal(error, null);
+  for (const ack of acks || []) {
+    await completeOutboxItem(`leitura:${ack.id}`);
+  }
+
+  assert.deepEqual(
+    backend.data.leituras.map((row) => row.id),
+    ["leitura-1"],
+  );
+  assert.deepEqual(await getDueOutboxItems("leitura"), []);
+  assert.deepEqual(await getPoisonedOutboxItems(), []);
+});
+
+test("a rejected item is only requeued on request", async () => {
+  await exec("DELETE FROM sync_outbox");
+  await enqueueOutboxItem("leitura", "leitura-2", reading("leitura-2"));
+  const [item] = await getDueOutboxItems("leitura");
+
+  await failUntilPoisoned(item, "Leitura inválida", true);
+  assert.equal((await getPoisonedOutboxItems()).length, 1);
+
+  assert.equal(await requeuePoisonedOutboxItems({ exhaustedOnly: true }), 0);
+  assert.equal((await getPoisonedOutboxItems()).length, 1);
+
+  assert.equal(await requeuePoisonedOutboxItems(), 1);
+  assert.equal((await getDueOutboxItems("leitura")).length, 1);
+});
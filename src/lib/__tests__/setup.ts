@@ -0,0 +1,30 @@
+import Module from "module";
+import path from "path";
+
+// Native modules are swapped for the stand-ins in ./mocks, so the modules
+// of src/lib can be tested in Node. Import this file before anything else.
+
+const mock = (name: string) => path.join(__dirname, "mocks", `${name}.ts`);
+
+const MOCKS: Record<string, string> = {
+  "expo-sqlite": mock("expo-sqlite"),
+  "expo-file-system": mock("expo-file-system"),
+  "react-native": mock("react-native"),
+  "react-native-url-polyfill/auto": mock("empty"),
+  "@react-native-async-storage/async-storage": mock("async-storage"),
+  "@react-native-community/netinfo": mock("netinfo"),
+};
+
+const resolveFilename = (Module as any)._resolveFilename;
+(Module as any)._resolveFilename = function (request: string, ...rest: any[]) {
+  return resolveFilename.call(this, MOCKS[request] || request, ...rest);
+};
+
+// The Supabase client reads its settings on import. Tests that need a
+// server start server/fakeSupabase on this port; nothing listens on it
+// otherwise.
+export const TEST_SUPABASE_PORT = 54329;
+process.env.EXPO_PUBLIC_SUPABASE_URL ??=
+  `http://127.0.0.1:${TEST_SUPABASE_PORT}`;
+process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ??= "anon";
+process.env.EXPO_PUBLIC_APP_ENV ??= "development";
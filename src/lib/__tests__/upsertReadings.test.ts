@@ -0,0 +1,79 @@
+import { TEST_SUPABASE_PORT } from "./setup";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  FakeSupabase,
+  createFakeSupabase,
+} from "../../../server/fakeSupabase/server";
+import { createMemoryBackend } from "../memoryBackend";
+import type { ReadingAck, ReadingPayload } from "../syncBackend";
+
+// A version 1 upload whose response was lost is retried after the reading
+// was edited and version 2 uploaded; the server must keep version 2 and
+// answer the retry with it
+
+const server: FakeSupabase = createFakeSupabase({
+  port: TEST_SUPABASE_PORT,
+  host: "127.0.0.1",
+});
+
+const reading = (versao: number, leitura_valor: string): ReadingPayload => ({
+  id: "leitura-1",
+  residencia_id: "e0000001-0000-4000-8000-000000000001",
+  cliente_id: "c0000001-0000-4000-8000-000000000001",
+  leiturista_id: "11111111-1111-4111-8111-111111111111",
+  leitura_valor,
+  foto_path: null,
+  status: "lido",
+  data_leitura: "2025-03-03",
+  hora_leitura: "09:00",
+  sincronizado: true,
+  versao,
+});
+
+// Call upsert_leituras as supabaseBackend does
+const callUpsertLeituras = async (
+  leituras: ReadingPayload[],
+): Promise<ReadingAck[]> => {
+  const response = await fetch(
+    `http://127.0.0.1:${TEST_SUPABASE_PORT}/rest/v1/rpc/upsert_leituras`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ leituras }),
+    },
+  );
+  assert.equal(response.status, 200);
+  return response.json();
+};
+
+before(async () => {
+  await server.listen();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("upsert_leituras keeps the newer version of a reading", async () => {
+  assert.deepEqual(await callUpsertLeituras([reading(2, "150")]), [
+    { id: "leitura-1", versao: 2 },
+  ]);
+  assert.deepEqual(await callUpsertLeituras([reading(1, "140")]), [
+    { id: "leitura-1", versao: 2 },
+  ]);
+
+  const [stored] = server.store.tables.get("leituras")!;
+  assert.equal(stored.versao, 2);
+  assert.equal(stored.leitura_valor, "150");
+});
+
+test("the memory backend keeps the newer version of a reading", async () => {
+  const backend = createMemoryBackend();
+  await backend.upsertReadings([reading(2, "150")]);
+  const { data, error } = await backend.upsertReadings([reading(1, "140")]);
+
+  assert.equal(error, null);
+  assert.deepEqual(data, [{ id: "leitura-1", versao: 2 }]);
+  assert.equal(backend.data.leituras[0].leitura_valor, "150");
+});
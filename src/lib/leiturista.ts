@@ -0,0 +1,75 @@
+import { AuthUser, findLeituristaRow } from "./syncBackend";
+import {
+  Leiturista,
+  saveLeiturista,
+  getLeituristaByUserId,
+  exec,
+} from "./database";
+import { getAuthSession, saveLastLeituristaId } from "./storage";
+import { logInfo, logWarn, logError } from "./logger";
+
+// Identity of the reader. Users sign in with Supabase Auth, while routes and
+// readings belong to a row of `leituristas`. That row is linked to the auth
+// user by its user_id, or found by the user's email until it is linked. It
+// is resolved on every online login and cached in the local leituristas
+// table, so screens and syncs can scope routes and readings to it offline.
+
+// Get the cached leiturista of an auth user
+export const getCachedLeiturista = async (
+  userId: string,
+): Promise<Leiturista | null> => {
+  try {
+    return await getLeituristaByUserId(userId);
+  } catch (error) {
+    logError("Error reading the cached leiturista", error);
+    return null;
+  }
+};
+
+// Get the leiturista of the user signed in on the device, online or offline
+export const getCurrentLeiturista = async (): Promise<Leiturista | null> => {
+  const session = await getAuthSession();
+  return session ? getCachedLeiturista(session.userId) : null;
+};
+
+// Resolve the leiturista of an auth user from the server and cache it. When
+// the server can't be asked the cached row is used. Resolves to null when
+// the user isn't a leiturista.
+export const resolveLeiturista = async (
+  user: AuthUser,
+  signal?: AbortSignal,
+): Promise<Leiturista | null> => {
+  const { data: row, error } = await findLeituristaRow(user, signal);
+  if (error) {
+    logWarn("Could not fetch the leiturista, using the cached one", error);
+    return getCachedLeiturista(user.id);
+  }
+
+  if (!row) {
+    logWarn("The signed-in user is not a leiturista", { userId: user.id });
+    // The server no longer links the user to a reader
+    await exec("UPDATE leituristas SET user_id = NULL WHERE user_id = ?", [
+      user.id,
+    ]).catch((unlinkError) =>
+      logError("Error unlinking the cached leiturista", unlinkError),
+    );
+    return null;
+  }
+
+  const leiturista: Leiturista = {
+    id: row.id,
+    nome: row.nome,
+    cidade: row.cidade,
+    email: row.email,
+    user_id: user.id,
+  };
+  try {
+    await saveLeiturista(leiturista);
+    // Syncs started without a screen download this reader's routes
+    await saveLastLeituristaId(leiturista.id);
+  } catch (cacheError) {
+    logError("Error caching the leiturista", cacheError);
+  }
+  logInfo(`Signed in as leiturista ${leiturista.id}`, { userId: user.id });
+  return leiturista;
+};
@@ -0,0 +1,504 @@
+import type { SQLTransaction, WebSQLDatabase } from "expo-sqlite";
+
+// Versioned schema migrations for the local SQLite database.
+// The current schema version is stored in `PRAGMA user_version`; every
+// migration with a higher version is applied in order, each one inside its
+// own transaction together with the version bump. If a step fails its
+// transaction is rolled back, so the database stays at the last version that
+// applied cleanly and the existing data remains readable.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (tx: SQLTransaction) => void;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  targetVersion: number;
+  // Set when a migration failed and was rolled back
+  error?: Error;
+}
+
+// Ordered list of migrations. Never edit a migration that has shipped:
+// append a new one with the next version number instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline schema",
+    up: (tx) => {
+      // Leituristas table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS leituristas (
+          id TEXT PRIMARY KEY,
+          nome TEXT NOT NULL,
+          cidade TEXT NOT NULL
+        );`,
+      );
+
+      // Bairros table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS bairros (
+          id TEXT PRIMARY KEY,
+          nome TEXT NOT NULL,
+          cidade TEXT NOT NULL
+        );`,
+      );
+
+      // Ruas table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS ruas (
+          id TEXT PRIMARY KEY,
+          nome TEXT NOT NULL,
+          bairro_id TEXT NOT NULL,
+          FOREIGN KEY (bairro_id) REFERENCES bairros(id)
+        );`,
+      );
+
+      // Residências table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS residencias (
+          id TEXT PRIMARY KEY,
+          rua_id TEXT NOT NULL,
+          numero INTEGER NOT NULL,
+          FOREIGN KEY (rua_id) REFERENCES ruas(id)
+        );`,
+      );
+
+      // Clientes table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS clientes (
+          id TEXT PRIMARY KEY,
+          nome TEXT NOT NULL,
+          cpf TEXT,
+          telefone TEXT,
+          email TEXT,
+          residencia_id TEXT NOT NULL,
+          FOREIGN KEY (residencia_id) REFERENCES residencias(id)
+        );`,
+      );
+
+      // Roteiros table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS roteiros (
+          id TEXT PRIMARY KEY,
+          leiturista_id TEXT NOT NULL,
+          rua_id TEXT NOT NULL,
+          dia_semana TEXT NOT NULL,
+          FOREIGN KEY (leiturista_id) REFERENCES leituristas(id),
+          FOREIGN KEY (rua_id) REFERENCES ruas(id)
+        );`,
+      );
+
+      // Leituras table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS leituras (
+          id TEXT PRIMARY KEY,
+          residencia_id TEXT NOT NULL,
+          cliente_id TEXT NOT NULL,
+          leiturista_id TEXT NOT NULL,
+          leitura_valor TEXT,
+          foto_path TEXT,
+          status TEXT DEFAULT 'pendente',
+          data_leitura DATE,
+          hora_leitura TIME,
+          sincronizado INTEGER DEFAULT 0,
+          FOREIGN KEY (residencia_id) REFERENCES residencias(id),
+          FOREIGN KEY (cliente_id) REFERENCES clientes(id),
+          FOREIGN KEY (leiturista_id) REFERENCES leituristas(id)
+        );`,
+      );
+
+      // Contas table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS contas (
+          id TEXT PRIMARY KEY,
+          cliente_id TEXT NOT NULL,
+          leitura_id TEXT NOT NULL,
+          mes INTEGER NOT NULL,
+          ano INTEGER NOT NULL,
+          valor_calculado REAL NOT NULL,
+          data_emissao DATE NOT NULL,
+          data_vencimento DATE NOT NULL,
+          status TEXT DEFAULT 'aberta',
+          FOREIGN KEY (cliente_id) REFERENCES clientes(id),
+          FOREIGN KEY (leitura_id) REFERENCES leituras(id)
+        );`,
+      );
+
+      // For backward compatibility with the existing AsyncStorage implementation
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS meter_readings (
+          id TEXT PRIMARY KEY,
+          meterId TEXT NOT NULL,
+          addressId TEXT NOT NULL,
+          routeId TEXT NOT NULL,
+          value TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          imageUri TEXT,
+          syncStatus TEXT NOT NULL
+        );`,
+      );
+
+      // New readings table for the updated schema
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS readings (
+          id TEXT PRIMARY KEY,
+          meter_id TEXT NOT NULL,
+          reading_value TEXT NOT NULL,
+          client_name TEXT,
+          address TEXT,
+          notes TEXT,
+          image_path TEXT,
+          timestamp TEXT NOT NULL,
+          synced INTEGER DEFAULT 0,
+          remote_id TEXT,
+          latitude REAL,
+          longitude REAL
+        );`,
+      );
+
+      // Create indexes for readings table
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_readings_meter_id ON readings (meter_id);`,
+      );
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_readings_timestamp ON readings (timestamp);`,
+      );
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_readings_synced ON readings (synced);`,
+      );
+
+      // Daily routes table
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS daily_routes (
+          id TEXT PRIMARY KEY,
+          date TEXT NOT NULL,
+          total_stops INTEGER DEFAULT 0,
+          completed_stops INTEGER DEFAULT 0,
+          estimated_time_remaining TEXT DEFAULT 'N/A'
+        );`,
+      );
+
+      // Create index for daily_routes
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_daily_routes_date ON daily_routes (date);`,
+      );
+    },
+  },
+  {
+    version: 2,
+    name: "consolidate readings into leituras",
+    up: (tx) => {
+      // leituras becomes the single reading store; add the columns that
+      // until now only existed on meter_readings/readings
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN medidor_id TEXT;`);
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN roteiro_id TEXT;`);
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN observacoes TEXT;`);
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN latitude REAL;`);
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN longitude REAL;`);
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN erro_sincronizacao TEXT;`);
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN criado_em TEXT;`);
+
+      // The meter screen wrote every reading to both meter_readings and
+      // leituras with the same id: copy the extra fields onto the leituras row
+      tx.executeSql(
+        `UPDATE leituras SET
+          medidor_id = (SELECT m.meterId FROM meter_readings m WHERE m.id = leituras.id),
+          roteiro_id = (SELECT m.routeId FROM meter_readings m WHERE m.id = leituras.id),
+          foto_path = COALESCE(foto_path, (SELECT NULLIF(m.imageUri, '') FROM meter_readings m WHERE m.id = leituras.id)),
+          criado_em = (SELECT m.timestamp FROM meter_readings m WHERE m.id = leituras.id)
+         WHERE id IN (SELECT id FROM meter_readings);`,
+      );
+      tx.executeSql(
+        `UPDATE leituras SET criado_em = data_leitura || 'T' || hora_leitura
+         WHERE criado_em IS NULL AND data_leitura IS NOT NULL;`,
+      );
+
+      // Readings that only exist in meter_readings. Their "synced" status came
+      // from a simulated upload, so they are all queued for upload again.
+      tx.executeSql(
+        `INSERT OR IGNORE INTO leituras (
+          id, residencia_id, cliente_id, leiturista_id, leitura_valor, foto_path,
+          status, data_leitura, hora_leitura, sincronizado, medidor_id, roteiro_id,
+          erro_sincronizacao, criado_em
+        )
+        SELECT
+          m.id,
+          m.addressId,
+          COALESCE((SELECT c.id FROM clientes c WHERE c.residencia_id = m.addressId LIMIT 1), ''),
+          COALESCE((SELECT r.leiturista_id FROM roteiros r WHERE r.id = m.routeId), ''),
+          m.value,
+          NULLIF(m.imageUri, ''),
+          'concluido',
+          substr(m.timestamp, 1, 10),
+          substr(m.timestamp, 12, 8),
+          0,
+          m.meterId,
+          m.routeId,
+          CASE WHEN m.syncStatus = 'error' THEN 'Falha na sincronização anterior' END,
+          m.timestamp
+        FROM meter_readings m;`,
+      );
+
+      // Readings that only exist in the readings table. Their meter id is
+      // the residence id with an MTR- prefix; the reader is the one whose
+      // route covers the residence's street, else the last one stored on the
+      // device. Readings whose owners can't be found are kept with a message
+      // and wait until the upload sync can fill them in.
+      const legacyResidencia = `(SELECT res.id FROM residencias res
+        WHERE r.meter_id IN (res.id, 'MTR-' || res.id) LIMIT 1)`;
+      tx.executeSql(
+        `INSERT OR IGNORE INTO leituras (
+          id, residencia_id, cliente_id, leiturista_id, leitura_valor, foto_path,
+          status, data_leitura, hora_leitura, sincronizado, medidor_id,
+          observacoes, latitude, longitude, criado_em
+        )
+        SELECT
+          r.id,
+          COALESCE(${legacyResidencia}, ''),
+          COALESCE((SELECT c.id FROM clientes c WHERE c.residencia_id = ${legacyResidencia} LIMIT 1), ''),
+          COALESCE(
+            (SELECT ro.leiturista_id FROM roteiros ro
+              JOIN residencias res ON res.rua_id = ro.rua_id
+              WHERE res.id = ${legacyResidencia} LIMIT 1),
+            (SELECT l.id FROM leituristas l ORDER BY l.rowid DESC LIMIT 1),
+            ''
+          ),
+          r.reading_value,
+          r.image_path,
+          'concluido',
+          substr(r.timestamp, 1, 10),
+          substr(r.timestamp, 12, 8),
+          CASE WHEN r.synced = 1 THEN 1 ELSE 0 END,
+          r.meter_id,
+          r.notes,
+          r.latitude,
+          r.longitude,
+          r.timestamp
+        FROM readings r;`,
+      );
+      tx.executeSql(
+        `UPDATE leituras
+         SET erro_sincronizacao = 'Residência, cliente ou leiturista da leitura desconhecidos'
+         WHERE sincronizado = 0
+           AND (residencia_id = '' OR cliente_id = '' OR leiturista_id = '')
+           AND id IN (SELECT id FROM readings);`,
+      );
+
+      tx.executeSql(`DROP TABLE IF EXISTS meter_readings;`);
+      tx.executeSql(`DROP TABLE IF EXISTS readings;`);
+
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_leituras_sincronizado ON leituras (sincronizado);`,
+      );
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_leituras_residencia_id ON leituras (residencia_id);`,
+      );
+    },
+  },
+  {
+    version: 3,
+    name: "sync outbox",
+    up: (tx) => {
+      // Pending uploads with their retry state. Existing unsynced leituras
+      // are queued the first time the upload sync runs.
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS sync_outbox (
+          id TEXT PRIMARY KEY,
+          entity TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_retry_at TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending'
+        );`,
+      );
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_sync_outbox_due ON sync_outbox (entity, status, next_retry_at);`,
+      );
+    },
+  },
+  {
+    version: 4,
+    name: "leituras versions",
+    up: (tx) => {
+      // versao is bumped on every local change and sent with the upload;
+      // versao_servidor is the version the server acknowledged last
+      tx.executeSql(
+        `ALTER TABLE leituras ADD COLUMN versao INTEGER NOT NULL DEFAULT 1;`,
+      );
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN versao_servidor INTEGER;`);
+      tx.executeSql(
+        `UPDATE leituras SET versao_servidor = versao WHERE sincronizado = 1;`,
+      );
+    },
+  },
+  {
+    version: 5,
+    name: "sync cursors",
+    up: (tx) => {
+      // Per-table high-water mark of the server's updated_at column, used to
+      // download only the rows that changed since the last sync
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS sync_cursors (
+          table_name TEXT PRIMARY KEY,
+          cursor TEXT NOT NULL,
+          synced_at TEXT NOT NULL
+        );`,
+      );
+    },
+  },
+  {
+    version: 6,
+    name: "sync runs",
+    up: (tx) => {
+      // One row per sync run, kept so the outcome of past syncs can be
+      // reviewed on the device
+      tx.executeSql(
+        `CREATE TABLE IF NOT EXISTS sync_runs (
+          id TEXT PRIMARY KEY,
+          started_at TEXT NOT NULL,
+          finished_at TEXT,
+          trigger_type TEXT NOT NULL,
+          direction TEXT NOT NULL,
+          status TEXT NOT NULL,
+          synced_count INTEGER NOT NULL DEFAULT 0,
+          error_count INTEGER NOT NULL DEFAULT 0,
+          error_message TEXT,
+          duration_ms INTEGER
+        );`,
+      );
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs (started_at);`,
+      );
+    },
+  },
+  {
+    version: 7,
+    name: "offline login",
+    up: (tx) => {
+      // usuario_id is the auth user who took the reading; autenticacao_offline
+      // marks readings taken after an offline login, held back from upload
+      // until that user is validated online again
+      tx.executeSql(`ALTER TABLE leituras ADD COLUMN usuario_id TEXT;`);
+      tx.executeSql(
+        `ALTER TABLE leituras ADD COLUMN autenticacao_offline INTEGER NOT NULL DEFAULT 0;`,
+      );
+    },
+  },
+  {
+    version: 8,
+    name: "leiturista identity",
+    up: (tx) => {
+      // The leituristas row of the signed-in auth user is cached here, so
+      // routes and readings can be scoped to it offline
+      tx.executeSql(`ALTER TABLE leituristas ADD COLUMN email TEXT;`);
+      tx.executeSql(`ALTER TABLE leituristas ADD COLUMN user_id TEXT;`);
+      tx.executeSql(
+        `CREATE INDEX IF NOT EXISTS idx_leituristas_user_id ON leituristas (user_id);`,
+      );
+    },
+  },
+];
+
+// Read the schema version stored in the database header
+export const getSchemaVersion = (db: WebSQLDatabase): Promise<number> =>
+  new Promise((resolve, reject) =>
+    db.transaction((tx) =>
+      tx.executeSql(
+        "PRAGMA user_version",
+        [],
+        (_, result) => resolve(result.rows._array[0]?.user_version ?? 0),
+        (_, error) => {
+          reject(error);
+          return true;
+        },
+      ),
+    ),
+  );
+
+// Apply a single migration and bump user_version in the same transaction
+const applyMigration = (
+  db: WebSQLDatabase,
+  migration: Migration,
+): Promise<void> =>
+  new Promise((resolve, reject) =>
+    db.transaction(
+      (tx) => {
+        migration.up(tx);
+        // PRAGMA values cannot be bound as parameters
+        tx.executeSql(`PRAGMA user_version = ${Math.floor(migration.version)}`);
+      },
+      (error) => reject(error),
+      () => resolve(),
+    ),
+  );
+
+// Check that versions are positive and strictly increasing
+const validateMigrations = (migrations: Migration[]): void => {
+  migrations.forEach((migration, index) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(
+        `Invalid migration version ${migration.version} (${migration.name})`,
+      );
+    }
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) is out of order`,
+      );
+    }
+  });
+};
+
+// Run every pending migration in order. Resolves with the version the
+// database ended up at; a failed step is reported in `error` instead of
+// being thrown so callers can keep working with the previous schema.
+export const runMigrations = async (
+  db: WebSQLDatabase,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<MigrationResult> => {
+  validateMigrations(migrations);
+
+  const fromVersion = await getSchemaVersion(db);
+  const targetVersion =
+    migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+  if (fromVersion > targetVersion) {
+    // Database was written by a newer build; leave it untouched
+    console.warn(
+      `Database schema version ${fromVersion} is newer than this app (${targetVersion}), skipping migrations`,
+    );
+    return { fromVersion, toVersion: fromVersion, targetVersion };
+  }
+
+  let toVersion = fromVersion;
+  for (const migration of migrations) {
+    if (migration.version <= toVersion) continue;
+
+    try {
+      console.log(
+        `Applying database migration ${migration.version}: ${migration.name}`,
+      );
+      await applyMigration(db, migration);
+      toVersion = migration.version;
+    } catch (error) {
+      console.error(
+        `Database migration ${migration.version} (${migration.name}) failed, rolled back to version ${toVersion}:`,
+        error,
+      );
+      return {
+        fromVersion,
+        toVersion,
+        targetVersion,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
+  return { fromVersion, toVersion, targetVersion };
+};
@@ -0,0 +1,213 @@
+import { query, exec } from "./database";
+import { logInfo, logWarn } from "./logger";
+
+// Persistent outbox for operations that still have to reach the server.
+// Every pending upload is stored in sync_outbox together with its retry
+// state, so a failed item is retried with exponential backoff instead of on
+// every sync run, and an item that keeps failing is parked as "poisoned"
+// until someone requeues it.
+
+export type OutboxEntity = "leitura" | "foto";
+export type OutboxOperation = "upsert";
+export type OutboxStatus = "pending" | "poisoned";
+
+export interface OutboxItem<T = any> {
+  id: string;
+  entity: OutboxEntity;
+  entityId: string;
+  operation: OutboxOperation;
+  payload: T;
+  attempts: number;
+  lastError: string | null;
+  nextRetryAt: string;
+  createdAt: string;
+  status: OutboxStatus;
+}
+
+export interface OutboxStats {
+  pending: number;
+  due: number;
+  poisoned: number;
+}
+
+// Number of failed attempts after which an item is marked as poisoned
+export const MAX_OUTBOX_ATTEMPTS = 8;
+
+// Backoff settings for failed items
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30 seconds
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+// Delay before the next attempt of an item that has failed `attempts` times
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)),
+    MAX_RETRY_DELAY_MS,
+  );
+
+// Map a sync_outbox row to an OutboxItem
+const toOutboxItem = (row: any): OutboxItem => ({
+  id: row.id,
+  entity: row.entity,
+  entityId: row.entity_id,
+  operation: row.operation,
+  payload: JSON.parse(row.payload),
+  attempts: row.attempts,
+  lastError: row.last_error,
+  nextRetryAt: row.next_retry_at,
+  createdAt: row.created_at,
+  status: row.status,
+});
+
+// Queue an operation for upload. Enqueuing an entity that is already in the
+// outbox replaces its payload and resets its retry state, since the new
+// payload may not have the problem that made the previous one fail.
+export const enqueueOutboxItem = async (
+  entity: OutboxEntity,
+  entityId: string,
+  payload: any,
+  operation: OutboxOperation = "upsert",
+): Promise<void> => {
+  const id = `${entity}:${entityId}`;
+  const now = new Date().toISOString();
+  // Keep the original created_at so a re-queued item doesn't lose its place
+  await exec(
+    `INSERT OR REPLACE INTO sync_outbox (
+      id, entity, entity_id, operation, payload, attempts, last_error,
+      next_retry_at, created_at, status
+    ) VALUES (
+      ?, ?, ?, ?, ?, 0, NULL, ?,
+      COALESCE((SELECT created_at FROM sync_outbox WHERE id = ?), ?),
+      'pending'
+    )`,
+    [id, entity, entityId, operation, JSON.stringify(payload), now, id, now],
+  );
+};
+
+// Get the items of an entity whose next attempt is due, oldest first
+export const getDueOutboxItems = async <T = any>(
+  entity: OutboxEntity,
+  limit: number = 500,
+): Promise<OutboxItem<T>[]> => {
+  const rows = await query(
+    `SELECT * FROM sync_outbox
+     WHERE entity = ? AND status = 'pending' AND next_retry_at <= ?
+     ORDER BY created_at
+     LIMIT ?`,
+    [entity, new Date().toISOString(), limit],
+  );
+  return rows.map(toOutboxItem);
+};
+
+// Get all items that were given up on after too many failures
+export const getPoisonedOutboxItems = async (): Promise<OutboxItem[]> => {
+  const rows = await query(
+    `SELECT * FROM sync_outbox WHERE status = 'poisoned' ORDER BY created_at`,
+  );
+  return rows.map(toOutboxItem);
+};
+
+// Replace the payload of an item, keeping its retry state, e.g. to record how
+// far an upload got
+export const updateOutboxPayload = async (
+  id: string,
+  payload: any,
+): Promise<void> => {
+  await exec(`UPDATE sync_outbox SET payload = ? WHERE id = ?`, [
+    JSON.stringify(payload),
+    id,
+  ]);
+};
+
+// Remove an item once the server has acknowledged it
+export const completeOutboxItem = async (id: string): Promise<void> => {
+  await exec(`DELETE FROM sync_outbox WHERE id = ?`, [id]);
+};
+
+// Record a failed attempt and schedule the next one. A permanent failure
+// (the server rejected the data) is set aside at once, since retrying can't
+// help. Returns the new status of the item so callers can report poisoned
+// items.
+export const failOutboxItem = async (
+  item: OutboxItem,
+  errorMessage: string,
+  permanent: boolean = false,
+): Promise<OutboxStatus> => {
+  const attempts = item.attempts + 1;
+  const status: OutboxStatus =
+    permanent || attempts >= MAX_OUTBOX_ATTEMPTS ? "poisoned" : "pending";
+  const nextRetryAt = new Date(
+    Date.now() + getRetryDelay(attempts),
+  ).toISOString();
+
+  await exec(
+    `UPDATE sync_outbox
+     SET attempts = ?, last_error = ?, next_retry_at = ?, status = ?
+     WHERE id = ?`,
+    [attempts, errorMessage, nextRetryAt, status, item.id],
+  );
+
+  if (status === "poisoned") {
+    logWarn(
+      permanent
+        ? `Outbox item ${item.id} was rejected and set aside`
+        : `Outbox item ${item.id} failed ${attempts} times and was set aside`,
+      { lastError: errorMessage },
+    );
+  } else {
+    logInfo(`Outbox item ${item.id} will be retried at ${nextRetryAt}`, {
+      attempts,
+      lastError: errorMessage,
+    });
+  }
+
+  return status;
+};
+
+// Put a poisoned item back in the queue for an immediate retry
+export const requeueOutboxItem = async (id: string): Promise<void> => {
+  await exec(
+    `UPDATE sync_outbox
+     SET attempts = 0, next_retry_at = ?, status = 'pending'
+     WHERE id = ?`,
+    [new Date().toISOString(), id],
+  );
+};
+
+// Put poisoned items back in the queue for an immediate retry. With
+// `exhaustedOnly`, only the items that ran out of attempts are requeued,
+// since those failed on errors that may have cleared; items the server
+// rejected stay set aside. Returns the number of requeued items.
+export const requeuePoisonedOutboxItems = async (
+  options: { exhaustedOnly?: boolean } = {},
+): Promise<number> => {
+  const minAttempts = options.exhaustedOnly ? MAX_OUTBOX_ATTEMPTS : 0;
+  const rows = await query(
+    `SELECT COUNT(*) as count FROM sync_outbox
+     WHERE status = 'poisoned' AND attempts >= ?`,
+    [minAttempts],
+  );
+  const count = rows[0]?.count || 0;
+  if (count === 0) return 0;
+
+  await exec(
+    `UPDATE sync_outbox
+     SET attempts = 0, next_retry_at = ?, status = 'pending'
+     WHERE status = 'poisoned' AND attempts >= ?`,
+    [new Date().toISOString(), minAttempts],
+  );
+  logInfo(`${count} poisoned outbox items requeued`);
+  return count;
+};
+
+// Count outbox items by state
+export const getOutboxStats = async (): Promise<OutboxStats> => {
+  const rows = await query(
+    `SELECT
+       COALESCE(SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END), 0) as pending,
+       COALESCE(SUM(CASE WHEN status = 'pending' AND next_retry_at <= ? THEN 1 ELSE 0 END), 0) as due,
+       COALESCE(SUM(CASE WHEN status = 'poisoned' THEN 1 ELSE 0 END), 0) as poisoned
+     FROM sync_outbox`,
+    [new Date().toISOString()],
+  );
+  return rows[0];
+};
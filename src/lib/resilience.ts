@@ -0,0 +1,366 @@
+import { useEffect, useState } from "react";
+import {
+  CircuitOpenError,
+  OfflineError,
+  RateLimitedError,
+  errorFromStatus,
+  isRetryableError,
+} from "./networkErrors";
+import { logInfo, logWarn } from "./logger";
+
+// Shared resilience layer for backend calls. Every retry in the app goes
+// through here, so one failing request can't be retried at several levels
+// without limit:
+// - each endpoint has a circuit breaker: after repeated failures requests to
+//   it fail at once for a while instead of waiting on a server that is down
+// - each sync has a retry budget shared by all of its requests
+// - retries wait with exponential backoff plus random jitter, so devices
+//   coming back online don't all retry at the same moment
+
+export const RESILIENCE_CONFIG = {
+  // Time a single request may take before it fails with a timeout
+  requestTimeoutMs: 60 * 1000,
+  // Attempts the transport makes for one request, the first one included
+  requestAttempts: 4,
+  // Attempts the sync makes for one operation (each of them a request with
+  // its own transport attempts)
+  operationAttempts: 2,
+  // Retries all requests of one sync may make together
+  syncRetryBudget: 40,
+  backoff: {
+    baseDelayMs: 1000,
+    maxDelayMs: 30 * 1000,
+  },
+  circuitBreaker: {
+    // Consecutive failures that open the circuit
+    failureThreshold: 5,
+    // How long an open circuit fails requests before letting one through
+    // to test the endpoint
+    openDurationMs: 60 * 1000,
+  },
+};
+
+// Server replies worth sending the request again for
+const RETRY_STATUSES = [408, 429, 502, 503, 504];
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitStatus {
+  endpoint: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  // When the circuit last opened
+  openedAt: string | null;
+}
+
+export interface RetryBudgetStatus {
+  limit: number;
+  used: number;
+  // Whether a retry was refused because the budget ran out
+  exhausted: boolean;
+}
+
+export interface ResilienceStatus {
+  circuits: CircuitStatus[];
+  // Budget of the running sync, or of the last one
+  retryBudget: RetryBudgetStatus | null;
+  syncRunning: boolean;
+}
+
+export type ResilienceListener = (status: ResilienceStatus) => void;
+
+export type FetchFunction = (
+  url: RequestInfo | URL,
+  init?: RequestInit,
+) => Promise<Response>;
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  // Whether the test request of a half-open circuit is out
+  probing: boolean;
+}
+
+const circuits = new Map<string, Circuit>();
+let retryBudget: RetryBudgetStatus | null = null;
+let syncRunning = false;
+
+const listeners = new Set<ResilienceListener>();
+
+const notify = (): void => {
+  const status = getResilienceStatus();
+  listeners.forEach((listener) => {
+    try {
+      listener(status);
+    } catch (error) {
+      console.error("Error in resilience listener:", error);
+    }
+  });
+};
+
+// Get the circuits and the retry budget
+export const getResilienceStatus = (): ResilienceStatus => ({
+  circuits: Array.from(circuits.entries()).map(([endpoint, circuit]) => ({
+    endpoint,
+    state: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    openedAt: circuit.openedAt
+      ? new Date(circuit.openedAt).toISOString()
+      : null,
+  })),
+  retryBudget: retryBudget ? { ...retryBudget } : null,
+  syncRunning,
+});
+
+// Subscribe to changes of the circuits and the retry budget; returns the
+// unsubscribe function
+export const subscribeToResilience = (
+  listener: ResilienceListener,
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Hook for screens showing the circuits and the retry budget
+export const useResilienceStatus = (): ResilienceStatus => {
+  const [status, setStatus] = useState<ResilienceStatus>(getResilienceStatus);
+
+  useEffect(() => subscribeToResilience(setStatus), []);
+
+  return status;
+};
+
+// Delay before retry number `attempt`: exponential backoff with jitter, a
+// random wait between half and all of the backoff
+export const getBackoffDelay = (attempt: number): number => {
+  const { baseDelayMs, maxDelayMs } = RESILIENCE_CONFIG.backoff;
+  const backoff = Math.min(
+    baseDelayMs * Math.pow(2, Math.max(attempt - 1, 0)),
+    maxDelayMs,
+  );
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+};
+
+// Delay before retry number `attempt` after `error`: the backoff, or the
+// wait the server asked for with Retry-After when that is longer. Null when
+// the server asked to wait longer than a retry may wait.
+export const getRetryWait = (
+  attempt: number,
+  error: unknown,
+): number | null => {
+  const retryAfterMs =
+    error instanceof RateLimitedError ? error.retryAfterMs : null;
+  const { maxDelayMs } = RESILIENCE_CONFIG.backoff;
+  if (retryAfterMs !== null && retryAfterMs > maxDelayMs) return null;
+  return Math.max(getBackoffDelay(attempt), retryAfterMs ?? 0);
+};
+
+// Start the retry budget of a sync
+export const startRetryBudget = (): void => {
+  retryBudget = {
+    limit: RESILIENCE_CONFIG.syncRetryBudget,
+    used: 0,
+    exhausted: false,
+  };
+  syncRunning = true;
+  notify();
+};
+
+// End the retry budget of a sync; it stays visible in diagnostics until the
+// next sync starts
+export const finishRetryBudget = (): RetryBudgetStatus | null => {
+  syncRunning = false;
+  notify();
+  return retryBudget ? { ...retryBudget } : null;
+};
+
+// Take a retry from the budget of the running sync; false when it ran out.
+// Requests made outside a sync are only limited by their attempts.
+export const consumeRetry = (operationName: string): boolean => {
+  if (!syncRunning || !retryBudget) return true;
+  if (retryBudget.used >= retryBudget.limit) {
+    if (!retryBudget.exhausted) {
+      retryBudget.exhausted = true;
+      logWarn("Retry budget of the sync exhausted, not retrying further", {
+        operationName,
+        limit: retryBudget.limit,
+      });
+      notify();
+    }
+    return false;
+  }
+  retryBudget.used++;
+  notify();
+  return true;
+};
+
+// Circuits are kept per endpoint: the host and the first three path
+// segments, e.g. example.supabase.co/rest/v1/leituras
+const getEndpoint = (url: RequestInfo | URL): string => {
+  const href =
+    typeof url === "string" ? url : "href" in url ? url.href : url.url;
+  const [, host = "", path = ""] =
+    href.match(/^(?:[a-z][\w+.-]*:\/\/([^/?#]*))?([^?#]*)/i) || [];
+  const segments = path.split("/").filter(Boolean).slice(0, 3);
+  return `${host}/${segments.join("/")}`;
+};
+
+const getCircuit = (endpoint: string): Circuit => {
+  let circuit = circuits.get(endpoint);
+  if (!circuit) {
+    circuit = {
+      state: "closed",
+      consecutiveFailures: 0,
+      openedAt: null,
+      probing: false,
+    };
+    circuits.set(endpoint, circuit);
+  }
+  return circuit;
+};
+
+// Let a request to the endpoint through, or fail it while the circuit is
+// open. Once the open time has passed one request goes through as a test.
+const enterCircuit = (endpoint: string): void => {
+  const circuit = getCircuit(endpoint);
+  if (circuit.state === "closed") return;
+
+  const { openDurationMs } = RESILIENCE_CONFIG.circuitBreaker;
+  if (
+    circuit.state === "open" &&
+    Date.now() - (circuit.openedAt || 0) >= openDurationMs
+  ) {
+    logInfo(`Circuit for ${endpoint} half-open, sending a test request`);
+    circuit.state = "half-open";
+    circuit.probing = false;
+    notify();
+  }
+  if (circuit.state === "half-open" && !circuit.probing) {
+    circuit.probing = true;
+    return;
+  }
+  throw new CircuitOpenError();
+};
+
+const recordSuccess = (endpoint: string): void => {
+  const circuit = getCircuit(endpoint);
+  if (circuit.state === "closed" && circuit.consecutiveFailures === 0) return;
+  if (circuit.state !== "closed") {
+    logInfo(`Circuit for ${endpoint} closed`);
+  }
+  circuit.state = "closed";
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.probing = false;
+  notify();
+};
+
+const recordFailure = (endpoint: string): void => {
+  const circuit = getCircuit(endpoint);
+  const { failureThreshold } = RESILIENCE_CONFIG.circuitBreaker;
+  circuit.consecutiveFailures++;
+  circuit.probing = false;
+  if (
+    circuit.state === "half-open" ||
+    (circuit.state === "closed" &&
+      circuit.consecutiveFailures >= failureThreshold)
+  ) {
+    logWarn(`Circuit for ${endpoint} opened`, {
+      consecutiveFailures: circuit.consecutiveFailures,
+    });
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+  }
+  notify();
+};
+
+// Close every circuit, e.g. when the connection comes back
+export const resetCircuits = (): void => {
+  circuits.clear();
+  notify();
+};
+
+// Wait before a retry; a cancelled request stops waiting at once
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(id);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const id = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+
+// Wrap a function sending one request into a fetch with the circuit
+// breaker, retries within the budget and jittered backoff. `send` must fail
+// with typed network errors; server replies are returned as they are, after
+// retrying the ones that say the server is temporarily unavailable.
+export const withResilience =
+  (send: FetchFunction): FetchFunction =>
+  async (url, init) => {
+    const endpoint = getEndpoint(url);
+    const { requestAttempts } = RESILIENCE_CONFIG;
+
+    for (let attempt = 1; ; attempt++) {
+      enterCircuit(endpoint);
+
+      let response: Response | null = null;
+      let error: unknown;
+      try {
+        response = await send(url, init);
+        // A server asking to slow down (429) or to send the request again
+        // (408) is up
+        if (response.status < 500) {
+          recordSuccess(endpoint);
+        } else {
+          recordFailure(endpoint);
+        }
+        if (!RETRY_STATUSES.includes(response.status)) return response;
+        error = errorFromStatus(
+          response.status,
+          undefined,
+          response.headers.get("retry-after"),
+        );
+      } catch (thrown) {
+        const aborted = init?.signal?.aborted;
+        // A cancelled request or a device that is offline says nothing
+        // about the endpoint
+        if (aborted || thrown instanceof OfflineError) {
+          getCircuit(endpoint).probing = false;
+        } else {
+          recordFailure(endpoint);
+        }
+        if (aborted) throw thrown;
+        error = thrown;
+      }
+
+      const operationName = `${init?.method || "GET"} ${endpoint}`;
+      const backoffDelay = getRetryWait(attempt, error);
+      // No retry once the failure opened the circuit
+      if (
+        attempt >= requestAttempts ||
+        !isRetryableError(error) ||
+        backoffDelay === null ||
+        getCircuit(endpoint).state === "open" ||
+        !consumeRetry(operationName)
+      ) {
+        if (response) return response;
+        throw error;
+      }
+
+      logWarn(
+        `${operationName} failed (attempt ${attempt}/${requestAttempts}), ` +
+          `retrying in ${backoffDelay}ms`,
+        { error: (error as Error)?.message },
+      );
+      await wait(backoffDelay, init?.signal);
+      if (init?.signal?.aborted) {
+        if (response) return response;
+        throw error;
+      }
+    }
+  };
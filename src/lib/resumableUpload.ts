@@ -0,0 +1,281 @@
+import * as FileSystem from "expo-file-system";
+import type { FetchFunction } from "./resilience";
+import {
+  NetworkError,
+  errorFromFailedRequest,
+  errorFromStatus,
+} from "./networkErrors";
+
+// Resumable uploads with the tus protocol (https://tus.io), which Supabase
+// Storage serves at /storage/v1/upload/resumable. The server keeps every
+// chunk it stored, so an upload cut off by a lost connection or by the app
+// being closed continues from the last stored byte on the next attempt, as
+// long as the caller saved the state of the upload. Chunks are sent from
+// disk by the native uploader, which on iOS goes on while the app is in the
+// background.
+
+// Where an upload stands, saved between attempts
+export interface ResumableUploadState {
+  // URL of the upload on the server
+  uploadUrl: string;
+  // Bytes the server has stored
+  offset: number;
+}
+
+export interface ResumableUploadOptions {
+  // URL that creates uploads
+  endpoint: string;
+  fileUri: string;
+  // Sent with every request, e.g. Authorization
+  headers: Record<string, string>;
+  // Upload-Metadata of the upload, such as the object name
+  metadata: Record<string, string>;
+  // Transport for the requests that carry no file data
+  fetch: FetchFunction;
+  // State saved by a previous attempt of the same upload
+  resumeFrom?: ResumableUploadState | null;
+  // Called once the upload is created or found, and after every chunk the
+  // server stored
+  onStateChange?: (state: ResumableUploadState) => Promise<void>;
+  signal?: AbortSignal;
+  // Bytes sent so far by this call
+  onProgress?: (bytesSent: number) => void;
+}
+
+const TUS_VERSION = "1.0.0";
+
+// Supabase takes chunks of exactly 6 MB, except for the last one
+export const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// Base64 of the UTF-8 bytes of a string, as Upload-Metadata values are sent
+const toBase64 = (value: string): string => {
+  const bytes = encodeURIComponent(value).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16)),
+  );
+  let encoded = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const triple =
+      (bytes.charCodeAt(i) << 16) |
+      ((bytes.charCodeAt(i + 1) || 0) << 8) |
+      (bytes.charCodeAt(i + 2) || 0);
+    encoded +=
+      BASE64_ALPHABET[(triple >> 18) & 63] +
+      BASE64_ALPHABET[(triple >> 12) & 63] +
+      (i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 63] : "=") +
+      (i + 2 < bytes.length ? BASE64_ALPHABET[triple & 63] : "=");
+  }
+  return encoded;
+};
+
+const encodeMetadata = (metadata: Record<string, string>): string =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${toBase64(value)}`)
+    .join(",");
+
+// A header of a native upload result; some platforms keep the case the
+// server sent
+const getHeader = (
+  headers: Record<string, string>,
+  name: string,
+): string | null => {
+  const key = Object.keys(headers).find(
+    (header) => header.toLowerCase() === name.toLowerCase(),
+  );
+  return key ? headers[key] : null;
+};
+
+// The Location of a created upload may be relative to the server
+const resolveLocation = (location: string, endpoint: string): string =>
+  /^https?:\/\//.test(location)
+    ? location
+    : `${endpoint.match(/^https?:\/\/[^/]+/)?.[0] || ""}${location}`;
+
+const tusHeaders = (
+  options: ResumableUploadOptions,
+  extra: Record<string, string> = {},
+): Record<string, string> => ({
+  ...options.headers,
+  "Tus-Resumable": TUS_VERSION,
+  ...extra,
+});
+
+// Create an upload of `size` bytes
+const createUpload = async (
+  options: ResumableUploadOptions,
+  size: number,
+): Promise<ResumableUploadState> => {
+  const response = await options.fetch(options.endpoint, {
+    method: "POST",
+    headers: tusHeaders(options, {
+      "Upload-Length": String(size),
+      "Upload-Metadata": encodeMetadata(options.metadata),
+    }),
+    signal: options.signal,
+  });
+  if (response.status >= 400) {
+    const body = await response.text().catch(() => "");
+    throw errorFromStatus(
+      response.status,
+      `Upload creation failed with status ${response.status}: ${body}`,
+    );
+  }
+  const location = response.headers.get("location");
+  if (!location) {
+    throw new Error("The server created the upload without a Location");
+  }
+  return { uploadUrl: resolveLocation(location, options.endpoint), offset: 0 };
+};
+
+// Ask the server how many bytes of an upload it has stored. Resolves to
+// null when the upload is gone, e.g. expired, so it has to start over.
+const getUploadOffset = async (
+  options: ResumableUploadOptions,
+  uploadUrl: string,
+): Promise<number | null> => {
+  const response = await options.fetch(uploadUrl, {
+    method: "HEAD",
+    headers: tusHeaders(options),
+    signal: options.signal,
+  });
+  if ([403, 404, 410].includes(response.status)) return null;
+  const error = errorFromStatus(
+    response.status,
+    `Upload check failed with status ${response.status}`,
+  );
+  if (error) throw error;
+  const offset = response.headers.get("upload-offset");
+  return offset === null ? null : Number(offset);
+};
+
+// Send the next chunk of the file; resolves to the new offset
+const sendChunk = async (
+  options: ResumableUploadOptions,
+  state: ResumableUploadState,
+  size: number,
+  sentBefore: number,
+): Promise<number> => {
+  const { fileUri, signal } = options;
+  const length = Math.min(RESUMABLE_CHUNK_SIZE, size - state.offset);
+
+  // The native uploader sends whole files, so a part of the file is copied
+  // to a file of its own first
+  let chunkUri = fileUri;
+  if (length < size) {
+    chunkUri = `${FileSystem.cacheDirectory}upload-chunk-${Date.now()}`;
+    const chunk = await FileSystem.readAsStringAsync(fileUri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: state.offset,
+      length,
+    });
+    await FileSystem.writeAsStringAsync(chunkUri, chunk, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+
+  const task = FileSystem.createUploadTask(
+    state.uploadUrl,
+    chunkUri,
+    {
+      httpMethod: "PATCH",
+      uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+      sessionType: FileSystem.FileSystemSessionType.BACKGROUND,
+      headers: tusHeaders(options, {
+        "Upload-Offset": String(state.offset),
+        "Content-Type": "application/offset+octet-stream",
+      }),
+    },
+    (data) => options.onProgress?.(sentBefore + data.totalBytesSent),
+  );
+
+  const cancel = () => {
+    task.cancelAsync().catch(() => {});
+  };
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  try {
+    let result;
+    try {
+      result = await task.uploadAsync();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw await errorFromFailedRequest(error, false);
+    }
+    if (signal?.aborted) {
+      throw new Error("Operation aborted");
+    }
+    if (!result) {
+      throw new Error("Upload cancelled");
+    }
+    const error = errorFromStatus(
+      result.status,
+      `Chunk upload failed with status ${result.status}: ${result.body}`,
+    );
+    if (error) throw error;
+    const offset = Number(getHeader(result.headers, "Upload-Offset"));
+    return offset > state.offset ? offset : state.offset + length;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    if (chunkUri !== fileUri) {
+      await FileSystem.deleteAsync(chunkUri, { idempotent: true }).catch(
+        () => {},
+      );
+    }
+  }
+};
+
+// Upload a file, continuing the upload of `resumeFrom` when the server
+// still has it
+export const uploadResumable = async (
+  options: ResumableUploadOptions,
+): Promise<void> => {
+  const { signal } = options;
+  const info = await FileSystem.getInfoAsync(options.fileUri);
+  if (!info.exists) {
+    throw new Error("Arquivo não encontrado no dispositivo");
+  }
+  const size = (info as { size: number }).size;
+
+  let state: ResumableUploadState | null = null;
+  if (options.resumeFrom) {
+    const { uploadUrl } = options.resumeFrom;
+    const offset = await getUploadOffset(options, uploadUrl);
+    if (offset !== null) {
+      state = { uploadUrl, offset };
+    }
+  }
+  state = state || (await createUpload(options, size));
+  await options.onStateChange?.(state);
+
+  const startOffset = state.offset;
+  let resynced = false;
+  while (state.offset < size) {
+    if (signal?.aborted) {
+      throw new Error("Operation aborted");
+    }
+    try {
+      const offset = await sendChunk(
+        options,
+        state,
+        size,
+        state.offset - startOffset,
+      );
+      state = { ...state, offset };
+      resynced = false;
+    } catch (error) {
+      // The server stored more or less than we thought, e.g. when the reply
+      // to a chunk was lost; continue from what it has
+      if (error instanceof NetworkError && error.status === 409 && !resynced) {
+        const offset = await getUploadOffset(options, state.uploadUrl);
+        if (offset === null) throw error;
+        state = { ...state, offset };
+        resynced = true;
+        continue;
+      }
+      throw error;
+    }
+    await options.onStateChange?.(state);
+  }
+};
@@ -1,12 +1,22 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import {
-  createMeterReading,
-  getAllMeterReadings,
-  getMeterReadingsBySyncStatus,
-  updateMeterReadingSyncStatus,
-  deleteMeterReadingsBySyncStatus,
+  Leitura,
+  upsertLeitura,
+  getLeituraById,
+  getAllLeituras,
+  getLeiturasBySyncStatus,
+  updateLeituraSyncStatus,
+  confirmLeituraSync,
+  replaceLeituraFotoPath,
+  getLeituraCounts,
+  query,
+  exec,
+  execBatch,
   initDatabase,
+  LEITURA_OWNERS_UNKNOWN,
 } from "./database";
+import { enqueueOutboxItem } from "./outbox";
+import type { ResumableUploadState } from "./resumableUpload";
 
 // Keys for AsyncStorage (keeping for backward compatibility)
 export const STORAGE_KEYS = {
@@ -14,10 +24,119 @@ export const STORAGE_KEYS = {
   LAST_SYNC_TIME: "lastSyncTime",
   USER_DATA: "userData",
   ROUTES_DATA: "routesData",
+  PHOTO_UPLOAD_WIFI_ONLY: "photoUploadWifiOnly",
+  SYNC_POLICY: "syncPolicy",
+  LAST_LEITURISTA_ID: "lastLeituristaId",
+  UPLOAD_CONFIRMATION: "uploadConfirmation",
+  AUTH_SESSION: "authSession",
+  OFFLINE_CREDENTIAL: "offlineCredential",
+  OFFLINE_LOGIN_DECLINED: "offlineLoginDeclined",
 };
 
 // Types
-export interface MeterReading {
+export type ReadingSyncStatus = "pending" | "synced" | "error";
+
+// Data needed to record a new reading; everything else is filled in by saveReading
+export interface NewReading {
+  id?: string;
+  residenciaId: string;
+  clienteId?: string;
+  leituristaId: string;
+  roteiroId?: string;
+  medidorId?: string;
+  value: string;
+  photoPath?: string;
+  status?: "concluido" | "problema" | "pendente";
+  notes?: string;
+  latitude?: number;
+  longitude?: number;
+  timestamp?: string;
+}
+
+export interface ReadingStats {
+  total: number;
+  synced: number;
+  pending: number;
+  failed: number;
+}
+
+// Download high-water mark per server table
+export interface SyncCursor {
+  cursor: string;
+  syncedAt: string;
+}
+
+export type SyncCursors = Record<string, SyncCursor>;
+
+// A photo waiting in the outbox to be uploaded to the blob store
+export interface PhotoUpload {
+  leituraId: string;
+  localPath: string;
+  remoteKey: string;
+  contentType: string;
+  // Upload started by a previous attempt, continued by the next one
+  resumable?: ResumableUploadState | null;
+}
+
+// Time of day range, as "HH:MM" in local time. A window whose end is before
+// its start runs past midnight.
+export interface SyncWindow {
+  start: string;
+  end: string;
+}
+
+// When the app syncs, configured per leiturista or per cidade
+export interface SyncPolicy {
+  // Where the policy came from, e.g. "default", "leiturista:12", "cidade:X"
+  source: string;
+  downloadWindow: SyncWindow | null;
+  uploadWindow: SyncWindow | null;
+  // Minimum time between two automatic syncs
+  minIntervalMinutes: number;
+  // Upload pending readings as soon as the connection comes back
+  syncOnReconnect: boolean;
+  updatedAt: string;
+}
+
+// Outcome of the last check of uploaded readings against the server
+export interface UploadConfirmation {
+  checkedAt: string;
+  // Date range of the readings that were checked (data_leitura)
+  from: string;
+  to: string;
+  // Readings marked as synced locally, and how many of them the server has
+  expectedCount: number;
+  confirmedCount: number;
+  // Readings the server did not have (or had an older version of), queued
+  // for upload again
+  requeuedIds: string[];
+}
+
+// Who is using the app. mode is "online" when the server validated the
+// login and "offline" when it was unlocked with the PIN kept on the device.
+export interface AuthSession {
+  userId: string;
+  email: string;
+  mode: "online" | "offline";
+  startedAt: string;
+}
+
+// PIN hash that unlocks the cached session without a connection
+export interface OfflineCredential {
+  userId: string;
+  email: string;
+  // Hex SHA-256 of the PIN, salted and iterated
+  hash: string;
+  salt: string;
+  iterations: number;
+  // When the server last validated this user
+  validatedAt: string;
+  // Wrong PINs entered since the last successful unlock
+  failedAttempts: number;
+}
+
+// Shape of the readings kept in AsyncStorage by older app versions
+interface LegacyMeterReading {
   id: string;
   meterId: string;
   addressId: string;
@@ -25,13 +144,23 @@ export interface MeterReading {
   value: string;
   timestamp: string;
   imageUri?: string;
-  syncStatus: "pending" | "synced" | "error";
+  syncStatus: ReadingSyncStatus;
 }
 
 // Initialize the database when the app starts
 export const initializeStorage = async (): Promise<void> => {
   try {
-    await initDatabase();
+    // Schema migrations must run before anything else touches the database
+    const migration = await initDatabase();
+    if (migration.error && migration.toVersion === 0) {
+      // Not even the baseline schema could be created, nothing is usable
+      throw migration.error;
+    }
+    if (migration.error) {
+      console.warn(
+        `Continuing with schema version ${migration.toVersion} after a failed migration`,
+      );
+    }
     console.log("Database initialized");
 
     // Migrate existing data from AsyncStorage to SQLite (if any)
@@ -57,11 +186,21 @@ const migrateAsyncStorageToSQLite = async (): Promise<void> => {
       STORAGE_KEYS.PENDING_READINGS,
     );
     if (readingsJson) {
-      const readings: MeterReading[] = JSON.parse(readingsJson);
+      const readings: LegacyMeterReading[] = JSON.parse(readingsJson);
 
-      // Save each reading to SQLite
+      // Save each reading to SQLite, skipping ones that are already there
       for (const reading of readings) {
-        await createMeterReading(reading);
+        if (await getLeituraById(reading.id)) continue;
+        await saveReading({
+          id: reading.id,
+          residenciaId: reading.addressId,
+          leituristaId: "",
+          roteiroId: reading.routeId,
+          medidorId: reading.meterId,
+          value: reading.value,
+          photoPath: reading.imageUri || undefined,
+          timestamp: reading.timestamp,
+        });
       }
 
       console.log(
@@ -76,66 +215,289 @@ const migrateAsyncStorageToSQLite = async (): Promise<void> => {
   }
 };
 
-// Save a reading to local storage (SQLite)
-export const saveMeterReading = async (
-  reading: MeterReading,
-): Promise<void> => {
+// Generate a client-side ID for a new reading
+const generateReadingId = (): string =>
+  `reading-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+// Get the sync status of a stored reading
+export const getReadingSyncStatus = (leitura: Leitura): ReadingSyncStatus => {
+  if (leitura.sincronizado === 1) return "synced";
+  return leitura.erro_sincronizacao ? "error" : "pending";
+};
+
+// Save a reading to local storage (SQLite). This is the only write path for
+// readings; everything that uploads or displays readings reads them back from
+// the leituras table.
+export const saveReading = async (reading: NewReading): Promise<Leitura> => {
   try {
-    console.log("storage.ts - Saving reading to SQLite:", reading);
-    await createMeterReading(reading);
-    console.log(
-      "storage.ts - Reading saved successfully to SQLite:",
-      reading.id,
-    );
+    const timestamp = reading.timestamp || new Date().toISOString();
+
+    // Resolve the customer from the residence when the caller doesn't know it
+    let clienteId = reading.clienteId;
+    if (!clienteId) {
+      const clientes = await query(
+        "SELECT id FROM clientes WHERE residencia_id = ? LIMIT 1",
+        [reading.residenciaId],
+      );
+      clienteId = clientes.length > 0 ? clientes[0].id : "";
+    }
+
+    // Editing an existing reading creates a new version of it
+    const existing = reading.id ? await getLeituraById(reading.id) : null;
+    const session = await getAuthSession();
 
-    // Verify the reading was saved by retrieving it
-    const readings = await getPendingReadings();
-    const savedReading = readings.find((r) => r.id === reading.id);
-    console.log("storage.ts - Verification - Reading retrieved:", savedReading);
+    const leitura: Leitura = {
+      id: reading.id || generateReadingId(),
+      residencia_id: reading.residenciaId,
+      cliente_id: clienteId,
+      leiturista_id: reading.leituristaId,
+      leitura_valor: reading.value,
+      foto_path: reading.photoPath || null,
+      status: reading.status || "concluido",
+      data_leitura: timestamp.split("T")[0],
+      hora_leitura: timestamp.split("T")[1].substring(0, 8),
+      sincronizado: 0,
+      medidor_id: reading.medidorId || null,
+      roteiro_id: reading.roteiroId || null,
+      observacoes: reading.notes || null,
+      latitude: reading.latitude ?? null,
+      longitude: reading.longitude ?? null,
+      erro_sincronizacao: null,
+      criado_em: existing?.criado_em || timestamp,
+      versao: existing ? existing.versao + 1 : 1,
+      versao_servidor: existing?.versao_servidor ?? null,
+      usuario_id: session?.userId ?? existing?.usuario_id ?? null,
+      autenticacao_offline: session?.mode === "offline" ? 1 : 0,
+    };
 
-    if (!savedReading) {
-      console.warn("storage.ts - Warning: Reading was not found after saving");
+    console.log("storage.ts - Saving reading to SQLite:", leitura);
+    await upsertLeitura(leitura);
+    // Queue the upload; enqueuePendingReadings picks it up if this fails
+    await enqueueOutboxItem("leitura", leitura.id, leitura);
+    if (isLocalPhotoPath(leitura.foto_path)) {
+      await enqueuePhotoUpload(leitura);
     }
+    console.log(
+      "storage.ts - Reading saved successfully to SQLite:",
+      leitura.id,
+    );
+    return leitura;
   } catch (error) {
     console.error("storage.ts - Error saving reading to SQLite:", error);
     throw error;
   }
 };
 
-// Get all pending readings from SQLite
-export const getPendingReadings = async (): Promise<MeterReading[]> => {
+// Get all readings from SQLite, newest first
+export const getReadings = async (): Promise<Leitura[]> => {
   try {
-    // Get all readings from SQLite
-    console.log("Getting all meter readings from SQLite...");
-    const readings = await getAllMeterReadings();
-    console.log(
-      `Found ${readings.length} total readings in meter_readings table`,
-    );
-    return readings as MeterReading[];
+    return await getAllLeituras();
   } catch (error) {
     console.error("Error getting readings from SQLite:", error);
     return [];
   }
 };
 
-// Update reading sync status in SQLite
-export const updateReadingSyncStatus = async (
+// Get readings that still have to be uploaded, including ones whose last
+// upload attempt failed
+export const getPendingReadings = async (): Promise<Leitura[]> => {
+  try {
+    const readings = await getLeiturasBySyncStatus(0);
+    console.log(`Found ${readings.length} pending readings in leituras table`);
+    return readings;
+  } catch (error) {
+    console.error("Error getting readings from SQLite:", error);
+    return [];
+  }
+};
+
+// Record a server acknowledgement of a reading upload. Resolves to false if
+// the reading changed locally after the acknowledged version was sent.
+export const confirmReadingSynced = async (
   readingId: string,
-  status: "pending" | "synced" | "error",
-): Promise<void> => {
+  serverVersion: number,
+): Promise<boolean> => {
   try {
-    await updateMeterReadingSyncStatus(readingId, status);
+    return await confirmLeituraSync(readingId, serverVersion);
   } catch (error) {
-    console.error("Error updating reading sync status in SQLite:", error);
+    console.error("Error confirming reading sync in SQLite:", error);
+    return false;
+  }
+};
+
+// Queue every unsynced reading that has no outbox entry yet, e.g. readings
+// saved before the outbox existed or whose enqueue was interrupted
+export const enqueuePendingReadings = async (): Promise<number> => {
+  const readings: Leitura[] = await query(
+    `SELECT l.* FROM leituras l
+     WHERE l.sincronizado = 0
+       AND NOT EXISTS (
+         SELECT 1 FROM sync_outbox o
+         WHERE o.entity = 'leitura' AND o.entity_id = l.id
+       )`,
+  );
+  for (const leitura of readings) {
+    await enqueueOutboxItem("leitura", leitura.id, leitura);
+  }
+  return readings.length;
+};
+
+// Fill in the residence, customer and reader of unsynced readings that lack
+// them, from the routes downloaded since they were taken: the residence of
+// the reading's meter, that residence's customer and the reader of the route
+// covering its street, else the reader whose routes were downloaded last.
+// Repaired readings are queued again with their owners; the others keep an
+// error message and stay out of the upload until they can be repaired.
+// Resolves to the number of repaired readings.
+export const repairReadingOwners = async (): Promise<number> => {
+  const missingOwners = `sincronizado = 0
+    AND (residencia_id = '' OR cliente_id = '' OR leiturista_id = '')`;
+  const incomplete: { id: string }[] = await query(
+    `SELECT id FROM leituras WHERE ${missingOwners}`,
+  );
+  if (incomplete.length === 0) return 0;
+
+  const lastLeituristaId = await getLastLeituristaId();
+  await execBatch([
+    [
+      `UPDATE leituras SET residencia_id = COALESCE(
+         (SELECT res.id FROM residencias res
+          WHERE leituras.medidor_id IN (res.id, 'MTR-' || res.id) LIMIT 1),
+         '')
+       WHERE sincronizado = 0 AND residencia_id = ''`,
+    ],
+    [
+      `UPDATE leituras SET cliente_id = COALESCE(
+         (SELECT c.id FROM clientes c
+          WHERE c.residencia_id = leituras.residencia_id LIMIT 1),
+         '')
+       WHERE sincronizado = 0 AND cliente_id = ''`,
+    ],
+    [
+      `UPDATE leituras SET leiturista_id = COALESCE(
+         (SELECT ro.leiturista_id FROM roteiros ro
+          JOIN residencias res ON res.rua_id = ro.rua_id
+          WHERE res.id = leituras.residencia_id LIMIT 1),
+         ?,
+         '')
+       WHERE sincronizado = 0 AND leiturista_id = ''`,
+      [lastLeituristaId],
+    ],
+    [
+      `UPDATE leituras SET erro_sincronizacao = ? WHERE ${missingOwners}`,
+      [LEITURA_OWNERS_UNKNOWN],
+    ],
+  ]);
+
+  let repairedCount = 0;
+  for (const { id } of incomplete) {
+    const leitura = await getLeituraById(id);
+    if (
+      !leitura?.residencia_id ||
+      !leitura.cliente_id ||
+      !leitura.leiturista_id
+    ) {
+      continue;
+    }
+    if (leitura.erro_sincronizacao === LEITURA_OWNERS_UNKNOWN) {
+      leitura.erro_sincronizacao = null;
+      await updateLeituraSyncStatus(id, 0, null);
+    }
+    // The queued payload was taken before the owners were known
+    await enqueueOutboxItem("leitura", id, leitura);
+    repairedCount++;
+  }
+  return repairedCount;
+};
+
+// Local photo paths are file URIs; uploaded photos are stored as the
+// object key in the blob store
+export const isLocalPhotoPath = (path: string | null | undefined): boolean =>
+  !!path && /^(file:|content:|ph:|assets-library:|\/)/.test(path);
+
+// Build the blob store key of a reading's photo. The key only depends on the
+// reading and its version, so uploading the same photo again overwrites the
+// same object while a retaken photo gets a key of its own.
+export const getPhotoObjectKey = (
+  leitura: Leitura,
+  localPath: string,
+): string => {
+  const extension = localPath.match(/\.(\w+)$/)?.[1]?.toLowerCase() || "jpg";
+  return `leituras/${leitura.leiturista_id || "sem-leiturista"}/${leitura.id}-v${leitura.versao}.${extension}`;
+};
+
+// Queue the upload of a reading's local photo
+const enqueuePhotoUpload = async (leitura: Leitura): Promise<void> => {
+  const localPath = leitura.foto_path as string;
+  const remoteKey = getPhotoObjectKey(leitura, localPath);
+  const upload: PhotoUpload = {
+    leituraId: leitura.id,
+    localPath,
+    remoteKey,
+    contentType: remoteKey.endsWith(".png") ? "image/png" : "image/jpeg",
+  };
+  await enqueueOutboxItem("foto", leitura.id, upload);
+};
+
+// Queue every local photo that has no outbox entry yet
+export const enqueuePendingPhotos = async (): Promise<number> => {
+  const readings: Leitura[] = await query(
+    `SELECT l.* FROM leituras l
+     WHERE l.foto_path IS NOT NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM sync_outbox o
+         WHERE o.entity = 'foto' AND o.entity_id = l.id
+       )`,
+  );
+  const local = readings.filter((leitura) =>
+    isLocalPhotoPath(leitura.foto_path),
+  );
+  for (const leitura of local) {
+    await enqueuePhotoUpload(leitura);
   }
+  return local.length;
+};
+
+// Point a reading at its uploaded photo and queue the reading for upload
+// again so the server gets the object key. Resolves to false if the reading
+// has a different photo by now.
+export const replaceReadingPhotoPath = async (
+  upload: PhotoUpload,
+): Promise<boolean> => {
+  const leitura = await replaceLeituraFotoPath(
+    upload.leituraId,
+    upload.localPath,
+    upload.remoteKey,
+  );
+  if (!leitura) return false;
+  await enqueueOutboxItem("leitura", leitura.id, leitura);
+  return true;
 };
 
-// Remove synced readings from SQLite
-export const removeSyncedReadings = async (): Promise<void> => {
+// Get reading counts by sync status for dashboards
+export const getReadingStats = async (): Promise<ReadingStats> => {
   try {
-    await deleteMeterReadingsBySyncStatus("synced");
+    return await getLeituraCounts();
   } catch (error) {
-    console.error("Error removing synced readings from SQLite:", error);
+    console.error("Error getting reading stats from SQLite:", error);
+    return { total: 0, synced: 0, pending: 0, failed: 0 };
+  }
+};
+
+// Update reading sync status in SQLite
+export const updateReadingSyncStatus = async (
+  readingId: string,
+  status: ReadingSyncStatus,
+  errorMessage?: string,
+): Promise<void> => {
+  try {
+    await updateLeituraSyncStatus(
+      readingId,
+      status === "synced" ? 1 : 0,
+      status === "error" ? errorMessage || "Erro desconhecido" : null,
+    );
+  } catch (error) {
+    console.error("Error updating reading sync status in SQLite:", error);
   }
 };
 
@@ -158,6 +520,233 @@ export const getLastSyncTime = async (): Promise<string | null> => {
   }
 };
 
+// Get the per-table download cursors (latest server updated_at seen)
+export const getSyncCursors = async (): Promise<SyncCursors> => {
+  try {
+    const rows = await query(
+      "SELECT table_name, cursor, synced_at FROM sync_cursors",
+    );
+    const cursors: SyncCursors = {};
+    for (const row of rows) {
+      cursors[row.table_name] = {
+        cursor: row.cursor,
+        syncedAt: row.synced_at,
+      };
+    }
+    return cursors;
+  } catch (error) {
+    console.error("Error getting sync cursors:", error);
+    return {};
+  }
+};
+
+// Save download cursors after a successful download
+export const saveSyncCursors = async (cursors: SyncCursors): Promise<void> => {
+  try {
+    for (const [tableName, { cursor, syncedAt }] of Object.entries(cursors)) {
+      await exec(
+        "INSERT OR REPLACE INTO sync_cursors (table_name, cursor, synced_at) VALUES (?, ?, ?)",
+        [tableName, cursor, syncedAt],
+      );
+    }
+  } catch (error) {
+    console.error("Error saving sync cursors:", error);
+  }
+};
+
+// Forget all download cursors so the next sync downloads everything again
+export const clearSyncCursors = async (): Promise<void> => {
+  try {
+    await exec("DELETE FROM sync_cursors");
+  } catch (error) {
+    console.error("Error clearing sync cursors:", error);
+  }
+};
+
+// Whether photo uploads should wait for a Wi-Fi connection
+export const getPhotoUploadWifiOnly = async (): Promise<boolean> => {
+  try {
+    return (
+      (await AsyncStorage.getItem(STORAGE_KEYS.PHOTO_UPLOAD_WIFI_ONLY)) ===
+      "true"
+    );
+  } catch (error) {
+    console.error("Error getting photo upload setting:", error);
+    return false;
+  }
+};
+
+// Save whether photo uploads should wait for a Wi-Fi connection
+export const savePhotoUploadWifiOnly = async (
+  wifiOnly: boolean,
+): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.PHOTO_UPLOAD_WIFI_ONLY,
+      wifiOnly ? "true" : "false",
+    );
+  } catch (error) {
+    console.error("Error saving photo upload setting:", error);
+  }
+};
+
+// Get the sync policy downloaded from the server, if there is one
+export const getStoredSyncPolicy = async (): Promise<SyncPolicy | null> => {
+  try {
+    const policyJson = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_POLICY);
+    return policyJson ? JSON.parse(policyJson) : null;
+  } catch (error) {
+    console.error("Error getting sync policy:", error);
+    return null;
+  }
+};
+
+// Save the sync policy so it applies while offline
+export const saveSyncPolicy = async (policy: SyncPolicy): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.SYNC_POLICY,
+      JSON.stringify(policy),
+    );
+  } catch (error) {
+    console.error("Error saving sync policy:", error);
+  }
+};
+
+// Save the leiturista whose routes were last downloaded, so syncs that run
+// without a screen (e.g. in the background) know whose routes to refresh
+export const saveLastLeituristaId = async (
+  leituristaId: string,
+): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEYS.LAST_LEITURISTA_ID, leituristaId);
+  } catch (error) {
+    console.error("Error saving last leiturista id:", error);
+  }
+};
+
+// Get the leiturista whose routes were last downloaded
+export const getLastLeituristaId = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(STORAGE_KEYS.LAST_LEITURISTA_ID);
+  } catch (error) {
+    console.error("Error getting last leiturista id:", error);
+    return null;
+  }
+};
+
+// Save the outcome of the last upload confirmation
+export const saveUploadConfirmation = async (
+  confirmation: UploadConfirmation,
+): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.UPLOAD_CONFIRMATION,
+      JSON.stringify(confirmation),
+    );
+  } catch (error) {
+    console.error("Error saving upload confirmation:", error);
+  }
+};
+
+// Get the outcome of the last upload confirmation
+export const getUploadConfirmation =
+  async (): Promise<UploadConfirmation | null> => {
+    try {
+      const confirmationJson = await AsyncStorage.getItem(
+        STORAGE_KEYS.UPLOAD_CONFIRMATION,
+      );
+      return confirmationJson ? JSON.parse(confirmationJson) : null;
+    } catch (error) {
+      console.error("Error getting upload confirmation:", error);
+      return null;
+    }
+  };
+
+// Save who is using the app; null clears it
+export const saveAuthSession = async (
+  session: AuthSession | null,
+): Promise<void> => {
+  try {
+    if (session) {
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.AUTH_SESSION,
+        JSON.stringify(session),
+      );
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.AUTH_SESSION);
+    }
+  } catch (error) {
+    console.error("Error saving auth session:", error);
+  }
+};
+
+// Get who is using the app
+export const getAuthSession = async (): Promise<AuthSession | null> => {
+  try {
+    const sessionJson = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_SESSION);
+    return sessionJson ? JSON.parse(sessionJson) : null;
+  } catch (error) {
+    console.error("Error getting auth session:", error);
+    return null;
+  }
+};
+
+// Save the offline login credential; null removes it. Unlike the other
+// settings a failure is thrown, so the user isn't told offline login works
+// when it won't.
+export const saveOfflineCredential = async (
+  credential: OfflineCredential | null,
+): Promise<void> => {
+  if (credential) {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.OFFLINE_CREDENTIAL,
+      JSON.stringify(credential),
+    );
+  } else {
+    await AsyncStorage.removeItem(STORAGE_KEYS.OFFLINE_CREDENTIAL);
+  }
+};
+
+// Get the offline login credential
+export const getOfflineCredential =
+  async (): Promise<OfflineCredential | null> => {
+    try {
+      const credentialJson = await AsyncStorage.getItem(
+        STORAGE_KEYS.OFFLINE_CREDENTIAL,
+      );
+      return credentialJson ? JSON.parse(credentialJson) : null;
+    } catch (error) {
+      console.error("Error getting offline credential:", error);
+      return null;
+    }
+  };
+
+// Save the user who chose not to set up offline login on this device
+export const saveOfflineLoginDeclined = async (
+  userId: string | null,
+): Promise<void> => {
+  try {
+    if (userId) {
+      await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_LOGIN_DECLINED, userId);
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.OFFLINE_LOGIN_DECLINED);
+    }
+  } catch (error) {
+    console.error("Error saving offline login choice:", error);
+  }
+};
+
+// Get the user who chose not to set up offline login on this device
+export const getOfflineLoginDeclined = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_LOGIN_DECLINED);
+  } catch (error) {
+    console.error("Error getting offline login choice:", error);
+    return null;
+  }
+};
+
 // Save routes data for offline access (still using AsyncStorage for now)
 export const saveRoutesData = async (routes: any[]): Promise<void> => {
   try {
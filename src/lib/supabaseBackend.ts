@@ -0,0 +1,261 @@
+import {
+  supabase,
+  supabaseFetch,
+  supabaseUrl,
+  supabaseAnonKey,
+  PHOTO_BUCKET,
+} from "./supabaseClient";
+import {
+  SyncBackend,
+  BackendResponse,
+  RouteTable,
+  ROUTE_TABLE_COLUMNS,
+} from "./syncBackend";
+import {
+  errorFromChangesReply,
+  getErrorStatus,
+  toNetworkError,
+} from "./networkErrors";
+import { uploadResumable } from "./resumableUpload";
+
+// Sync backend talking to Supabase: PostgREST for the tables and Supabase
+// Storage for the photos.
+
+// Rows are requested per table, scoped to the reader's streets through inner
+// joins. The sync service drops the embedded join columns before writing.
+const ROUTE_TABLE_SCOPES: Record<
+  RouteTable,
+  { join: string | null; leituristaColumn: string }
+> = {
+  bairros: {
+    join: "ruas!inner(roteiros!inner(leiturista_id))",
+    leituristaColumn: "ruas.roteiros.leiturista_id",
+  },
+  ruas: {
+    join: "roteiros!inner(leiturista_id)",
+    leituristaColumn: "roteiros.leiturista_id",
+  },
+  residencias: {
+    join: "ruas!inner(roteiros!inner(leiturista_id))",
+    leituristaColumn: "ruas.roteiros.leiturista_id",
+  },
+  clientes: {
+    join: "residencias!inner(ruas!inner(roteiros!inner(leiturista_id)))",
+    leituristaColumn: "residencias.ruas.roteiros.leiturista_id",
+  },
+  roteiros: {
+    join: null,
+    leituristaColumn: "leiturista_id",
+  },
+};
+
+// Build the select list for a scoped route table query
+const buildScopedSelect = (table: RouteTable, columns: string[]): string => {
+  const { join } = ROUTE_TABLE_SCOPES[table];
+  return (join ? [...columns, join] : columns).join(", ");
+};
+
+// Everything assigned to a reader, used when there is no usable cursor
+const FULL_ROUTE_SELECT = `
+  id, rua_id, dia_semana, updated_at,
+  ruas(
+    id, nome, bairro_id, updated_at,
+    bairros(id, nome, cidade, updated_at),
+    residencias(
+      id, numero, updated_at,
+      clientes(id, nome, cpf, telefone, email, updated_at)
+    )
+  )
+`;
+
+// Columns of a reading the server echoes back as acknowledgement
+const READING_ACK_COLUMNS = "id, versao, leitura_valor, status, data_leitura";
+
+// Add the abort signal to a query when there is one
+const withSignal = <T extends { abortSignal: (signal: AbortSignal) => T }>(
+  request: T,
+  signal?: AbortSignal,
+): T => (signal ? request.abortSignal(signal) : request);
+
+// Run a query, with its error as a typed network error
+const run = async <T>(
+  request: PromiseLike<{ data: T | null; error: any; status: number }>,
+): Promise<BackendResponse<T>> => {
+  const { data, error, status } = await request;
+  return { data, error: toNetworkError(error, status) };
+};
+
+export const createSupabaseBackend = (
+  bucket: string = PHOTO_BUCKET,
+): SyncBackend => ({
+  name: "supabase",
+
+  fetchRoutes: async (leituristaId, signal) =>
+    run(
+      withSignal(
+        supabase
+          .from("roteiros")
+          .select(FULL_ROUTE_SELECT)
+          .eq("leiturista_id", leituristaId),
+        signal,
+      ),
+    ),
+
+  // gte rather than gt: rows sharing the cursor's timestamp may have been
+  // committed after the last download, and writing them twice is harmless.
+  // The database refuses a cursor older than it keeps changes for with
+  // sqlstate PT410, which PostgREST sends as a 410 reply.
+  fetchChanges: async (table, leituristaId, since, signal) => {
+    const { data, error } = await run(
+      withSignal(
+        supabase
+          .from(table)
+          .select(
+            buildScopedSelect(table, [
+              ...ROUTE_TABLE_COLUMNS[table],
+              "updated_at",
+            ]),
+          )
+          .eq(ROUTE_TABLE_SCOPES[table].leituristaColumn, leituristaId)
+          .gte("updated_at", since),
+        signal,
+      ),
+    );
+    return { data, error: errorFromChangesReply(error) };
+  },
+
+  fetchAssignedIds: async (table, leituristaId, offset, limit, signal) =>
+    run(
+      withSignal(
+        supabase
+          .from(table)
+          .select<string, { id: string }>(buildScopedSelect(table, ["id"]))
+          .eq(ROUTE_TABLE_SCOPES[table].leituristaColumn, leituristaId)
+          .order("id")
+          .range(offset, offset + limit - 1),
+        signal,
+      ),
+    ),
+
+  // Upsert on the client-generated id so that retrying a request whose
+  // response was lost converges instead of failing with a duplicate key.
+  // upsert_leituras (supabase/migrations) only overwrites a row with a
+  // higher versao, so a late retry can't undo a newer edit, and answers a
+  // stale reading with the newer versao it kept.
+  upsertReadings: async (readings, signal) =>
+    run(
+      withSignal(
+        supabase.rpc("upsert_leituras", { leituras: readings }),
+        signal,
+      ),
+    ),
+
+  // PostgREST caps responses at its max-rows setting (1000 on Supabase), so
+  // the readings are paged
+  ack: async (leituristaId, from, to, signal) => {
+    const pageSize = 1000;
+    const rows: any[] = [];
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await run(
+        withSignal(
+          supabase
+            .from("leituras")
+            .select(READING_ACK_COLUMNS)
+            .eq("leiturista_id", leituristaId)
+            .gte("data_leitura", from)
+            .lte("data_leitura", to)
+            .order("id")
+            .range(offset, offset + pageSize - 1),
+          signal,
+        ),
+      );
+      if (error) return { data: null, error };
+      rows.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+    return { data: rows, error: null };
+  },
+
+  photoExists: async (key) => {
+    const slash = key.lastIndexOf("/");
+    const folder = slash === -1 ? "" : key.substring(0, slash);
+    const fileName = key.substring(slash + 1);
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { search: fileName, limit: 1 });
+    if (error) throw toNetworkError(error, getErrorStatus(error));
+    return (data || []).some((object) => object.name === fileName);
+  },
+
+  // Photos go through Storage's resumable upload endpoint, so an upload
+  // that was cut off continues where it stopped
+  uploadPhoto: async (
+    key,
+    fileUri,
+    contentType,
+    signal,
+    onProgress,
+    session,
+  ) => {
+    const { data } = await supabase.auth.getSession();
+    const token = data.session?.access_token || supabaseAnonKey;
+    await uploadResumable({
+      endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+      fileUri,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        apikey: supabaseAnonKey,
+        "x-upsert": "true",
+      },
+      metadata: {
+        bucketName: bucket,
+        objectName: key,
+        contentType,
+        cacheControl: "3600",
+      },
+      fetch: supabaseFetch,
+      resumeFrom: session?.state,
+      onStateChange: session?.save,
+      signal,
+      onProgress,
+    });
+  },
+
+  fetchSyncPolicies: async (leituristaId, signal) => {
+    const { data: leiturista, error } = await run(
+      withSignal(
+        supabase.from("leituristas").select("cidade").eq("id", leituristaId),
+        signal,
+      ).maybeSingle(),
+    );
+    if (error) return { data: null, error };
+
+    const filters = [`leiturista_id.eq.${leituristaId}`];
+    if (leiturista?.cidade) {
+      filters.push(`cidade.eq.${JSON.stringify(leiturista.cidade)}`);
+    }
+    return run(
+      withSignal(
+        supabase
+          .from("politicas_sincronizacao")
+          .select("*")
+          .or(filters.join(",")),
+        signal,
+      ),
+    );
+  },
+
+  fetchLeituristas: (userId, email, signal) => {
+    const filters = [`user_id.eq.${userId}`];
+    if (email) filters.push(`email.eq.${JSON.stringify(email)}`);
+    return run(
+      withSignal(
+        supabase
+          .from("leituristas")
+          .select("id, nome, cidade, email, user_id")
+          .or(filters.join(",")),
+        signal,
+      ),
+    );
+  },
+});
@@ -1,10 +1,26 @@
+import "react-native-url-polyfill/auto";
 import { createClient } from "@supabase/supabase-js";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import NetInfo from "@react-native-community/netinfo";
+import {
+  errorFromFailedRequest,
+  getErrorStatus,
+  toNetworkError,
+} from "./networkErrors";
+import { RESILIENCE_CONFIG, withResilience } from "./resilience";
+import { SupabaseConfig, getSupabaseConfig } from "./supabaseConfig";
 
-// Get Supabase URL and anon key from environment variables
-const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL as string;
-const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY as string;
+// Settings of this build; a missing or invalid setting fails the app on
+// start
+export const supabaseConfig = getSupabaseConfig();
+export const supabaseUrl = supabaseConfig.url;
+export const supabaseAnonKey = supabaseConfig.anonKey;
+
+// Supabase Storage bucket that holds the meter photos
+export const PHOTO_BUCKET = "leituras-fotos";
+
+// Oldest server schema (versoes_esquema.versao) this app works with
+export const MIN_SCHEMA_VERSION = 3;
 
 // Helper function to check network connectivity
 export const checkNetworkConnectivity = async () => {
@@ -27,413 +43,391 @@ export const checkNetworkConnectivity = async () => {
   }
 };
 
-// Create a custom fetch implementation with timeout, retry logic, and proper connection handling
-const customFetch = (url: RequestInfo | URL, init?: RequestInit) => {
-  // Maximum number of retry attempts
-  const MAX_RETRIES = 30; // Increased from 20 to 30 for more resilience
-
-  // Function to perform the fetch with retry logic
-  const attemptFetch = (retryCount = 0): Promise<Response> => {
-    // Create an AbortController with a timeout
-    const controller = new AbortController();
-    // Increased timeout to 300 seconds to allow more time for slow connections
-    const timeoutId = setTimeout(() => controller.abort(), 300000); // 300 second timeout (increased from 240s)
+// Statuses whose responses can't carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
 
-    // Add the signal to the fetch options
-    const fetchOptions = {
-      ...init,
-      signal: init?.signal ? init.signal : controller.signal,
-      keepalive: true, // Attempt to keep connection alive until complete
-      // Add additional headers to help with connection stability
-      headers: {
-        ...(init?.headers || {}),
-        Connection: "keep-alive",
-        "Keep-Alive": "timeout=1200, max=5000", // Increased timeout from 900s to 1200s and max from 3000 to 5000
-        "Cache-Control": "no-cache, no-store, must-revalidate", // Stronger cache prevention
-        Pragma: "no-cache",
-        Expires: "0", // Added expires header for additional cache control
-        "X-Requested-With": "XMLHttpRequest", // Identify as AJAX request
-        "X-Connection-Type": "mobile-app", // Custom header to identify connection type
-      },
-    };
+// Send a request once. Replies from the server, error statuses included, are
+// returned as they are; a request that gets no reply fails with a typed
+// network error.
+const fetchOnce = async (
+  url: RequestInfo | URL,
+  init: RequestInit | undefined,
+  config: SupabaseConfig,
+): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, RESILIENCE_CONFIG.requestTimeoutMs);
+  // The timeout also applies to requests the caller can cancel
+  const onCallerAbort = () => controller.abort();
+  if (init?.signal?.aborted) controller.abort();
+  init?.signal?.addEventListener("abort", onCallerAbort, { once: true });
 
-    return new Promise<Response>((resolve, reject) => {
-      // Wrap the fetch in a try-catch to handle synchronous errors
-      try {
-        // Add debugging logs before making the request
-        console.log(
-          `[customFetch] Attempting request to: ${typeof url === "string" ? url : url.toString()}`,
-        );
-        console.log(
-          `[customFetch] Headers:`,
-          JSON.stringify(fetchOptions?.headers || {}),
-        );
-        console.log(`[customFetch] Method:`, fetchOptions?.method || "GET");
+  const fetchOptions = {
+    ...init,
+    signal: controller.signal,
+    keepalive: true, // Attempt to keep connection alive until complete
+    // Add additional headers to help with connection stability
+    headers: {
+      ...(init?.headers || {}),
+      Connection: "keep-alive",
+      "Keep-Alive": "timeout=1200, max=5000",
+      "Cache-Control": "no-cache, no-store, must-revalidate", // Stronger cache prevention
+      Pragma: "no-cache",
+      Expires: "0", // Added expires header for additional cache control
+      "X-Requested-With": "XMLHttpRequest", // Identify as AJAX request
+      "X-Connection-Type": "mobile-app", // Custom header to identify connection type
+    },
+  };
 
-        // Log request body size if present (but not the actual content for security)
-        if (fetchOptions?.body) {
-          const bodySize =
-            typeof fetchOptions.body === "string"
-              ? fetchOptions.body.length
-              : "unknown";
-          console.log(`[customFetch] Request body size: ${bodySize} bytes`);
-        }
+  try {
+    if (config.logRequests) {
+      console.log(
+        `[supabaseFetch] ${fetchOptions.method || "GET"} ${
+          typeof url === "string" ? url : url.toString()
+        }`,
+      );
+    }
+    const response = await fetch(url, fetchOptions);
+    if (config.logRequests) {
+      console.log(
+        `[supabaseFetch] Response received: ${response.status} ${response.statusText}`,
+      );
+    }
 
-        fetch(url, fetchOptions)
-          .then((response) => {
-            clearTimeout(timeoutId);
-            console.log(
-              `[customFetch] Response received: ${response.status} ${response.statusText}`,
-            );
-            resolve(response);
-          })
-          .catch((error) => {
-            clearTimeout(timeoutId);
-            console.log(
-              `[customFetch] Fetch error: ${error?.message || error}`,
-            );
-            console.log(
-              `[customFetch] Error name: ${error?.name || "unknown"}`,
-            );
-            console.log(
-              `[customFetch] Error code: ${error?.code || "unknown"}`,
-            );
-            // Handle premature close errors more gracefully
-            if (error) {
-              // Check for all possible network-related error patterns
-              const errorString = error.toString().toLowerCase();
-              const errorMessage = error.message?.toLowerCase() || "";
-              const isNetworkError =
-                errorMessage.includes("premature close") ||
-                errorMessage.includes("network") ||
-                errorMessage.includes("connection") ||
-                errorMessage.includes("timeout") ||
-                errorMessage.includes("abort") ||
-                errorString.includes("networkerror") ||
-                errorString.includes("network error") ||
-                error.name === "AbortError" ||
-                error.name === "TimeoutError" ||
-                error.code === "ECONNRESET" ||
-                error.code === "ETIMEDOUT" ||
-                error.code === "ENOTFOUND" ||
-                error.code === "ENETUNREACH" ||
-                // Additional error patterns to catch more network issues
-                errorMessage.includes("failed to fetch") ||
-                errorMessage.includes("network request failed") ||
-                errorMessage.includes("socket hang up") ||
-                errorMessage.includes("network down") ||
-                errorMessage.includes("unexpected end of stream") ||
-                errorMessage.includes("unexpected end of file") ||
-                errorMessage.includes("unexpected eof") ||
-                errorString.includes("fetch failed") ||
-                errorString.includes("premature close") ||
-                errorMessage.includes("premature close") ||
-                error.code === "ECONNABORTED" ||
-                error.code === "ECONNREFUSED" ||
-                // Additional patterns specifically for premature close
-                errorMessage.includes("end of stream") ||
-                errorMessage.includes("end of file") ||
-                errorMessage.includes("stream ended") ||
-                errorMessage.includes("connection closed") ||
-                errorMessage.includes("connection terminated") ||
-                errorMessage.includes("connection reset") ||
-                errorMessage.includes("connection aborted") ||
-                errorMessage.includes("connection refused") ||
-                errorMessage.includes("connection failed") ||
-                errorMessage.includes("socket closed") ||
-                errorMessage.includes("socket error") ||
-                errorMessage.includes("socket hang up") ||
-                errorMessage.includes("socket timeout") ||
-                errorMessage.includes("socket ended") ||
-                errorMessage.includes("socket reset") ||
-                errorMessage.includes("socket aborted") ||
-                errorMessage.includes("socket refused") ||
-                errorMessage.includes("socket failed") ||
-                // Additional patterns for more comprehensive error detection
-                errorMessage.includes("request failed") ||
-                errorMessage.includes("request timed out") ||
-                errorMessage.includes("request aborted") ||
-                errorMessage.includes("request cancelled") ||
-                errorMessage.includes("request interrupted") ||
-                errorMessage.includes("connection lost") ||
-                errorMessage.includes("connection dropped") ||
-                errorMessage.includes("connection interrupted") ||
-                errorMessage.includes("connection unstable") ||
-                errorMessage.includes("network unstable") ||
-                errorMessage.includes("network dropped") ||
-                errorMessage.includes("network lost") ||
-                errorMessage.includes("network interrupted");
+    // Read text bodies here, so a connection cut in the middle of the
+    // response (premature close) fails this request instead of surfacing
+    // later as a parse error
+    const contentType = response.headers.get("content-type") || "";
+    if (
+      NULL_BODY_STATUSES.includes(response.status) ||
+      !/json|text/.test(contentType)
+    ) {
+      return response;
+    }
+    const body = await response.text();
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  } catch (error) {
+    // The caller cancelled; that's not a network failure
+    if (init?.signal?.aborted) throw error;
+    throw await errorFromFailedRequest(error, timedOut);
+  } finally {
+    clearTimeout(timeoutId);
+    init?.signal?.removeEventListener("abort", onCallerAbort);
+  }
+};
 
-              // If it's a network error and we haven't exceeded max retries, try again
-              if (isNetworkError && retryCount < MAX_RETRIES) {
-                // Implement a more gradual backoff strategy for early retries
-                let backoffDelay;
-                if (retryCount < 5) {
-                  // For the first few retries, use a more aggressive retry strategy
-                  backoffDelay = Math.min(
-                    500 * Math.pow(1.5, retryCount),
-                    10000,
-                  );
-                } else {
-                  // For later retries, use standard exponential backoff
-                  backoffDelay = Math.min(
-                    1000 * Math.pow(2, retryCount - 5),
-                    240000, // Increased max backoff to 240s from 180s
-                  );
-                }
-                console.warn(
-                  `Network error detected (attempt ${retryCount + 1}/${MAX_RETRIES}). Retrying in ${backoffDelay}ms:`,
-                  error.message || error.toString(),
-                );
+// Transport of the app's client, for requests to the project that
+// supabase-js doesn't send itself, such as resumable uploads
+export const supabaseFetch = withResilience((url, init) =>
+  fetchOnce(url, init, supabaseConfig),
+);
 
-                // Wait with exponential backoff before retrying
-                return setTimeout(() => {
-                  // Check network connectivity before retrying
-                  checkNetworkConnectivity()
-                    .then((netInfo) => {
-                      if (netInfo.isConnected && netInfo.isInternetReachable) {
-                        console.log("Network available, retrying request...");
-                        resolve(attemptFetch(retryCount + 1));
-                      } else {
-                        console.warn(
-                          "Network unavailable, waiting longer before retry...",
-                        );
-                        // Wait longer if network is unavailable
-                        setTimeout(() => {
-                          resolve(attemptFetch(retryCount + 1));
-                        }, 5000); // Additional 5s wait
-                      }
-                    })
-                    .catch(() => {
-                      // If connectivity check fails, retry anyway
-                      resolve(attemptFetch(retryCount + 1));
-                    });
-                }, backoffDelay);
-              }
+// Create a Supabase client with the app's session storage and transport: the
+// circuit breaker, retry budget and backoff of the resilience layer. Every
+// screen and the sync use the `supabase` client below; this is the only
+// place clients are created.
+export const createSupabaseClient = (
+  config: SupabaseConfig = supabaseConfig,
+) =>
+  createClient(config.url, config.anonKey, {
+    auth: {
+      persistSession: true,
+      autoRefreshToken: true,
+      detectSessionInUrl: false,
+      storageKey: config.storageKey,
+      storage: {
+        // Add more robust error handling for storage operations
+        getItem: async (key: string) => {
+          try {
+            const item = await AsyncStorage.getItem(key);
+            return item;
+          } catch (error) {
+            console.warn("Error retrieving auth from storage:", error);
+            return null;
+          }
+        },
+        setItem: async (key: string, value: string) => {
+          try {
+            await AsyncStorage.setItem(key, value);
+          } catch (error) {
+            console.warn("Error saving auth to storage:", error);
+          }
+        },
+        removeItem: async (key: string) => {
+          try {
+            await AsyncStorage.removeItem(key);
+          } catch (error) {
+            console.warn("Error removing auth from storage:", error);
+          }
+        },
+      },
+    },
+    global: {
+      fetch: withResilience((url, init) => fetchOnce(url, init, config)),
+    },
+    realtime: {
+      timeout: 480000, // 480 seconds timeout for realtime connections (increased from 360s)
+      params: {
+        eventsPerSecond: 0.02, // Further reduced from 0.05 to 0.02 to minimize connection stress
+      },
+      // Add additional realtime options to improve stability
+      autoConnectWithAuth: true,
+      disconnectOnTabHidden: false,
+      reconnectWithAuth: true,
+    },
+    // Add additional options for socket connections
+    socket: {
+      reconnectAfterMs: (attempt) => {
+        // Exponential backoff with jitter to prevent thundering herd
+        const baseDelay = Math.min(1000 * Math.pow(2, attempt), 420000); // Increased max to 420s from 300s
+        const jitter = Math.random() * 12000; // Increased jitter from 8s to 12s
+        return baseDelay + jitter;
+      },
+      timeout: 480000, // Increased from 360s to 480s
+      heartbeatIntervalMs: 15000, // Decreased from 20s to 15s for more frequent heartbeats
+    },
+    // Add additional options to help with connection stability
+    db: {
+      schema: "public",
+    },
+    // Reduce concurrent requests to avoid overwhelming the connection
+    headers: {
+      "X-Client-Info": "expo-app",
+      Connection: "keep-alive",
+      "Keep-Alive": "timeout=1200, max=1200", // Increased timeout from 900s to 1200s and max from 800 to 1200
+      "Cache-Control": "no-cache, no-store, must-revalidate", // Stronger cache prevention
+      Pragma: "no-cache",
+      Expires: "0", // Added expires header for additional cache control
+    },
+  });
 
-              if (isNetworkError) {
-                console.warn(
-                  "Handled network/connection error after retries:",
-                  error.message || error.toString(),
-                  "\nError name:",
-                  error.name,
-                  "\nError code:",
-                  error.code || "N/A",
-                );
-                // Create a mock response for network errors
-                const mockResponse = new Response(
-                  JSON.stringify({
-                    error: "Connection issue detected",
-                    errorType: error.message || error.toString(),
-                    errorName: error.name,
-                    errorCode: error.code,
-                    recoverable: true,
-                    retryAttempts: retryCount,
-                    timestamp: new Date().toISOString(),
-                  }),
-                  {
-                    status: 499, // Client closed request status code
-                    headers: { "Content-Type": "application/json" },
-                  },
-                );
-                resolve(mockResponse);
-                return;
-              }
-            }
+// The app's Supabase client
+export const supabase = createSupabaseClient();
 
-            console.error("Unhandled fetch error:", error);
-            reject(error);
-          });
-      } catch (syncError) {
-        // Handle synchronous errors that might occur during fetch initialization
-        clearTimeout(timeoutId);
-        console.warn("Synchronous error during fetch:", syncError);
+export interface HealthCheckError {
+  message: string;
+  code: string | null;
+}
 
-        if (retryCount < MAX_RETRIES) {
-          const backoffDelay = Math.min(1000 * Math.pow(2, retryCount), 240000); // Increased from 180000 to 240000
-          console.warn(
-            `Retrying after sync error (attempt ${retryCount + 1}/${MAX_RETRIES}) in ${backoffDelay}ms`,
-          );
+export interface HealthCheck {
+  ok: boolean;
+  // Round trip of the check, when the server answered
+  latencyMs: number | null;
+  error: HealthCheckError | null;
+}
 
-          setTimeout(() => {
-            resolve(attemptFetch(retryCount + 1));
-          }, backoffDelay);
-        } else {
-          // Create a mock response for synchronous errors after max retries
-          const mockResponse = new Response(
-            JSON.stringify({
-              error: "Synchronous fetch error",
-              errorType: syncError.toString(),
-              recoverable: false,
-              retryAttempts: retryCount,
-              timestamp: new Date().toISOString(),
-            }),
-            {
-              status: 499,
-              headers: { "Content-Type": "application/json" },
-            },
-          );
-          resolve(mockResponse);
-        }
-      }
-    });
+export interface SupabaseHealthReport {
+  // Whether every check passed. Being signed out or a server that doesn't
+  // report its schema version are not failures.
+  success: boolean;
+  // Error of the first check that failed
+  error: HealthCheckError | null;
+  checkedAt: string;
+  durationMs: number;
+  auth: HealthCheck & {
+    // unverified: the server couldn't be asked
+    status: "valid" | "expired" | "invalid" | "signed-out" | "unverified";
+    userId: string | null;
+    expiresAt: string | null;
+  };
+  database: HealthCheck;
+  storage: HealthCheck & { bucket: string };
+  schema: HealthCheck & {
+    version: number | null;
+    minVersion: number;
+    // null when the server doesn't report its version
+    compatible: boolean | null;
   };
+}
 
-  // Start the fetch process with retry logic
-  return attemptFetch();
+const toHealthCheckError = (error: any, status?: number): HealthCheckError => {
+  const networkError = toNetworkError(error, status);
+  return {
+    message: networkError?.message || String(networkError),
+    code: networkError?.code ? String(networkError.code) : null,
+  };
 };
 
-// Create a connection state manager to track and recover from connection issues
-class ConnectionStateManager {
-  // Add event listeners for app state and network changes
-  private static instance: ConnectionStateManager | null = null;
-
-  // Singleton pattern to ensure only one instance exists
-  public static getInstance(): ConnectionStateManager {
-    if (!ConnectionStateManager.instance) {
-      ConnectionStateManager.instance = new ConnectionStateManager();
-    }
-    return ConnectionStateManager.instance;
-  }
-  private isReconnecting = false;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 60; // Increased from 40 to 60
-  private lastNetworkCheck = 0;
-  private networkCheckInterval = 1000; // Reduced from 2 seconds to 1 second for more frequent checks
-
-  constructor() {
-    // Initialize with a network check
-    this.checkNetworkAndRecover();
-
-    // Set up periodic network checks
-    setInterval(() => this.checkNetworkAndRecover(), this.networkCheckInterval);
-  }
-
-  private async checkNetworkAndRecover() {
-    const now = Date.now();
-    if (now - this.lastNetworkCheck < this.networkCheckInterval) return;
-
-    this.lastNetworkCheck = now;
-    const netInfo = await checkNetworkConnectivity();
+// Result of a check that got a reply (status > 0) or failed without one
+const toHealthCheck = (
+  startedAt: number,
+  error: any,
+  status: number,
+): HealthCheck => ({
+  ok: !error,
+  latencyMs: status > 0 ? Date.now() - startedAt : null,
+  error: error ? toHealthCheckError(error, status) : null,
+});
 
-    if (!netInfo.isConnected || !netInfo.isInternetReachable) {
-      console.warn(
-        "Network connectivity issues detected, will retry connections when network is available",
-        netInfo,
-      );
-      this.isReconnecting = true;
+const failedCheck = (error: unknown): HealthCheck => ({
+  ok: false,
+  latencyMs: null,
+  error: toHealthCheckError(error),
+});
 
-      // Schedule more frequent checks when disconnected
-      setTimeout(() => this.checkNetworkAndRecover(), 250); // Reduced from 500ms to 250ms
-    } else if (this.isReconnecting) {
-      console.log("Network connectivity restored, reconnecting...");
-      this.isReconnecting = false;
-      this.reconnectAttempts = 0;
+// Whether the session is still accepted by the server
+const checkAuth = async (): Promise<SupabaseHealthReport["auth"]> => {
+  const startedAt = Date.now();
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session) {
+      return {
+        ok: true,
+        latencyMs: null,
+        error: null,
+        status: "signed-out",
+        userId: null,
+        expiresAt: null,
+      };
+    }
 
-      // Force reconnect by recreating the Supabase client
-      try {
-        // We can't actually recreate the client here, but we can log that we would
-        console.log("Would reconnect Supabase client if possible");
-      } catch (error) {
-        console.error("Error during reconnection attempt:", error);
-      }
+    const expiresAt = session.expires_at
+      ? new Date(session.expires_at * 1000).toISOString()
+      : null;
+    const { data, error } = await supabase.auth.getUser();
+    const check = toHealthCheck(
+      startedAt,
+      error,
+      error ? error.status || 0 : 200,
+    );
+    let status: SupabaseHealthReport["auth"]["status"] = "valid";
+    if (error && !error.status) {
+      status = "unverified";
+    } else if (error) {
+      const expired =
+        !!session.expires_at && session.expires_at * 1000 <= Date.now();
+      status = expired ? "expired" : "invalid";
     }
+    return {
+      ...check,
+      status,
+      userId: data.user?.id || session.user.id,
+      expiresAt,
+    };
+  } catch (error) {
+    return {
+      ...failedCheck(error),
+      status: "unverified",
+      userId: null,
+      expiresAt: null,
+    };
   }
+};
 
-  public shouldRetry(): boolean {
-    return this.reconnectAttempts < this.maxReconnectAttempts;
+// Round trip of a minimal query
+const checkDatabase = async (): Promise<HealthCheck> => {
+  const startedAt = Date.now();
+  try {
+    const { error, status } = await supabase
+      .from("leituristas")
+      .select("id", { head: true })
+      .limit(1);
+    return toHealthCheck(startedAt, error, status);
+  } catch (error) {
+    return failedCheck(error);
   }
+};
 
-  public recordReconnectAttempt() {
-    this.reconnectAttempts++;
-    return this.reconnectAttempts;
+// Whether the photo bucket can be reached
+const checkStorage = async (): Promise<SupabaseHealthReport["storage"]> => {
+  const startedAt = Date.now();
+  try {
+    const { error } = await supabase.storage
+      .from(PHOTO_BUCKET)
+      .list("", { limit: 1 });
+    const status = error ? getErrorStatus(error) || 0 : 200;
+    return { ...toHealthCheck(startedAt, error, status), bucket: PHOTO_BUCKET };
+  } catch (error) {
+    return { ...failedCheck(error), bucket: PHOTO_BUCKET };
   }
+};
+
+// Schema version of the server, from the versoes_esquema table
+const checkSchema = async (): Promise<SupabaseHealthReport["schema"]> => {
+  const startedAt = Date.now();
+  try {
+    const { data, error, status } = await supabase
+      .from("versoes_esquema")
+      .select("versao")
+      .order("versao", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error || !data) {
+      // Servers from before the table existed don't report a version
+      const missingTable = error?.code === "PGRST205";
+      return {
+        ...toHealthCheck(startedAt, missingTable ? null : error, status),
+        version: null,
+        minVersion: MIN_SCHEMA_VERSION,
+        compatible: null,
+      };
+    }
 
-  public resetReconnectAttempts() {
-    this.reconnectAttempts = 0;
+    const version = Number(data.versao);
+    const compatible = version >= MIN_SCHEMA_VERSION;
+    return {
+      ok: compatible,
+      latencyMs: Date.now() - startedAt,
+      error: compatible
+        ? null
+        : {
+            message:
+              `Versão do esquema do servidor (${version}) é anterior à ` +
+              `mínima suportada (${MIN_SCHEMA_VERSION})`,
+            code: "SCHEMA_TOO_OLD",
+          },
+      version,
+      minVersion: MIN_SCHEMA_VERSION,
+      compatible,
+    };
+  } catch (error) {
+    return {
+      ...failedCheck(error),
+      version: null,
+      minVersion: MIN_SCHEMA_VERSION,
+      compatible: null,
+    };
   }
-}
+};
 
-// Initialize the connection state manager as a singleton
-const connectionManager = ConnectionStateManager.getInstance();
+// Check that the app can work with Supabase: whether the session is valid,
+// the database round-trip time, whether the photo storage can be reached
+// and whether the server schema is recent enough. The checks run in
+// parallel and never throw; failures are reported in the result.
+export const checkSupabaseConnection =
+  async (): Promise<SupabaseHealthReport> => {
+    const startedAt = Date.now();
+    const [auth, database, storage, schema] = await Promise.all([
+      checkAuth(),
+      checkDatabase(),
+      checkStorage(),
+      checkSchema(),
+    ]);
 
-// Create Supabase client with custom fetch options to prevent hanging connections
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    persistSession: true,
-    autoRefreshToken: true,
-    detectSessionInUrl: false,
-    storageKey: "supabase-auth-token",
-    storage: {
-      // Add more robust error handling for storage operations
-      getItem: async (key: string) => {
-        try {
-          const item = await AsyncStorage.getItem(key);
-          return item;
-        } catch (error) {
-          console.warn("Error retrieving auth from storage:", error);
-          return null;
-        }
-      },
-      setItem: async (key: string, value: string) => {
-        try {
-          await AsyncStorage.setItem(key, value);
-        } catch (error) {
-          console.warn("Error saving auth to storage:", error);
-        }
-      },
-      removeItem: async (key: string) => {
-        try {
-          await AsyncStorage.removeItem(key);
-        } catch (error) {
-          console.warn("Error removing auth from storage:", error);
-        }
-      },
-    },
-  },
-  global: {
-    fetch: customFetch,
-  },
-  realtime: {
-    timeout: 480000, // 480 seconds timeout for realtime connections (increased from 360s)
-    params: {
-      eventsPerSecond: 0.02, // Further reduced from 0.05 to 0.02 to minimize connection stress
-    },
-    // Add additional realtime options to improve stability
-    autoConnectWithAuth: true,
-    disconnectOnTabHidden: false,
-    reconnectWithAuth: true,
-  },
-  // Add additional options for socket connections
-  socket: {
-    reconnectAfterMs: (attempt) => {
-      // Exponential backoff with jitter to prevent thundering herd
-      const baseDelay = Math.min(1000 * Math.pow(2, attempt), 420000); // Increased max to 420s from 300s
-      const jitter = Math.random() * 12000; // Increased jitter from 8s to 12s
-      return baseDelay + jitter;
-    },
-    timeout: 480000, // Increased from 360s to 480s
-    heartbeatIntervalMs: 15000, // Decreased from 20s to 15s for more frequent heartbeats
-  },
-  // Add additional options to help with connection stability
-  db: {
-    schema: "public",
-  },
-  // Reduce concurrent requests to avoid overwhelming the connection
-  headers: {
-    "X-Client-Info": "expo-app",
-    Connection: "keep-alive",
-    "Keep-Alive": "timeout=1200, max=1200", // Increased timeout from 900s to 1200s and max from 800 to 1200
-    "Cache-Control": "no-cache, no-store, must-revalidate", // Stronger cache prevention
-    Pragma: "no-cache",
-    Expires: "0", // Added expires header for additional cache control
-  },
-  // Add retry configuration with exponential backoff
-  retryAttempts: 35, // Increased from 25 to 35 to handle more transient failures
-  retryInterval: (attempt) => {
-    // Exponential backoff with jitter to prevent thundering herd
-    const baseDelay = Math.min(1000 * Math.pow(2, attempt), 420000); // Increased max to 420s from 300s
-    const jitter = Math.random() * 20000; // Increased jitter from 15s to 20s
-    return baseDelay + jitter;
-  },
-});
+    const failed = [auth, database, storage, schema].find(
+      (check) => !check.ok,
+    );
+    const report: SupabaseHealthReport = {
+      success: !failed,
+      error: failed?.error || null,
+      checkedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      auth,
+      database,
+      storage,
+      schema,
+    };
+    if (!report.success) {
+      console.warn("[checkSupabaseConnection] Health check failed:", report);
+    }
+    return report;
+  };
@@ -0,0 +1,114 @@
+// Supabase settings of the build. The profile is chosen at build time with
+// EXPO_PUBLIC_APP_ENV (development, staging or production; production when
+// unset, so a release build never logs requests, accepts plain http or signs
+// its users out for a new session key) and the project with
+// EXPO_PUBLIC_SUPABASE_URL and EXPO_PUBLIC_SUPABASE_ANON_KEY. Expo inlines
+// EXPO_PUBLIC_ variables into the bundle, so they are only seen when read as
+// process.env.NAME.
+
+export type AppEnvironment = "development" | "staging" | "production";
+
+export interface SupabaseProfile {
+  // Plain http is only accepted for a local server, such as
+  // server/fakeSupabase
+  allowInsecureUrl: boolean;
+  // Log every request made by the client
+  logRequests: boolean;
+  // AsyncStorage key of the session. Each profile has its own, so a session
+  // from one project is never sent to another; production keeps the key
+  // used before profiles existed, so users stay signed in.
+  storageKey: string;
+}
+
+export const SUPABASE_PROFILES: Record<AppEnvironment, SupabaseProfile> = {
+  development: {
+    allowInsecureUrl: true,
+    logRequests: true,
+    storageKey: "supabase-auth-token-development",
+  },
+  staging: {
+    allowInsecureUrl: false,
+    logRequests: true,
+    storageKey: "supabase-auth-token-staging",
+  },
+  production: {
+    allowInsecureUrl: false,
+    logRequests: false,
+    storageKey: "supabase-auth-token",
+  },
+};
+
+export interface SupabaseConfig extends SupabaseProfile {
+  environment: AppEnvironment;
+  url: string;
+  anonKey: string;
+}
+
+export interface SupabaseEnv {
+  appEnv?: string;
+  url?: string;
+  anonKey?: string;
+}
+
+// The build's configuration can't be used
+export class SupabaseConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SupabaseConfigError";
+    Object.setPrototypeOf(this, SupabaseConfigError.prototype);
+  }
+}
+
+const readEnv = (): SupabaseEnv => ({
+  appEnv: process.env.EXPO_PUBLIC_APP_ENV,
+  url: process.env.EXPO_PUBLIC_SUPABASE_URL,
+  anonKey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
+});
+
+const isEnvironment = (value: string): value is AppEnvironment =>
+  value in SUPABASE_PROFILES;
+
+// Build and validate the Supabase configuration. Throws a
+// SupabaseConfigError listing every problem, so a misconfigured build fails
+// on start instead of on its first request.
+export const getSupabaseConfig = (
+  env: SupabaseEnv = readEnv(),
+): SupabaseConfig => {
+  const problems: string[] = [];
+  const appEnv = (env.appEnv || "production").trim().toLowerCase();
+  const environment = isEnvironment(appEnv) ? appEnv : "production";
+  if (!isEnvironment(appEnv)) {
+    problems.push(
+      `EXPO_PUBLIC_APP_ENV must be one of ` +
+        `${Object.keys(SUPABASE_PROFILES).join(", ")} (got "${env.appEnv}")`,
+    );
+  }
+  const profile = SUPABASE_PROFILES[environment];
+
+  const url = (env.url || "").trim().replace(/\/+$/, "");
+  const protocol = url.match(/^(https?):\/\/[^\s/?#]+/i)?.[1]?.toLowerCase();
+  if (!url) {
+    problems.push("EXPO_PUBLIC_SUPABASE_URL is not set");
+  } else if (!protocol) {
+    problems.push(`EXPO_PUBLIC_SUPABASE_URL is not a valid URL ("${url}")`);
+  } else if (protocol === "http" && !profile.allowInsecureUrl) {
+    problems.push(
+      `EXPO_PUBLIC_SUPABASE_URL must use https in the ${environment} ` +
+        `profile ("${url}")`,
+    );
+  }
+
+  const anonKey = (env.anonKey || "").trim();
+  if (!anonKey) {
+    problems.push("EXPO_PUBLIC_SUPABASE_ANON_KEY is not set");
+  }
+
+  if (problems.length > 0) {
+    throw new SupabaseConfigError(
+      `Invalid Supabase configuration (${environment} profile):\n- ` +
+        problems.join("\n- "),
+    );
+  }
+
+  return { ...profile, environment, url, anonKey };
+};
@@ -0,0 +1,239 @@
+import { createSupabaseBackend } from "./supabaseBackend";
+import { createRestBackend } from "./restBackend";
+import { createMemoryBackend } from "./memoryBackend";
+import type { ResumableUploadState } from "./resumableUpload";
+
+// The server the sync talks to. The sync service, photo sync, reconciliation
+// and sync policy only go through this interface, so they can run against
+// Supabase, our own REST API or an in-memory stand-in, chosen by
+// configuration.
+
+// Route tables, in the order they are written locally (parents first)
+export const ROUTE_TABLES = [
+  "bairros",
+  "ruas",
+  "residencias",
+  "clientes",
+  "roteiros",
+] as const;
+export type RouteTable = (typeof ROUTE_TABLES)[number];
+
+// Local columns of each route table
+export const ROUTE_TABLE_COLUMNS: Record<RouteTable, string[]> = {
+  bairros: ["id", "nome", "cidade"],
+  ruas: ["id", "nome", "bairro_id"],
+  residencias: ["id", "rua_id", "numero"],
+  clientes: ["id", "nome", "cpf", "telefone", "email", "residencia_id"],
+  roteiros: ["id", "leiturista_id", "rua_id", "dia_semana"],
+};
+
+// Backend calls resolve to the data or the error, like supabase-js queries,
+// so the retry and timeout handling around them doesn't depend on the
+// backend
+export type BackendResponse<T> = { data: T | null; error: any };
+
+// A reading as sent to the server
+export interface ReadingPayload {
+  id: string;
+  residencia_id: string;
+  cliente_id: string;
+  leiturista_id: string;
+  leitura_valor: string | null;
+  foto_path: string | null;
+  status: string;
+  data_leitura: string;
+  hora_leitura: string;
+  sincronizado: boolean;
+  versao: number;
+}
+
+// The server's acknowledgement of a stored reading
+export interface ReadingAck {
+  id: string;
+  versao: number | null;
+  leitura_valor?: string | null;
+  status?: string;
+  data_leitura?: string | null;
+}
+
+// A leituristas row as stored on the server. user_id links it to the
+// reader's auth user; email identifies rows not linked yet.
+export interface LeituristaRow {
+  id: string;
+  nome: string;
+  cidade: string;
+  email: string | null;
+  user_id: string | null;
+}
+
+// A photo upload that can be continued by a later attempt
+export interface PhotoUploadSession {
+  // State saved by the previous attempt, if any
+  state: ResumableUploadState | null;
+  // Save the state as the upload advances
+  save: (state: ResumableUploadState) => Promise<void>;
+}
+
+// A sync policy row as stored on the server
+export interface SyncPolicyRow {
+  leiturista_id: string | null;
+  cidade: string | null;
+  download_inicio: string | null;
+  download_fim: string | null;
+  upload_inicio: string | null;
+  upload_fim: string | null;
+  intervalo_minimo_minutos: number | null;
+  sincronizar_ao_reconectar: boolean | null;
+  updated_at: string | null;
+}
+
+export interface SyncBackend {
+  name: string;
+  // Everything assigned to a reader, as a tree: roteiros with their ruas,
+  // each rua with its bairros and residencias, each residencia with its
+  // clientes. Every row carries updated_at.
+  fetchRoutes: (
+    leituristaId: string,
+    signal?: AbortSignal,
+  ) => Promise<BackendResponse<any[]>>;
+  // Rows of a route table assigned to a reader that changed at or after
+  // `since`, with the local columns plus updated_at. Fails with a
+  // CursorExpiredError when the server no longer keeps the changes since
+  // `since`.
+  fetchChanges: (
+    table: RouteTable,
+    leituristaId: string,
+    since: string,
+    signal?: AbortSignal,
+  ) => Promise<BackendResponse<any[]>>;
+  // One page of the ids of a route table's rows assigned to a reader,
+  // ordered by id
+  fetchAssignedIds: (
+    table: RouteTable,
+    leituristaId: string,
+    offset: number,
+    limit: number,
+    signal?: AbortSignal,
+  ) => Promise<BackendResponse<Array<{ id: string }>>>;
+  // Insert or update readings by id, keeping the stored row when its versao
+  // is not lower; resolves to the id and versao the server holds for each
+  upsertReadings: (
+    readings: ReadingPayload[],
+    signal?: AbortSignal,
+  ) => Promise<BackendResponse<ReadingAck[]>>;
+  // Readings the server holds for a reader between two dates (inclusive),
+  // used to confirm uploads
+  ack: (
+    leituristaId: string,
+    from: string,
+    to: string,
+    signal?: AbortSignal,
+  ) => Promise<BackendResponse<ReadingAck[]>>;
+  // Check whether a photo is already stored under a key
+  photoExists: (key: string) => Promise<boolean>;
+  // Upload a local photo, replacing any object stored under the same key.
+  // With a session, an upload a previous attempt started is continued.
+  uploadPhoto: (
+    key: string,
+    fileUri: string,
+    contentType: string,
+    signal?: AbortSignal,
+    onProgress?: (bytesSent: number) => void,
+    session?: PhotoUploadSession,
+  ) => Promise<void>;
+  // Sync policies that may apply to a reader: their own and their cidade's
+  fetchSyncPolicies: (
+    leituristaId: string,
+    signal?: AbortSignal,
+  ) => Promise<BackendResponse<SyncPolicyRow[]>>;
+  // Leituristas rows that may belong to an auth user: the one linked to it
+  // and those with its email
+  fetchLeituristas: (
+    userId: string,
+    email: string | null,
+    signal?: AbortSignal,
+  ) => Promise<BackendResponse<LeituristaRow[]>>;
+}
+
+export type SyncBackendKind = "supabase" | "rest" | "memory";
+
+export interface SyncBackendConfig {
+  kind: SyncBackendKind;
+  // Base URL of the REST API
+  restUrl?: string;
+}
+
+// Read the backend configuration from the environment; Supabase unless
+// configured otherwise
+export const getSyncBackendConfig = (): SyncBackendConfig => {
+  const kind = (process.env.EXPO_PUBLIC_SYNC_BACKEND ||
+    "supabase") as SyncBackendKind;
+  return { kind, restUrl: process.env.EXPO_PUBLIC_SYNC_API_URL };
+};
+
+// Create the backend for a configuration
+export const createSyncBackend = (config: SyncBackendConfig): SyncBackend => {
+  switch (config.kind) {
+    case "supabase":
+      return createSupabaseBackend();
+    case "rest":
+      if (!config.restUrl) {
+        throw new Error(
+          "EXPO_PUBLIC_SYNC_API_URL must be set to use the REST sync backend",
+        );
+      }
+      return createRestBackend(config.restUrl);
+    case "memory":
+      return createMemoryBackend();
+    default:
+      throw new Error(`Unknown sync backend: ${config.kind}`);
+  }
+};
+
+let backend: SyncBackend | null = null;
+
+// Get the backend syncs talk to, creating it from the configuration on
+// first use
+export const getSyncBackend = (): SyncBackend => {
+  if (!backend) {
+    backend = createSyncBackend(getSyncBackendConfig());
+  }
+  return backend;
+};
+
+// Replace the backend syncs talk to
+export const setSyncBackend = (newBackend: SyncBackend): void => {
+  backend = newBackend;
+};
+
+export interface AuthUser {
+  id: string;
+  email?: string | null;
+}
+
+// Find the leituristas row of an auth user on the server: the row linked to
+// the user, or else one with the user's email that isn't linked to anybody.
+// Reads nothing from the device, so the web build can use it too.
+export const findLeituristaRow = async (
+  user: AuthUser,
+  signal?: AbortSignal,
+): Promise<BackendResponse<LeituristaRow | null>> => {
+  const { data: rows, error } = await getSyncBackend().fetchLeituristas(
+    user.id,
+    user.email || null,
+    signal,
+  );
+  if (error) return { data: null, error };
+
+  const email = user.email?.trim().toLowerCase();
+  const row =
+    (rows || []).find((candidate) => candidate.user_id === user.id) ||
+    (rows || []).find(
+      (candidate) =>
+        !candidate.user_id &&
+        !!email &&
+        candidate.email?.trim().toLowerCase() === email,
+    ) ||
+    null;
+  return { data: row, error: null };
+};
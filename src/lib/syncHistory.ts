@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from "uuid";
+import { query, exec } from "./database";
+import { logWarn } from "./logger";
+
+// History of sync runs. Every run the sync engine makes, and every
+// background run that was skipped, is stored in sync_runs, so supervisors
+// can check on the device when a reader last uploaded successfully and why
+// the runs in between did not.
+
+// What started a sync run
+export type SyncTrigger = "manual" | "reconnect" | "schedule" | "background";
+
+export type SyncRunDirection = "download" | "upload" | "full";
+
+export type SyncRunStatus =
+  | "running"
+  | "done"
+  | "failed"
+  | "cancelled"
+  | "offline"
+  | "skipped";
+
+export interface SyncRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string | null;
+  trigger: SyncTrigger;
+  direction: SyncRunDirection;
+  status: SyncRunStatus;
+  syncedCount: number;
+  errorCount: number;
+  errorMessage: string | null;
+  durationMs: number | null;
+}
+
+export interface SyncRunOutcome {
+  status: Exclude<SyncRunStatus, "running">;
+  syncedCount?: number;
+  errorCount?: number;
+  errorMessage?: string | null;
+}
+
+// Number of runs kept; older ones are deleted when a new run starts
+const MAX_SYNC_RUNS = 500;
+
+// Map a sync_runs row to a SyncRun
+const toSyncRun = (row: any): SyncRun => ({
+  id: row.id,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+  trigger: row.trigger_type,
+  direction: row.direction,
+  status: row.status,
+  syncedCount: row.synced_count,
+  errorCount: row.error_count,
+  errorMessage: row.error_message,
+  durationMs: row.duration_ms,
+});
+
+// Record the start of a sync run. Returns the id of the run, or null if it
+// could not be recorded; the history must never stop a sync.
+export const startSyncRun = async (
+  trigger: SyncTrigger,
+  direction: SyncRunDirection,
+): Promise<string | null> => {
+  const id = uuidv4();
+  try {
+    await exec(
+      `INSERT INTO sync_runs (id, started_at, trigger_type, direction, status)
+       VALUES (?, ?, ?, ?, 'running')`,
+      [id, new Date().toISOString(), trigger, direction],
+    );
+    await exec(
+      `DELETE FROM sync_runs WHERE id NOT IN (
+        SELECT id FROM sync_runs ORDER BY started_at DESC LIMIT ?
+      )`,
+      [MAX_SYNC_RUNS],
+    );
+    return id;
+  } catch (error) {
+    logWarn("Could not record the start of a sync run", error);
+    return null;
+  }
+};
+
+// Record how a sync run ended
+export const finishSyncRun = async (
+  id: string | null,
+  outcome: SyncRunOutcome,
+): Promise<void> => {
+  if (!id) return;
+  const finishedAt = new Date();
+  try {
+    await exec(
+      `UPDATE sync_runs SET
+        finished_at = ?,
+        status = ?,
+        synced_count = ?,
+        error_count = ?,
+        error_message = ?,
+        duration_ms = CAST(
+          (julianday(?) - julianday(started_at)) * 86400000 AS INTEGER
+        )
+       WHERE id = ?`,
+      [
+        finishedAt.toISOString(),
+        outcome.status,
+        outcome.syncedCount ?? 0,
+        outcome.errorCount ?? 0,
+        outcome.errorMessage ?? null,
+        finishedAt.toISOString(),
+        id,
+      ],
+    );
+  } catch (error) {
+    logWarn("Could not record the end of a sync run", error);
+  }
+};
+
+// Record a run that did not start, e.g. a background run skipped because of
+// a low battery
+export const recordSkippedSyncRun = async (
+  trigger: SyncTrigger,
+  direction: SyncRunDirection,
+  reason: string,
+): Promise<void> => {
+  const id = await startSyncRun(trigger, direction);
+  await finishSyncRun(id, { status: "skipped", errorMessage: reason });
+};
+
+// Get the most recent runs, newest first
+export const getSyncRuns = async (limit: number = 50): Promise<SyncRun[]> => {
+  const rows = await query(
+    `SELECT * FROM sync_runs ORDER BY started_at DESC LIMIT ?`,
+    [limit],
+  );
+  return rows.map(toSyncRun);
+};
+
+// Get the last run that uploaded successfully
+export const getLastSuccessfulUpload = async (): Promise<SyncRun | null> => {
+  const rows = await query(
+    `SELECT * FROM sync_runs
+     WHERE status = 'done' AND direction IN ('upload', 'full')
+     ORDER BY started_at DESC
+     LIMIT 1`,
+  );
+  return rows.length > 0 ? toSyncRun(rows[0]) : null;
+};
+
+// Runs left as "running" by an app that was killed mid-sync
+export const closeInterruptedSyncRuns = async (): Promise<void> => {
+  try {
+    await exec(
+      `UPDATE sync_runs
+       SET status = 'failed', error_message = 'Sincronização interrompida'
+       WHERE status = 'running'`,
+    );
+  } catch (error) {
+    logWarn("Could not close interrupted sync runs", error);
+  }
+};
@@ -0,0 +1,127 @@
+import {
+  SyncPolicy,
+  SyncWindow,
+  getStoredSyncPolicy,
+  saveSyncPolicy,
+  getLastSyncTime,
+} from "./storage";
+import { getSyncBackend, SyncPolicyRow } from "./syncBackend";
+import { logInfo, logError } from "./logger";
+
+// Sync policy: when the app downloads routes, when it uploads readings and
+// how often it may sync on its own. Teams work different shifts per city, so
+// the server keeps policies in `politicas_sincronizacao`, either for a single
+// leiturista or for a whole cidade. The policy that applies is downloaded
+// with the routes and stored locally, so it keeps working offline.
+
+// Used until a policy has been downloaded; these are the windows the app
+// has always used
+export const DEFAULT_SYNC_POLICY: SyncPolicy = {
+  source: "default",
+  downloadWindow: { start: "06:00", end: "10:00" },
+  uploadWindow: { start: "17:00", end: "20:00" },
+  minIntervalMinutes: 5,
+  syncOnReconnect: true,
+  updatedAt: new Date(0).toISOString(),
+};
+
+// Sync to run at a given time: routes in the download window, readings in
+// the upload window and a regular upload the rest of the day
+export type ScheduledSyncKind = "download" | "upload" | "regular";
+
+// Minutes since midnight for "HH:MM" (also accepts the "HH:MM:SS" the
+// server returns for time columns)
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Check whether a time of day falls inside a window
+export const isWithinWindow = (
+  window: SyncWindow | null,
+  date: Date = new Date(),
+): boolean => {
+  if (!window) return false;
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+// Get the policy in effect: the downloaded one, or the default
+export const getSyncPolicy = async (): Promise<SyncPolicy> =>
+  (await getStoredSyncPolicy()) || DEFAULT_SYNC_POLICY;
+
+// Decide which sync the policy asks for at a given time
+export const getScheduledSyncKind = (
+  policy: SyncPolicy,
+  date: Date = new Date(),
+): ScheduledSyncKind => {
+  if (isWithinWindow(policy.downloadWindow, date)) return "download";
+  if (isWithinWindow(policy.uploadWindow, date)) return "upload";
+  return "regular";
+};
+
+// Check whether enough time has passed since the last sync for the app to
+// sync on its own again
+export const isAutomaticSyncDue = async (
+  policy: SyncPolicy,
+  now: Date = new Date(),
+): Promise<boolean> => {
+  const lastSync = await getLastSyncTime();
+  if (!lastSync) return true;
+  const elapsedMs = now.getTime() - new Date(lastSync).getTime();
+  return elapsedMs >= policy.minIntervalMinutes * 60 * 1000;
+};
+
+const toWindow = (
+  start: string | null,
+  end: string | null,
+): SyncWindow | null => {
+  if (!start || !end) return null;
+  return { start: start.substring(0, 5), end: end.substring(0, 5) };
+};
+
+const fromRow = (row: SyncPolicyRow): SyncPolicy => ({
+  source: row.leiturista_id
+    ? `leiturista:${row.leiturista_id}`
+    : `cidade:${row.cidade}`,
+  downloadWindow: toWindow(row.download_inicio, row.download_fim),
+  uploadWindow: toWindow(row.upload_inicio, row.upload_fim),
+  minIntervalMinutes:
+    row.intervalo_minimo_minutos ?? DEFAULT_SYNC_POLICY.minIntervalMinutes,
+  syncOnReconnect:
+    row.sincronizar_ao_reconectar ?? DEFAULT_SYNC_POLICY.syncOnReconnect,
+  updatedAt: row.updated_at || new Date().toISOString(),
+});
+
+// Download the policy for a leiturista and store it. A policy for the
+// leiturista wins over one for their cidade; with neither, the default
+// applies again. Returns the policy in effect afterwards.
+export const downloadSyncPolicy = async (
+  leituristaId: string,
+  signal?: AbortSignal,
+): Promise<SyncPolicy> => {
+  try {
+    const { data: rows, error } = await getSyncBackend().fetchSyncPolicies(
+      leituristaId,
+      signal,
+    );
+    if (error) throw error;
+
+    const candidates = rows || [];
+    const row =
+      candidates.find((policy) => policy.leiturista_id === leituristaId) ||
+      candidates.find((policy) => !policy.leiturista_id);
+    const policy = row
+      ? fromRow(row)
+      : { ...DEFAULT_SYNC_POLICY, updatedAt: new Date().toISOString() };
+
+    await saveSyncPolicy(policy);
+    logInfo(`Sync policy updated from ${policy.source}`, policy);
+    return policy;
+  } catch (error) {
+    logError("Error downloading sync policy, keeping the stored one", error);
+    return getSyncPolicy();
+  }
+};
@@ -1,32 +1,64 @@
-import NetInfo from "@react-native-community/netinfo";
 import {
-  getPendingReadings,
+  enqueuePendingReadings,
+  repairReadingOwners,
   updateReadingSyncStatus,
+  confirmReadingSynced,
   saveLastSyncTime,
-  MeterReading,
-  removeSyncedReadings,
+  getSyncCursors,
+  saveSyncCursors,
+  SyncCursors,
+  isLocalPhotoPath,
 } from "./storage";
-import { supabase } from "./supabaseClient";
-import { query, exec } from "./database";
+import { syncPendingPhotos } from "./photoSync";
+import { reconcileUploadedReadings } from "./syncReconciliation";
+import { startSyncProgress, SyncProgressReporter } from "./syncProgress";
+import {
+  getSyncBackend,
+  ROUTE_TABLES,
+  ROUTE_TABLE_COLUMNS,
+  RouteTable,
+  ReadingPayload,
+} from "./syncBackend";
+import {
+  execBatch,
+  query,
+  Leitura,
+  SqlStatement,
+  getLeituraIdsAwaitingRevalidation,
+  getLeituraIdsMissingOwners,
+} from "./database";
+import {
+  getDueOutboxItems,
+  getOutboxStats,
+  completeOutboxItem,
+  failOutboxItem,
+} from "./outbox";
 import { logInfo, logError, logWarn, withRetry } from "./logger";
+import {
+  OfflineError,
+  RequestTimeoutError,
+  CursorExpiredError,
+  isRetryableError,
+  isPermanentError,
+} from "./networkErrors";
+import { RESILIENCE_CONFIG, consumeRetry, getRetryWait } from "./resilience";
+import {
+  ConnectionStateManager,
+  isUsableConnection,
+} from "./connectionState";
 
-// Check if device is online
+// Check whether the backend can be reached (online, or degraded but still
+// answering)
 export const checkOnlineStatus = async (): Promise<boolean> => {
   try {
-    const netInfo = await NetInfo.fetch();
-    // More defensive check - only return true if we're definitely connected
-    // and internet is definitely reachable
-    const isOnline =
-      netInfo.isConnected === true && netInfo.isInternetReachable === true;
-    logInfo(`Network status check: ${isOnline ? "online" : "offline"}`, {
-      netInfo,
-    });
+    const connection = await ConnectionStateManager.getInstance().check();
+    const isOnline = isUsableConnection(connection.status);
+    logInfo(`Network status check: ${connection.status}`, { connection });
     return isOnline;
   } catch (error) {
     logError("Error checking online status", error);
     return false;
   }
-  // Removed the finally block with gc() call as it's not necessary and could cause issues
 };
 
 // Simple delay function that works with AbortController
@@ -74,122 +106,474 @@ const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
   });
 };
 
-// Helper function to check if an error is a premature close error
-const isPrematureCloseError = (error: any): boolean => {
-  if (!error) return false;
-
-  const errorMessage = error.message?.toLowerCase() || "";
-  const errorString = error.toString().toLowerCase();
-
-  return (
-    errorMessage.includes("premature close") ||
-    errorString.includes("premature close") ||
-    errorMessage.includes("unexpected end of stream") ||
-    errorMessage.includes("unexpected end of file") ||
-    errorMessage.includes("connection closed") ||
-    errorMessage.includes("connection terminated") ||
-    errorMessage.includes("socket closed")
-  );
+// The retryable network error a request failed with, whether it threw or
+// resolved to a { data, error } result like supabase-js queries
+const getRetryableError = (outcome: any, thrown: boolean): any => {
+  const error = thrown ? outcome : outcome?.error;
+  return isRetryableError(error) ? error : null;
 };
 
-// Retry function specifically for handling premature close errors
-const retryOnPrematureClose = async <T>(
+// Retry a request while it fails with a retryable network error (connection
+// reset or premature close, timeout, offline, server error). Other failures,
+// such as the server rejecting the data, are returned at once. Attempts,
+// backoff and the sync's retry budget come from the resilience layer.
+const retryOnNetworkError = async <T>(
   operation: () => Promise<T>,
   options: {
-    maxRetries?: number;
-    initialDelay?: number;
-    maxDelay?: number;
     operationName?: string;
     signal?: AbortSignal;
   } = {},
 ): Promise<T> => {
-  const {
-    maxRetries = 5,
-    initialDelay = 1000,
-    maxDelay = 15000,
-    operationName = "operation",
-    signal,
-  } = options;
-
-  let lastError: any;
-  let delay = initialDelay;
-
-  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+  const { operationName = "operation", signal } = options;
+  const { operationAttempts } = RESILIENCE_CONFIG;
+
+  for (let attempt = 1; ; attempt++) {
+    // Check if operation was aborted
+    if (signal?.aborted) {
+      throw new Error("Operation aborted");
+    }
+
+    if (attempt > 1) {
+      logInfo(`Retry attempt ${attempt - 1} for ${operationName}`);
+    }
+
+    let outcome: any;
+    let thrown = false;
     try {
-      // Check if operation was aborted
-      if (signal?.aborted) {
-        throw new Error("Operation aborted");
+      outcome = await operation();
+    } catch (error) {
+      outcome = error;
+      thrown = true;
+    }
+
+    if (signal?.aborted) {
+      throw new Error("Operation aborted");
+    }
+
+    const error = getRetryableError(outcome, thrown);
+    if (!error) {
+      if (thrown) throw outcome;
+      return outcome;
+    }
+    const backoffDelay = getRetryWait(attempt, error);
+    if (
+      attempt >= operationAttempts ||
+      backoffDelay === null ||
+      !consumeRetry(operationName)
+    ) {
+      logError(`${operationName} failed after ${attempt} attempts`, {
+        error,
+      });
+      if (thrown) throw outcome;
+      return outcome;
+    }
+
+    logWarn(
+      `${operationName} failed (${error.kind}), retrying in ${backoffDelay}ms`,
+      { error, attempt },
+    );
+    await delay(backoffDelay, signal);
+  }
+};
+
+type RouteRow = { id: string; updated_at?: string | null; [key: string]: any };
+type RouteChanges = Record<RouteTable, RouteRow[]>;
+type RouteIds = Record<RouteTable, Set<string>>;
+type RouteQueryResult = { data: any; error: any };
+type RouteQueryRunner = (
+  buildQuery: () => PromiseLike<RouteQueryResult>,
+  operationName: string,
+) => Promise<RouteQueryResult>;
+
+// Page size for id listings; PostgREST caps responses at its max-rows
+// setting (1000 on Supabase), so larger results have to be paged
+const ID_PAGE_SIZE = 1000;
+
+// Check whether the cursors can be used for an incremental download. How
+// old a cursor may be is up to the server, which refuses expired ones.
+const needsFullDownload = (cursors: SyncCursors): boolean =>
+  ROUTE_TABLES.some((table) => !cursors[table]);
+
+// Embedded relations come back as an object or an array depending on the
+// foreign key direction
+const toArray = (value: any): any[] =>
+  Array.isArray(value) ? value : value ? [value] : [];
+
+// Keep only the local columns of a route row, plus its server timestamp
+const pickRouteRow = (table: RouteTable, source: any): RouteRow => {
+  const row: RouteRow = { id: source.id, updated_at: source.updated_at };
+  for (const column of ROUTE_TABLE_COLUMNS[table]) {
+    row[column] = source[column] ?? null;
+  }
+  return row;
+};
+
+// Turn the nested roteiros response of a full download into rows per table
+const flattenRouteTree = (
+  roteiros: any[],
+  leituristaId: string,
+): RouteChanges => {
+  const tables = Object.fromEntries(
+    ROUTE_TABLES.map((table) => [table, new Map<string, RouteRow>()]),
+  ) as Record<RouteTable, Map<string, RouteRow>>;
+
+  for (const r of roteiros) {
+    for (const rua of toArray(r.ruas)) {
+      for (const bairro of toArray(rua.bairros)) {
+        tables.bairros.set(bairro.id, pickRouteRow("bairros", bairro));
       }
+      tables.ruas.set(rua.id, pickRouteRow("ruas", rua));
 
-      if (attempt > 1) {
-        logInfo(
-          `Retry attempt ${attempt - 1} for ${operationName} after premature close`,
+      for (const res of toArray(rua.residencias)) {
+        tables.residencias.set(
+          res.id,
+          pickRouteRow("residencias", { ...res, rua_id: rua.id }),
         );
+        for (const cliente of toArray(res.clientes)) {
+          tables.clientes.set(
+            cliente.id,
+            pickRouteRow("clientes", { ...cliente, residencia_id: res.id }),
+          );
+        }
       }
+    }
+    tables.roteiros.set(
+      r.id,
+      pickRouteRow("roteiros", { ...r, leiturista_id: leituristaId }),
+    );
+  }
 
-      return await operation();
-    } catch (error) {
-      lastError = error;
+  return Object.fromEntries(
+    ROUTE_TABLES.map((table) => [table, Array.from(tables[table].values())]),
+  ) as RouteChanges;
+};
 
-      // Check if operation was aborted
-      if (signal?.aborted) {
-        throw new Error("Operation aborted");
+// Request the rows of every route table that changed since its cursor
+const fetchRouteChanges = async (
+  leituristaId: string,
+  cursors: SyncCursors,
+  runRequest: RouteQueryRunner,
+  signal: AbortSignal,
+): Promise<{ changes: RouteChanges | null; error: any }> => {
+  const backend = getSyncBackend();
+  const changes = {} as RouteChanges;
+
+  for (const table of ROUTE_TABLES) {
+    const { data, error } = await runRequest(
+      () =>
+        backend.fetchChanges(
+          table,
+          leituristaId,
+          cursors[table].cursor,
+          signal,
+        ),
+      `${table} changes fetch`,
+    );
+
+    if (error) {
+      return { changes: null, error };
+    }
+
+    changes[table] = (data || []).map((row: any) => pickRouteRow(table, row));
+    logInfo(`${changes[table].length} ${table} changed since last sync`);
+  }
+
+  return { changes, error: null };
+};
+
+// Request the ids of every row currently assigned to the reader. Deleted or
+// reassigned rows don't show up in a changes download, so this is what tells
+// us which local rows to remove.
+const fetchAssignedRouteIds = async (
+  leituristaId: string,
+  runRequest: RouteQueryRunner,
+  signal: AbortSignal,
+): Promise<{ assigned: RouteIds | null; error: any }> => {
+  const backend = getSyncBackend();
+  const assigned = {} as RouteIds;
+
+  for (const table of ROUTE_TABLES) {
+    const ids = new Set<string>();
+
+    for (let from = 0; ; from += ID_PAGE_SIZE) {
+      const { data, error } = await runRequest(
+        () =>
+          backend.fetchAssignedIds(
+            table,
+            leituristaId,
+            from,
+            ID_PAGE_SIZE,
+            signal,
+          ),
+        `${table} ids fetch`,
+      );
+
+      if (error) {
+        return { assigned: null, error };
       }
 
-      if (attempt <= maxRetries && isPrematureCloseError(error)) {
-        logWarn(
-          `${operationName} failed with premature close, retrying in ${delay}ms`,
-          {
-            error,
-            attempt,
-          },
-        );
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        delay = Math.min(delay * 2, maxDelay);
-      } else if (isPrematureCloseError(error)) {
-        logError(
-          `${operationName} failed after ${maxRetries} retries due to premature close`,
-          {
-            error,
-          },
-        );
-        throw error;
-      } else {
-        // Not a premature close error, don't retry
-        throw error;
+      const rows = data || [];
+      rows.forEach((row: any) => ids.add(row.id));
+      if (rows.length < ID_PAGE_SIZE) break;
+    }
+
+    assigned[table] = ids;
+  }
+
+  return { assigned, error: null };
+};
+
+// Ids of every row in a set of downloaded changes
+const getRouteIds = (changes: RouteChanges): RouteIds =>
+  Object.fromEntries(
+    ROUTE_TABLES.map((table) => [
+      table,
+      new Set(changes[table].map((row) => row.id)),
+    ]),
+  ) as RouteIds;
+
+// Local route rows that unsynced readings depend on. They are kept even when
+// the server no longer assigns them to this reader, until the readings are
+// uploaded.
+const UNSYNCED_LEITURAS = "FROM leituras WHERE sincronizado = 0";
+const PROTECTED_RUAS_QUERY = `
+  SELECT rua_id AS id FROM residencias
+  WHERE id IN (SELECT residencia_id ${UNSYNCED_LEITURAS})
+  UNION
+  SELECT rua_id AS id FROM roteiros
+  WHERE id IN (SELECT roteiro_id ${UNSYNCED_LEITURAS})`;
+const PROTECTED_ROUTE_QUERIES: Record<RouteTable, string> = {
+  bairros: `
+    SELECT bairro_id AS id FROM ruas
+    WHERE id IN (SELECT id FROM (${PROTECTED_RUAS_QUERY}))`,
+  ruas: PROTECTED_RUAS_QUERY,
+  residencias: `SELECT residencia_id AS id ${UNSYNCED_LEITURAS}`,
+  clientes: `SELECT cliente_id AS id ${UNSYNCED_LEITURAS}`,
+  roteiros: `SELECT roteiro_id AS id ${UNSYNCED_LEITURAS}`,
+};
+
+// Build the statements that remove local route rows no longer assigned to
+// the reader. The protection check is repeated in the statements themselves
+// so a reading saved while the download runs still keeps its rows.
+const buildPruneStatements = async (
+  assigned: RouteIds,
+): Promise<SqlStatement[]> => {
+  const statements: SqlStatement[] = [];
+
+  // Children first, so nothing is left pointing at a removed row
+  for (const table of [...ROUTE_TABLES].reverse()) {
+    const rows = await query(`SELECT id FROM ${table}`);
+    const protectedRows = await query(PROTECTED_ROUTE_QUERIES[table]);
+    const protectedIds = new Set(protectedRows.map((row: any) => row.id));
+
+    const unassigned: string[] = rows
+      .map((row: any) => row.id)
+      .filter((id: string) => !assigned[table].has(id));
+    const stale = unassigned.filter((id) => !protectedIds.has(id));
+    const kept = unassigned.length - stale.length;
+
+    if (kept > 0) {
+      logInfo(
+        `Keeping ${kept} unassigned ${table} referenced by unsynced readings`,
+      );
+    }
+    if (stale.length > 0) {
+      logInfo(`Removing ${stale.length} ${table} no longer assigned`);
+    }
+
+    // Stay well below SQLite's limit of 999 bound parameters
+    for (let i = 0; i < stale.length; i += 500) {
+      const chunk = stale.slice(i, i + 500);
+      statements.push([
+        `DELETE FROM ${table}
+         WHERE id IN (${chunk.map(() => "?").join(", ")})
+           AND id NOT IN (
+             SELECT id FROM (${PROTECTED_ROUTE_QUERIES[table]})
+             WHERE id IS NOT NULL
+           )`,
+        chunk,
+      ]);
+    }
+  }
+
+  return statements;
+};
+
+// A route pointing at a street we don't have locally means the street was
+// just assigned to this reader
+const hasUnknownRuas = async (changes: RouteChanges): Promise<boolean> => {
+  const ruaIds = Array.from(new Set(changes.roteiros.map((r) => r.rua_id)));
+  if (ruaIds.length === 0) return false;
+
+  const known = await query(
+    `SELECT id FROM ruas WHERE id IN (${ruaIds.map(() => "?").join(", ")})`,
+    ruaIds,
+  );
+  return known.length < ruaIds.length;
+};
+
+// Build the statement that writes a downloaded row, replacing the local copy
+const buildRouteRowUpsert = (
+  table: RouteTable,
+  row: RouteRow,
+): SqlStatement => {
+  const columns = ROUTE_TABLE_COLUMNS[table];
+  return [
+    `INSERT OR REPLACE INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+    columns.map((column) => row[column]),
+  ];
+};
+
+// Move each table's cursor to the newest updated_at that was downloaded
+const advanceCursors = (
+  cursors: SyncCursors,
+  changes: RouteChanges,
+): SyncCursors => {
+  const syncedAt = new Date().toISOString();
+  const next: SyncCursors = {};
+
+  for (const table of ROUTE_TABLES) {
+    let cursor = cursors[table]?.cursor || new Date(0).toISOString();
+    for (const row of changes[table]) {
+      if (row.updated_at && row.updated_at > cursor) {
+        cursor = row.updated_at;
       }
     }
+    next[table] = { cursor, syncedAt };
   }
 
-  throw lastError;
+  return next;
 };
 
-// Download data from Supabase to SQLite (morning sync)
-export async function syncFromSupabase(leituristaId: string): Promise<{
+// Rough size of a response body, for progress reporting
+const estimateBytes = (data: any): number => {
+  try {
+    return data ? JSON.stringify(data).length : 0;
+  } catch {
+    return 0;
+  }
+};
+
+// Options accepted by the sync entry points
+export interface SyncOptions {
+  // Cancels the sync when aborted
+  signal?: AbortSignal;
+  // Cancels the sync when it takes longer than this
+  timeoutMs?: number;
+}
+
+// Result of a sync run that went to the end, successfully or not
+export interface SyncCompletedResult {
+  cancelled?: false;
   success: boolean;
   syncedCount: number;
   errorCount: number;
-}> {
+  // What the sync failed with, as the transport reported it (for uploads,
+  // the last reading that failed)
+  error?: unknown;
+}
+
+// Result of a sync run that was stopped by its caller or by the timeout
+export interface SyncCancelledResult {
+  cancelled: true;
+  reason: "aborted" | "timeout";
+  success: false;
+  syncedCount: number;
+  errorCount: number;
+}
+
+export type SyncResult = SyncCompletedResult | SyncCancelledResult;
+
+// Default time a sync run may take before it is cancelled
+export const DEFAULT_SYNC_TIMEOUT_MS = 120000;
+
+// Abort a sync's own controller when the caller's signal is aborted.
+// Returns a function that stops following the caller's signal.
+const followCallerSignal = (
+  controller: AbortController,
+  callerSignal?: AbortSignal,
+): (() => void) => {
+  if (!callerSignal) return () => {};
+  if (callerSignal.aborted) {
+    controller.abort();
+    return () => {};
+  }
+  const onAbort = () => controller.abort();
+  callerSignal.addEventListener("abort", onAbort, { once: true });
+  return () => callerSignal.removeEventListener("abort", onAbort);
+};
+
+// Publish the final state of a sync run
+const finishProgress = (
+  progress: SyncProgressReporter,
+  result: SyncResult,
+): void => {
+  if (result.cancelled) {
+    progress.error(
+      result.reason === "timeout"
+        ? "Tempo limite da sincronização excedido"
+        : "Sincronização cancelada",
+    );
+    progress.finish("cancelled");
+  } else {
+    progress.finish(result.success ? "done" : "failed");
+  }
+};
+
+// Download data from Supabase to SQLite (morning sync)
+export async function syncFromSupabase(
+  leituristaId: string,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const progress = startSyncProgress("download");
+  const result = await runSyncFromSupabase(leituristaId, options, progress);
+  finishProgress(progress, result);
+  return result;
+}
+
+async function runSyncFromSupabase(
+  leituristaId: string,
+  options: SyncOptions,
+  progress: SyncProgressReporter,
+): Promise<SyncResult> {
   logInfo(`Starting syncFromSupabase for leiturista: ${leituristaId}`);
   let supabaseResponse = null;
   const abortController = new AbortController();
   const signal = abortController.signal;
+  const { timeoutMs = DEFAULT_SYNC_TIMEOUT_MS } = options;
+  let cancelReason: SyncCancelledResult["reason"] = "aborted";
+  const stopFollowingCaller = followCallerSignal(
+    abortController,
+    options.signal,
+  );
   // Track active requests to ensure proper cleanup
   const activeRequests: Array<{ cancel: () => void }> = [];
 
   try {
+    // The caller may have cancelled before we started
+    if (signal.aborted) {
+      throw new Error("Sync operation was aborted");
+    }
+
     // Check if online
     const isOnline = await checkOnlineStatus();
     if (!isOnline) {
       logWarn("Device is offline, cannot sync from Supabase");
-      return { success: false, syncedCount: 0, errorCount: 0 };
+      progress.error("Dispositivo offline");
+      return {
+        success: false,
+        syncedCount: 0,
+        errorCount: 0,
+        error: new OfflineError(),
+      };
     }
     logInfo("Device is online, proceeding with sync from Supabase");
 
-    // Set a global timeout for the entire operation - increased from 60s to 120s
+    // Set a global timeout for the entire operation
     const globalTimeout = setTimeout(() => {
       try {
         logWarn("Global timeout reached for syncFromSupabase operation");
+        cancelReason = "timeout";
         abortController.abort();
         // Cancel all active requests
         activeRequests.forEach((req) => {
@@ -202,11 +586,14 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
       } catch (abortError) {
         console.error("Error aborting sync operation:", abortError);
       }
-    }, 120000); // 120 second global timeout (increased from 60s)
+    }, timeoutMs);
 
     try {
-      // Create a cancellable request wrapper
-      const makeRequest = () => {
+      // Create a cancellable request wrapper around a Supabase query
+      const makeRequest = (
+        buildQuery: () => PromiseLike<{ data: any; error: any }>,
+        operationName: string,
+      ) => {
         let isCancelled = false;
 
         const promise = new Promise<any>(async (resolve) => {
@@ -225,21 +612,10 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
           }
 
           try {
-            // Wrap the Supabase request in our retry function for premature close errors
+            // Wrap the request in our retry function for network errors
             const fetchWithRetry = async () => {
-              // Baixar roteiro do leiturista - with timeout to prevent hanging connections
-              const fetchPromise = supabase
-                .from("roteiros")
-                .select(
-                  `
-                  id, dia_semana,
-                  ruas(id, nome, bairro_id),
-                  ruas:bairro_id(id, nome, cidade),
-                  ruas(residencias(id, numero, clientes(id, nome, telefone, email, cpf)))
-                `,
-                )
-                .eq("leiturista_id", leituristaId)
-                .abortSignal(signal); // Add abort signal to the request
+              // Run the query - with timeout to prevent hanging connections
+              const fetchPromise = buildQuery();
 
               // Add a timeout to prevent hanging connections
               const timeoutPromise = new Promise<{ data: null; error: Error }>(
@@ -249,7 +625,9 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
                       logWarn("Supabase request timeout reached");
                       safeResolve({
                         data: null,
-                        error: new Error("Supabase request timeout"),
+                        error: new RequestTimeoutError(
+                          "Supabase request timeout",
+                        ),
                       });
                     },
                     30000, // Increased timeout from 20s to 30s
@@ -275,11 +653,9 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
               return Promise.race([fetchPromise, timeoutPromise]);
             };
 
-            // Use our retry function for premature close errors
-            const result = await retryOnPrematureClose(fetchWithRetry, {
-              maxRetries: 3,
-              initialDelay: 2000,
-              operationName: "Supabase roteiros fetch",
+            // Retry while the request fails with a retryable network error
+            const result = await retryOnNetworkError(fetchWithRetry, {
+              operationName,
               signal,
             });
 
@@ -293,7 +669,7 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
 
             safeResolve(result);
           } catch (error) {
-            logError("Error fetching roteiros with retry", error);
+            logError(`Error in ${operationName} with retry`, error);
             safeResolve({ data: null, error });
           }
         });
@@ -308,161 +684,153 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
         };
       };
 
-      // Create and track the request
-      const request = makeRequest();
-      activeRequests.push(request);
-
-      // Wait for the request to complete with error handling
-      try {
-        supabaseResponse = await request.promise;
-      } catch (promiseError) {
-        console.error("Error in request promise:", promiseError);
-        supabaseResponse = { data: null, error: promiseError };
-      }
-
-      // Remove from active requests
-      const index = activeRequests.indexOf(request);
-      if (index !== -1) {
-        activeRequests.splice(index, 1);
-      }
-
-      const { data: roteiros, error } = supabaseResponse;
-
-      if (error) {
-        logError("Erro ao baixar dados do Supabase", error);
-        return { success: false, syncedCount: 0, errorCount: 1 };
-      }
-
-      if (!roteiros || roteiros.length === 0) {
-        logInfo(`Nenhum roteiro encontrado para o leiturista: ${leituristaId}`);
-        return { success: true, syncedCount: 0, errorCount: 0 };
-      }
-
-      let syncedCount = 0;
-      let errorCount = 0;
-
-      // Process in smaller batches to avoid long-running transactions
-      // Increased batch size from 2 to 4 to further reduce number of connections while still keeping batches manageable
-      const batchSize = 4;
-      logInfo(`Syncing ${roteiros.length} routes in batches of ${batchSize}`);
+      // Create, track and wait for a request
+      const runRequest: RouteQueryRunner = async (
+        buildQuery,
+        operationName,
+      ) => {
+        const request = makeRequest(buildQuery, operationName);
+        activeRequests.push(request);
+        progress.update({ currentEntity: operationName });
+
+        // Wait for the request to complete with error handling
+        let response;
+        try {
+          response = await request.promise;
+        } catch (promiseError) {
+          console.error("Error in request promise:", promiseError);
+          response = { data: null, error: promiseError };
+        }
 
-      for (let i = 0; i < roteiros.length; i += batchSize) {
-        // Check if operation was aborted
-        if (signal.aborted) {
-          throw new Error("Sync operation was aborted");
+        // Remove from active requests
+        const index = activeRequests.indexOf(request);
+        if (index !== -1) {
+          activeRequests.splice(index, 1);
         }
 
-        const batch = roteiros.slice(i, i + batchSize);
-        logInfo(
-          `Processing route batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(roteiros.length / batchSize)}, items: ${batch.length}`,
-        );
+        progress.advance(1, estimateBytes(response?.data));
+        if (response?.error) {
+          progress.error(response.error.message || String(response.error));
+        }
 
-        for (const r of batch) {
-          try {
-            // Check if operation was aborted
-            if (signal.aborted) {
-              throw new Error("Sync operation was aborted");
-            }
+        return response;
+      };
 
-            // Inserir roteiro
-            await exec(
-              `INSERT OR IGNORE INTO roteiros (id, leiturista_id, rua_id, dia_semana) VALUES (?, ?, ?, ?)`,
-              [r.id, leituristaId, r.ruas.id, r.dia_semana],
-            );
+      // Download only what changed since the last sync when we can
+      const cursors = await getSyncCursors();
+      let changes: RouteChanges | null = null;
+      let assigned: RouteIds | null = null;
+      let isFullDownload = needsFullDownload(cursors);
+
+      if (!isFullDownload) {
+        logInfo("Downloading route changes since last sync", cursors);
+        // One request per table for the changes, at least one more for ids
+        progress.phase("downloading", ROUTE_TABLES.length * 2);
+        const delta = await fetchRouteChanges(
+          leituristaId,
+          cursors,
+          runRequest,
+          signal,
+        );
 
-            // Inserir bairro
-            await exec(
-              `INSERT OR IGNORE INTO bairros (id, nome, cidade) VALUES (?, ?, ?)`,
-              [
-                r.ruas.bairro_id.id,
-                r.ruas.bairro_id.nome,
-                r.ruas.bairro_id.cidade,
-              ],
-            );
+        const current = delta.error
+          ? null
+          : await fetchAssignedRouteIds(leituristaId, runRequest, signal);
 
-            // Inserir rua
-            await exec(
-              `INSERT OR IGNORE INTO ruas (id, nome, bairro_id) VALUES (?, ?, ?)`,
-              [r.ruas.id, r.ruas.nome, r.ruas.bairro_id.id],
+        if (delta.error || current?.error) {
+          if (signal.aborted) {
+            throw new Error("Sync operation was aborted");
+          }
+          if (delta.error instanceof CursorExpiredError) {
+            logInfo("Cursor expired on the server, downloading everything");
+          } else {
+            logWarn(
+              "Incremental download failed, falling back to full download",
+              delta.error || current?.error,
             );
+          }
+          isFullDownload = true;
+        } else if (await hasUnknownRuas(delta.changes)) {
+          // A street newly assigned to this reader: its residences and
+          // customers may be older than the cursor, so fetch everything
+          logInfo("New streets assigned, falling back to full download");
+          isFullDownload = true;
+        } else {
+          changes = delta.changes;
+          assigned = current!.assigned;
+        }
+      }
 
-            syncedCount++;
+      if (isFullDownload) {
+        logInfo("Downloading full route data");
+        progress.phase("downloading", 1);
+        supabaseResponse = await runRequest(
+          () => getSyncBackend().fetchRoutes(leituristaId, signal),
+          "Roteiros fetch",
+        );
 
-            // Inserir residências e clientes - process in smaller batches
-            const residencias = r.ruas.residencias || [];
-            // Increased batch size from 5 to 10 to further reduce number of connections while still keeping batches manageable
-            const resBatchSize = 10; // Process multiple at a time to reduce connection overhead
-            logInfo(
-              `Processing ${residencias.length} residences in batches of ${resBatchSize}`,
-            );
+        const { data: roteiros, error } = supabaseResponse;
 
-            for (let j = 0; j < residencias.length; j += resBatchSize) {
-              // Check if operation was aborted
-              if (signal.aborted) {
-                throw new Error("Sync operation was aborted");
-              }
+        if (error) {
+          logError("Erro ao baixar dados do Supabase", error);
+          return { success: false, syncedCount: 0, errorCount: 1, error };
+        }
 
-              const resBatch = residencias.slice(j, j + resBatchSize);
+        if (!roteiros || roteiros.length === 0) {
+          // Nothing assigned anymore; still reconcile so old routes go away
+          logInfo(
+            `Nenhum roteiro encontrado para o leiturista: ${leituristaId}`,
+          );
+        }
 
-              for (const res of resBatch) {
-                try {
-                  // Check if operation was aborted
-                  if (signal.aborted) {
-                    throw new Error("Sync operation was aborted");
-                  }
+        // A full download is the complete assignment of the reader
+        changes = flattenRouteTree(roteiros || [], leituristaId);
+        assigned = getRouteIds(changes);
+      }
 
-                  await exec(
-                    `INSERT OR IGNORE INTO residencias (id, rua_id, numero) VALUES (?, ?, ?)`,
-                    [res.id, r.ruas.id, res.numero],
-                  );
+      // Write tables in dependency order and remove what is no longer
+      // assigned, all in one transaction: a download that fails halfway
+      // leaves the previous route data untouched
+      const statements: SqlStatement[] = [];
+      for (const table of ROUTE_TABLES) {
+        const rows = changes![table];
+        if (rows.length > 0) {
+          logInfo(`Syncing ${rows.length} ${table}`);
+        }
+        rows.forEach((row) =>
+          statements.push(buildRouteRowUpsert(table, row)),
+        );
+      }
+      const syncedCount = statements.length;
+      statements.push(...(await buildPruneStatements(assigned!)));
 
-                  if (res.clientes) {
-                    await exec(
-                      `INSERT OR IGNORE INTO clientes (id, nome, telefone, email, cpf, residencia_id) VALUES (?, ?, ?, ?, ?, ?)`,
-                      [
-                        res.clientes.id,
-                        res.clientes.nome,
-                        res.clientes.telefone,
-                        res.clientes.email,
-                        res.clientes.cpf,
-                        res.id,
-                      ],
-                    );
-                  }
-                } catch (resError) {
-                  console.error(
-                    "Erro ao inserir residência/cliente:",
-                    resError,
-                  );
-                  errorCount++;
-                }
-              }
+      // Check if operation was aborted
+      if (signal.aborted) {
+        throw new Error("Sync operation was aborted");
+      }
 
-              // Shorter delay between batches since we're processing more items per batch
-              // Increased delay from 300ms to 500ms to give more breathing room between batches
-              await delay(500, signal);
-              logInfo(
-                `Completed residence batch ${Math.floor(j / resBatchSize) + 1}/${Math.ceil(residencias.length / resBatchSize)}`,
-              );
-            }
-          } catch (rotError) {
-            // Check if this was an abort error
-            if (signal.aborted) {
-              throw rotError; // Re-throw to be caught by outer try/catch
-            }
-            console.error("Erro ao inserir roteiro/bairro/rua:", rotError);
-            errorCount++;
-          }
+      progress.phase("writing", statements.length);
+      try {
+        await execBatch(statements, signal);
+        progress.advance(statements.length);
+      } catch (writeError: any) {
+        if (signal.aborted) {
+          throw writeError; // Nothing was written; report the cancellation
         }
-
-        // Adjusted delay between batches based on batch size
-        // Increased delay from 800ms to 1200ms to give more breathing room between route batches
-        await delay(1200, signal);
-        logInfo(
-          `Completed route batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(roteiros.length / batchSize)}`,
-        );
+        logError("Erro ao gravar dados do Supabase", writeError);
+        progress.error(writeError?.message || String(writeError));
+        return {
+          success: false,
+          syncedCount: 0,
+          errorCount: 1,
+          error: writeError,
+        };
       }
 
+      // Only move the cursors forward once everything was written, so a
+      // failed download is repeated in full next time
+      await saveSyncCursors(advanceCursors(cursors, changes!));
+
       // Update last sync time
       try {
         await saveLastSyncTime(new Date().toISOString());
@@ -472,9 +840,8 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
 
       logInfo("📥 Dados sincronizados do Supabase com sucesso!", {
         syncedCount,
-        errorCount,
       });
-      return { success: errorCount === 0, syncedCount, errorCount };
+      return { success: true, syncedCount, errorCount: 0 };
     } finally {
       // Clear the global timeout
       clearTimeout(globalTimeout);
@@ -499,11 +866,19 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
       console.error(
         "Sync operation was aborted due to timeout or manual cancellation",
       );
-      return { success: false, syncedCount: 0, errorCount: -2 }; // Special code for aborted
+      return {
+        cancelled: true,
+        reason: cancelReason,
+        success: false,
+        syncedCount: 0,
+        errorCount: 0,
+      };
     }
     console.error("Erro na sincronização do Supabase para SQLite:", error);
-    return { success: false, syncedCount: 0, errorCount: 1 };
+    return { success: false, syncedCount: 0, errorCount: 1, error };
   } finally {
+    stopFollowingCaller();
+
     // Ensure any pending connections are properly closed
     try {
       // Add a small delay before nullifying to allow any pending operations to complete
@@ -548,31 +923,84 @@ export async function syncFromSupabase(leituristaId: string): Promise<{
   }
 }
 
+// Result of a single reading upload; `data` holds the rows echoed by the server
+type ReadingUploadResult = {
+  data?: Array<{ id: string; versao: number | null }> | null;
+  error: any | null;
+};
+
 // Upload data from SQLite to Supabase (evening sync)
-export async function syncToSupabase(): Promise<{
-  success: boolean;
-  syncedCount: number;
-  errorCount: number;
-}> {
+export async function syncToSupabase(
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const progress = startSyncProgress("upload");
+  const result = await runSyncToSupabase(options, progress);
+  if (!result.cancelled && !options.signal?.aborted) {
+    await verifyUploads(options.signal, progress);
+  }
+  finishProgress(progress, result);
+  return result;
+}
+
+// Check the uploaded readings against the server and queue the ones it is
+// missing. A failed check is only logged; the upload itself went through.
+async function verifyUploads(
+  signal: AbortSignal | undefined,
+  progress: SyncProgressReporter,
+): Promise<void> {
+  progress.phase("verifying");
+  try {
+    const confirmation = await reconcileUploadedReadings({ signal });
+    progress.update({
+      done: confirmation.confirmedCount,
+      total: confirmation.expectedCount,
+    });
+  } catch (error) {
+    logWarn("Could not confirm uploaded readings with the server", error);
+  }
+}
+
+async function runSyncToSupabase(
+  options: SyncOptions,
+  progress: SyncProgressReporter,
+): Promise<SyncResult> {
   logInfo("Starting syncToSupabase");
   const abortController = new AbortController();
   const signal = abortController.signal;
+  const { timeoutMs = DEFAULT_SYNC_TIMEOUT_MS } = options;
+  let cancelReason: SyncCancelledResult["reason"] = "aborted";
+  const stopFollowingCaller = followCallerSignal(
+    abortController,
+    options.signal,
+  );
   // Track active requests to ensure proper cleanup
   const activeRequests: Array<{ cancel: () => void }> = [];
 
   try {
+    // The caller may have cancelled before we started
+    if (signal.aborted) {
+      throw new Error("Sync operation was aborted");
+    }
+
     // Check if online
     const isOnline = await checkOnlineStatus();
     if (!isOnline) {
       logWarn("Device is offline, cannot sync to Supabase");
-      return { success: false, syncedCount: 0, errorCount: 0 };
+      progress.error("Dispositivo offline");
+      return {
+        success: false,
+        syncedCount: 0,
+        errorCount: 0,
+        error: new OfflineError(),
+      };
     }
     logInfo("Device is online, proceeding with sync to Supabase");
 
-    // Set a global timeout for the entire operation - increased from 60s to 120s
+    // Set a global timeout for the entire operation
     const globalTimeout = setTimeout(() => {
       try {
         logWarn("Global timeout reached for syncToSupabase operation");
+        cancelReason = "timeout";
         abortController.abort();
         // Cancel all active requests
         activeRequests.forEach((req) => {
@@ -585,42 +1013,81 @@ export async function syncToSupabase(): Promise<{
       } catch (abortError) {
         console.error("Error aborting sync operation:", abortError);
       }
-    }, 120000); // 120 second global timeout (increased from 60s)
+    }, timeoutMs);
 
     try {
-      // Get all pending readings from leituras table
-      const leiturasPendentes = await query(
-        `SELECT * FROM leituras WHERE sincronizado = 0`,
+      // Queue readings that are not in the outbox yet
+      const enqueuedCount = await enqueuePendingReadings();
+      if (enqueuedCount > 0) {
+        logInfo(`Queued ${enqueuedCount} pending readings in the outbox`);
+      }
+
+      // Upload photos first: readings whose photo made it are queued again
+      // with the photo's object key and go out in this same run
+      const photoResult = await syncPendingPhotos({ signal, progress });
+      if (photoResult.errorCount > 0) {
+        logWarn(`${photoResult.errorCount} photos failed to upload`);
+      }
+
+      // Only upload items whose retry time has come; failed items wait out
+      // their backoff and poisoned items are skipped until requeued
+      // Readings taken after an offline login stay queued until their user
+      // is validated online
+      const heldIds = await getLeituraIdsAwaitingRevalidation();
+      if (heldIds.size > 0) {
+        logInfo(
+          `${heldIds.size} readings held until their offline login is validated`,
+        );
+      }
+      // Readings whose residence, customer or reader is unknown stay queued,
+      // without using up attempts, until the routes downloaded fill them in
+      const repairedCount = await repairReadingOwners();
+      if (repairedCount > 0) {
+        logInfo(`Owners of ${repairedCount} readings filled in`);
+      }
+      const unownedIds = await getLeituraIdsMissingOwners();
+      if (unownedIds.size > 0) {
+        logWarn(
+          `${unownedIds.size} readings held until their owners are known`,
+        );
+      }
+      const outboxItems = (await getDueOutboxItems<Leitura>("leitura")).filter(
+        (item) => !heldIds.has(item.entityId) && !unownedIds.has(item.entityId),
       );
 
-      if (!leiturasPendentes || leiturasPendentes.length === 0) {
-        logInfo("Nenhuma leitura pendente para sincronizar");
+      if (!outboxItems || outboxItems.length === 0) {
+        const outboxStats = await getOutboxStats();
+        logInfo("Nenhuma leitura pendente para sincronizar", outboxStats);
         return { success: true, syncedCount: 0, errorCount: 0 };
       }
 
       let syncedCount = 0;
       let errorCount = 0;
+      let lastError: unknown;
+      progress.phase("uploading-readings", outboxItems.length);
 
       // Process in smaller batches to avoid overwhelming the connection
       // Increased batch size from 3 to 5 to further reduce number of connections while still keeping batches manageable
       const batchSize = 5;
       logInfo(
-        `Syncing ${leiturasPendentes.length} readings in batches of ${batchSize}`,
+        `Syncing ${outboxItems.length} readings in batches of ${batchSize}`,
       );
 
-      for (let i = 0; i < leiturasPendentes.length; i += batchSize) {
+      for (let i = 0; i < outboxItems.length; i += batchSize) {
         // Check if operation was aborted
         if (signal.aborted) {
           throw new Error("Sync operation was aborted");
         }
 
-        const batch = leiturasPendentes.slice(i, i + batchSize);
+        const batch = outboxItems.slice(i, i + batchSize);
         logInfo(
-          `Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(leiturasPendentes.length / batchSize)}, items: ${batch.length}`,
+          `Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(outboxItems.length / batchSize)}, items: ${batch.length}`,
         );
 
         // Process batch sequentially to avoid connection issues
-        for (const leitura of batch) {
+        for (const item of batch) {
+          const leitura = item.payload;
+          progress.update({ currentEntity: leitura.id });
           try {
             // Check if operation was aborted
             if (signal.aborted) {
@@ -631,11 +1098,11 @@ export async function syncToSupabase(): Promise<{
             const makeRequest = () => {
               let isCancelled = false;
 
-              const promise = new Promise<{ error: any | null }>(
+              const promise = new Promise<ReadingUploadResult>(
                 async (resolve) => {
                   // Track if this request has been resolved to prevent multiple resolutions
                   let isResolved = false;
-                  const safeResolve = (result: { error: any | null }) => {
+                  const safeResolve = (result: ReadingUploadResult) => {
                     if (!isResolved) {
                       isResolved = true;
                       resolve(result);
@@ -648,23 +1115,20 @@ export async function syncToSupabase(): Promise<{
                   }
 
                   try {
-                    // Wrap the Supabase insert in our retry function for premature close errors
+                    // Wrap the insert in our retry function for network errors
                     const insertWithRetry = async () => {
-                      // Ensure required fields have default values if they're null or undefined
-                      const defaultResidenciaId = "default-residencia-id";
-                      const defaultClienteId = "default-cliente-id";
-                      const defaultLeituristaId = "default-leiturista-id";
-
-                      // Prepare payload with default values for required fields
-                      const payload = {
+                      // Readings without owners are held back above
+                      const payload: ReadingPayload = {
                         id: leitura.id,
-                        residencia_id:
-                          leitura.residencia_id || defaultResidenciaId,
-                        cliente_id: leitura.cliente_id || defaultClienteId,
-                        leiturista_id:
-                          leitura.leiturista_id || defaultLeituristaId,
+                        residencia_id: leitura.residencia_id,
+                        cliente_id: leitura.cliente_id,
+                        leiturista_id: leitura.leiturista_id,
                         leitura_valor: leitura.leitura_valor,
-                        foto_path: leitura.foto_path,
+                        // Local file paths mean nothing to the server; the
+                        // object key is sent once the photo is uploaded
+                        foto_path: isLocalPhotoPath(leitura.foto_path)
+                          ? null
+                          : leitura.foto_path,
                         status: leitura.status || "pendente",
                         data_leitura:
                           leitura.data_leitura ||
@@ -673,6 +1137,7 @@ export async function syncToSupabase(): Promise<{
                           leitura.hora_leitura ||
                           new Date().toTimeString().split(" ")[0],
                         sincronizado: true,
+                        versao: leitura.versao || 1,
                       };
 
                       logInfo(
@@ -680,11 +1145,13 @@ export async function syncToSupabase(): Promise<{
                         { payload },
                       );
 
-                      // Add timeout to prevent hanging connections
-                      const insertPromise = supabase
-                        .from("leituras")
-                        .insert([payload])
-                        .abortSignal(signal); // Add abort signal to the request
+                      // The server returns the stored row so the reading is
+                      // only marked synced on an explicit ack of this
+                      // version.
+                      const insertPromise = getSyncBackend().upsertReadings(
+                        [payload],
+                        signal,
+                      );
 
                       // Add a timeout to prevent hanging connections
                       const timeoutPromise = new Promise<{ error: Error }>(
@@ -693,7 +1160,9 @@ export async function syncToSupabase(): Promise<{
                             () => {
                               logWarn("Supabase insert timeout reached");
                               safeResolve({
-                                error: new Error("Supabase insert timeout"),
+                                error: new RequestTimeoutError(
+                                  "Supabase insert timeout",
+                                ),
                               });
                             },
                             25000, // Increased timeout from 15s to 25s
@@ -718,12 +1187,10 @@ export async function syncToSupabase(): Promise<{
                       return Promise.race([insertPromise, timeoutPromise]);
                     };
 
-                    // Use our retry function for premature close errors
-                    const result = await retryOnPrematureClose(
+                    // Retry while the request fails with a retryable error
+                    const result = await retryOnNetworkError(
                       insertWithRetry,
                       {
-                        maxRetries: 3,
-                        initialDelay: 2000,
                         operationName: `Supabase leitura insert (ID: ${leitura.id})`,
                         signal,
                       },
@@ -761,9 +1228,26 @@ export async function syncToSupabase(): Promise<{
 
             // Wait for the request to complete with error handling
             let error = null;
+            let acknowledged = false;
+            const sentVersion = leitura.versao || 1;
             try {
               const result = await request.promise;
               error = result.error;
+              // The server acknowledges the upload by echoing the reading id
+              // with the version that was sent, or with the newer one it kept
+              // when this version arrived late
+              acknowledged =
+                !error &&
+                Array.isArray(result.data) &&
+                result.data.some(
+                  (row) =>
+                    row.id === leitura.id && (row.versao ?? 1) >= sentVersion,
+                );
+              if (!error && !acknowledged) {
+                error = new Error(
+                  "Servidor não confirmou o recebimento da leitura",
+                );
+              }
             } catch (promiseError) {
               console.error("Error in request promise:", promiseError);
               error = promiseError;
@@ -775,12 +1259,25 @@ export async function syncToSupabase(): Promise<{
               activeRequests.splice(index, 1);
             }
 
-            if (!error) {
-              await exec(`UPDATE leituras SET sincronizado = 1 WHERE id = ?`, [
+            // A request cut off by the cancellation didn't fail, so the
+            // reading keeps its attempts
+            if (signal.aborted) {
+              throw new Error("Sync operation was aborted");
+            }
+
+            if (acknowledged) {
+              // If the reading was edited during the upload its outbox item
+              // has already been replaced by the newer version; keep it
+              const isCurrent = await confirmReadingSynced(
                 leitura.id,
-              ]);
+                sentVersion,
+              );
+              if (isCurrent) {
+                await completeOutboxItem(item.id);
+              }
               logInfo(`Successfully synced leitura with ID: ${leitura.id}`);
               syncedCount++;
+              progress.advance(1, estimateBytes(leitura));
             } else {
               // Enhanced error logging with more details
               const errorDetails = {
@@ -799,7 +1296,20 @@ export async function syncToSupabase(): Promise<{
                 errorDetails,
               );
               console.error("Erro ao sincronizar leitura:", leitura.id, error);
+              await failOutboxItem(
+                item,
+                error.message || String(error),
+                isPermanentError(error),
+              );
+              await updateReadingSyncStatus(
+                leitura.id,
+                "error",
+                error.message || String(error),
+              );
               errorCount++;
+              lastError = error;
+              progress.error(error.message || String(error));
+              progress.advance();
             }
           } catch (error) {
             // Check if this was an abort error
@@ -807,7 +1317,23 @@ export async function syncToSupabase(): Promise<{
               throw error; // Re-throw to be caught by outer try/catch
             }
             console.error("Erro ao processar leitura:", leitura.id, error);
+            // Keep the reading pending with the reason for the next attempt
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            try {
+              await failOutboxItem(
+                item,
+                errorMessage,
+                isPermanentError(error),
+              );
+            } catch (outboxError) {
+              console.error("Erro ao atualizar outbox:", outboxError);
+            }
+            await updateReadingSyncStatus(leitura.id, "error", errorMessage);
             errorCount++;
+            lastError = error;
+            progress.error(errorMessage);
+            progress.advance();
           }
         }
 
@@ -815,7 +1341,7 @@ export async function syncToSupabase(): Promise<{
         // Increased delay from 800ms to 1200ms to give more breathing room between batches
         await delay(1200, signal);
         logInfo(
-          `Completed reading batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(leiturasPendentes.length / batchSize)}`,
+          `Completed reading batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(outboxItems.length / batchSize)}`,
         );
       }
 
@@ -830,7 +1356,12 @@ export async function syncToSupabase(): Promise<{
         syncedCount,
         errorCount,
       });
-      return { success: errorCount === 0, syncedCount, errorCount };
+      return {
+        success: errorCount === 0,
+        syncedCount,
+        errorCount,
+        error: lastError,
+      };
     } finally {
       // Clear the global timeout
       clearTimeout(globalTimeout);
@@ -855,11 +1386,19 @@ export async function syncToSupabase(): Promise<{
       console.error(
         "Sync operation was aborted due to timeout or manual cancellation",
       );
-      return { success: false, syncedCount: 0, errorCount: -2 }; // Special code for aborted
+      return {
+        cancelled: true,
+        reason: cancelReason,
+        success: false,
+        syncedCount: 0,
+        errorCount: 0,
+      };
     }
     console.error("Erro na sincronização do SQLite para Supabase:", error);
-    return { success: false, syncedCount: 0, errorCount: 1 };
+    return { success: false, syncedCount: 0, errorCount: 1, error };
   } finally {
+    stopFollowingCaller();
+
     // Clean up by aborting the controller if it hasn't been aborted yet
     if (!signal.aborted) {
       try {
@@ -894,135 +1433,17 @@ export async function syncToSupabase(): Promise<{
   }
 }
 
-// Sync all pending readings (legacy function, now uses syncToSupabase)
-export const syncPendingReadings = async (): Promise<{
-  success: boolean;
-  syncedCount: number;
-  errorCount: number;
-}> => {
-  // Create an abort controller for this sync operation
-  const abortController = new AbortController();
-  const signal = abortController.signal;
-
+// Sync all pending readings (legacy function, now uses syncToSupabase).
+// Readings live in a single store, so this uploads the same pending leituras
+// as the evening sync instead of simulating an upload of its own.
+export const syncPendingReadings = async (
+  options: SyncOptions = {},
+): Promise<SyncResult> => {
   try {
-    // Check if online
-    const isOnline = await checkOnlineStatus();
-    if (!isOnline) {
-      return { success: false, syncedCount: 0, errorCount: 0 };
-    }
-
-    // Get all pending readings
-    const pendingReadings = await getPendingReadings();
-    const pendingCount = pendingReadings.filter(
-      (r) => r.syncStatus === "pending",
-    ).length;
-
-    if (pendingCount === 0) {
-      // No pending readings to sync
-      try {
-        await saveLastSyncTime(new Date().toISOString());
-      } catch (timeError) {
-        console.error("Error saving last sync time:", timeError);
-        // Continue despite this error
-      }
-      return { success: true, syncedCount: 0, errorCount: 0 };
-    }
-
-    let syncedCount = 0;
-    let errorCount = 0;
-
-    // Process each pending reading
-    for (const reading of pendingReadings) {
-      // Check if operation was aborted
-      if (signal.aborted) {
-        throw new Error("Sync operation was aborted");
-      }
-
-      if (reading.syncStatus === "pending") {
-        try {
-          // In a real app, this would be an API call to your backend
-          // For demo purposes, we'll simulate a successful sync with a delay
-          try {
-            // Use our improved delay function that works with AbortController
-            await delay(300, signal);
-
-            // Simulate 90% success rate
-            const isSuccess = Math.random() > 0.1;
-
-            if (isSuccess) {
-              await updateReadingSyncStatus(reading.id, "synced");
-              syncedCount++;
-            } else {
-              await updateReadingSyncStatus(reading.id, "error");
-              errorCount++;
-            }
-          } catch (delayError) {
-            // If this was an abort error, rethrow it
-            if (signal.aborted) {
-              throw delayError;
-            }
-
-            // Otherwise handle the error
-            console.error("Error during sync delay:", delayError);
-            await updateReadingSyncStatus(reading.id, "error");
-            errorCount++;
-          }
-        } catch (error) {
-          // Check if this was an abort error
-          if (signal.aborted) {
-            throw error; // Re-throw to be caught by outer try/catch
-          }
-
-          console.error("Error syncing reading:", reading.id, error);
-          try {
-            await updateReadingSyncStatus(reading.id, "error");
-          } catch (statusError) {
-            console.error("Failed to update reading status:", statusError);
-          }
-          errorCount++;
-        }
-      }
-    }
-
-    // Update last sync time
-    try {
-      await saveLastSyncTime(new Date().toISOString());
-    } catch (timeError) {
-      console.error("Error saving last sync time:", timeError);
-      // Continue despite this error
-    }
-
-    // Clean up synced readings if all were successful
-    if (errorCount === 0 && syncedCount > 0) {
-      try {
-        await removeSyncedReadings();
-      } catch (cleanupError) {
-        console.error("Error removing synced readings:", cleanupError);
-        // Continue despite this error
-      }
-    }
-
-    return {
-      success: errorCount === 0,
-      syncedCount,
-      errorCount,
-    };
+    return await syncToSupabase(options);
   } catch (error) {
     console.error("Unexpected error during sync process:", error);
-    // Check if this was an abort error
-    if (signal.aborted) {
-      return { success: false, syncedCount: 0, errorCount: -2 }; // Special code for aborted
-    }
-    return { success: false, syncedCount: 0, errorCount: -1 };
-  } finally {
-    // Clean up by aborting the controller if it hasn't been aborted yet
-    if (!signal.aborted) {
-      try {
-        abortController.abort();
-      } catch (abortError) {
-        console.error("Error aborting sync controller:", abortError);
-      }
-    }
+    return { success: false, syncedCount: 0, errorCount: -1, error };
   }
 };
 
@@ -1053,28 +1474,12 @@ export async function fetchDailyRoutes(leituristaId: string): Promise<any[]> {
       `Fetching routes for leiturista ${leituristaId} on ${currentDayOfWeek}`,
     );
 
-    // Use our retry function for premature close errors
-    const fetchWithRetry = async () => {
-      return supabase
-        .from("roteiros")
-        .select(
-          `
-          id, dia_semana, rua_id,
-          ruas(id, nome, bairro_id),
-          ruas:bairro_id(id, nome, cidade)
-        `,
-        )
-        .eq("leiturista_id", leituristaId)
-        .eq("dia_semana", currentDayOfWeek);
-    };
-
-    const { data: roteiros, error } = await retryOnPrematureClose(
+    // Retry while the request fails with a retryable network error
+    const fetchWithRetry = () => getSyncBackend().fetchRoutes(leituristaId);
+
+    const { data: roteiros, error } = await retryOnNetworkError(
       fetchWithRetry,
-      {
-        maxRetries: 3,
-        initialDelay: 2000,
-        operationName: "Daily routes fetch",
-      },
+      { operationName: "Daily routes fetch" },
     );
 
     if (error) {
@@ -1082,249 +1487,41 @@ export async function fetchDailyRoutes(leituristaId: string): Promise<any[]> {
       return [];
     }
 
-    if (!roteiros || roteiros.length === 0) {
+    const todaysRoutes = (roteiros || []).filter(
+      (roteiro: any) => roteiro.dia_semana === currentDayOfWeek,
+    );
+    if (todaysRoutes.length === 0) {
       logInfo(
         `No routes found for leiturista ${leituristaId} on ${currentDayOfWeek}`,
       );
       return [];
     }
 
-    logInfo(`Found ${roteiros.length} routes for today`);
-    return roteiros;
+    logInfo(`Found ${todaysRoutes.length} routes for today`);
+    return todaysRoutes;
   } catch (error) {
     logError("Unexpected error fetching daily routes", error);
     return [];
   }
 }
 
-// Listen for network changes and sync when back online
+// Listen for the backend becoming reachable or unreachable. Syncing when
+// the connection comes back is up to the sync engine, which uses this
+// listener.
 export const setupNetworkListener = (
   onNetworkChange: (isConnected: boolean) => void,
 ) => {
-  // Create a flag to track if we're currently syncing to prevent multiple syncs
-  let isSyncing = false;
-  // Track if the listener is still active
-  let isListenerActive = true;
-  // Create an abort controller for sync operations
-  const abortController = new AbortController();
-
-  // Use a debounce mechanism to prevent rapid state changes
   let lastConnectionState: boolean | null = null;
-  let debounceTimeoutId: NodeJS.Timeout | null = null;
-  // Track sync operation to prevent premature closure
-  let syncOperation: Promise<any> | null = null;
-  // Track if cleanup is in progress
-  let isCleaningUp = false;
-
-  // Create a safe unsubscribe function
-  const safeUnsubscribe = () => {
-    if (!isListenerActive || isCleaningUp) return;
-
-    // Mark as inactive first and set cleaning up flag
-    isListenerActive = false;
-    isCleaningUp = true;
-
-    // Clear any pending debounce timeout
-    if (debounceTimeoutId !== null) {
-      clearTimeout(debounceTimeoutId);
-      debounceTimeoutId = null;
-    }
 
-    // Wait for any ongoing sync operation to complete before aborting
-    const cleanup = async () => {
-      try {
-        // Wait for any ongoing sync operation to complete
-        if (syncOperation) {
-          try {
-            await Promise.race([
-              syncOperation,
-              // Timeout after 10 seconds to prevent hanging
-              new Promise((_, reject) =>
-                setTimeout(() => reject(new Error("Sync timeout")), 10000),
-              ),
-            ]);
-          } catch (syncError) {
-            console.warn("Sync operation did not complete cleanly:", syncError);
-          } finally {
-            // Ensure syncOperation is nullified
-            syncOperation = null;
-          }
-        }
-
-        // Now it's safe to abort any pending operations
-        if (!abortController.signal.aborted) {
-          try {
-            abortController.abort();
-            // Give time for abort to propagate
-            await new Promise((resolve) => setTimeout(resolve, 100));
-          } catch (abortError) {
-            console.error("Error during abort:", abortError);
-          }
-        }
-      } catch (abortError) {
-        console.error(
-          "Error aborting network listener operations:",
-          abortError,
-        );
-      } finally {
-        // Unsubscribe from NetInfo if we have a subscription
-        if (unsubscribeFunction) {
-          try {
-            // Wrap in a try-catch to prevent premature close errors
-            try {
-              unsubscribeFunction();
-            } catch (unsubError) {
-              console.warn("Unsubscribe function error:", unsubError);
-            }
-            // Set to null to prevent multiple calls
-            unsubscribeFunction = null;
-          } catch (error) {
-            console.error("Error in NetInfo unsubscribe:", error);
-          }
-        }
-        // Reset cleaning up flag
-        isCleaningUp = false;
-      }
-    };
-
-    // Execute cleanup asynchronously but don't wait for it
-    // Use a more robust error handling approach
-    cleanup().catch((err) => {
-      console.error("Cleanup error:", err);
-      // Ensure we reset the cleaning flag even if there's an error
-      isCleaningUp = false;
-    });
-  };
-
-  // Set up the actual listener
-  let unsubscribeFunction: (() => void) | null = null;
-
-  try {
-    // Create a wrapper function to handle the subscription
-    const setupSubscription = () => {
-      try {
-        if (unsubscribeFunction) {
-          try {
-            unsubscribeFunction();
-          } catch (error) {
-            console.warn("Error cleaning up previous subscription:", error);
-          }
-          unsubscribeFunction = null;
-        }
-
-        unsubscribeFunction = NetInfo.addEventListener((state) => {
-          // First check if the listener is still active
-          if (!isListenerActive || isCleaningUp) return;
-
-          try {
-            const isConnected =
-              state.isConnected === true && state.isInternetReachable !== false;
-
-            // Debounce connection state changes
-            if (lastConnectionState !== isConnected) {
-              // Clear any existing timeout
-              if (debounceTimeoutId !== null) {
-                clearTimeout(debounceTimeoutId);
-                debounceTimeoutId = null;
-              }
-
-              // Set a new timeout
-              debounceTimeoutId = setTimeout(() => {
-                // Only proceed if still active
-                if (!isListenerActive || isCleaningUp) return;
-
-                // Update the last known state
-                lastConnectionState = isConnected;
-                debounceTimeoutId = null;
-
-                // Notify about connection change
-                try {
-                  onNetworkChange(isConnected);
-                } catch (callbackError) {
-                  console.error(
-                    "Error in network change callback:",
-                    callbackError,
-                  );
-                }
-
-                // If we just came back online, try to sync
-                if (
-                  isConnected &&
-                  !isSyncing &&
-                  isListenerActive &&
-                  !isCleaningUp
-                ) {
-                  isSyncing = true;
-
-                  // Use a self-executing async function with proper error handling
-                  const syncPromise = (async () => {
-                    try {
-                      if (isListenerActive && !isCleaningUp) {
-                        await syncPendingReadings();
-                      }
-                    } catch (syncError) {
-                      console.error("Auto-sync failed:", syncError);
-                    } finally {
-                      // Only update state if the listener is still active
-                      if (isListenerActive && !isCleaningUp) {
-                        isSyncing = false;
-                      }
-                    }
-                  })();
-
-                  // Store the promise and ensure it's cleared when done
-                  syncOperation = syncPromise;
-                  syncPromise.finally(() => {
-                    if (syncOperation === syncPromise) {
-                      syncOperation = null;
-                    }
-                  });
-                }
-              }, 300); // 300ms debounce
-            }
-          } catch (error) {
-            console.error("Error in network listener callback:", error);
-            // Reset syncing flag if there was an error
-            if (isListenerActive && !isCleaningUp) {
-              isSyncing = false;
-
-              // Don't null out syncOperation here, let it complete or timeout
-
-              // Try to notify about connection issues
-              try {
-                onNetworkChange(false);
-              } catch (callbackError) {
-                console.error(
-                  "Failed to notify about connection status:",
-                  callbackError,
-                );
-              }
-            }
-          }
-        });
-      } catch (subscribeError) {
-        console.error("Error setting up NetInfo subscription:", subscribeError);
-        unsubscribeFunction = null;
-        return false;
-      }
-      return true;
-    };
+  return ConnectionStateManager.getInstance().subscribe((connection) => {
+    const isConnected = isUsableConnection(connection.status);
+    if (lastConnectionState === isConnected) return;
+    lastConnectionState = isConnected;
 
-    // Initial setup
-    if (!setupSubscription()) {
-      throw new Error("Failed to set up initial NetInfo subscription");
-    }
-  } catch (netInfoError) {
-    console.error("Error with NetInfo.addEventListener:", netInfoError);
-    isListenerActive = false;
-    // Try to notify about connection issues
     try {
-      onNetworkChange(false);
+      onNetworkChange(isConnected);
     } catch (callbackError) {
-      console.error("Failed to notify about connection status:", callbackError);
+      console.error("Error in network change callback:", callbackError);
     }
-  }
-
-  // Return the safe unsubscribe function
-  return safeUnsubscribe;
+  });
 };
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { View, Text, StyleSheet, TouchableOpacity, Alert } from "react-native";
-import { supabase } from "../lib/supabase"; // Import Supabase client
+import { supabase } from "../lib/supabaseClient"; // Import Supabase client
+import { endAuthSession } from "../lib/offlineAuth";
 import { useNetInfo } from "@react-native-community/netinfo";
 
 const AccountScreen = () => {
@@ -118,6 +119,7 @@ const AccountScreen = () => {
     if (error) {
       Alert.alert("Logout Error", error.message);
     } else {
+      await endAuthSession();
       Alert.alert("Logout", "Saindo da conta...");
     }
   };
@@ -0,0 +1,45 @@
+-- Grava as leituras enviadas pelo app. Uma leitura só é gravada quando é
+-- nova ou quando a versao enviada é maior que a guardada, então um envio
+-- atrasado não sobrescreve uma edição mais recente. Toda leitura recebida é
+-- respondida com o id e a versao que o servidor guarda, o que confirma ao
+-- app a versão mais nova.
+create or replace function public.upsert_leituras(leituras jsonb)
+returns table (id text, versao integer)
+language sql
+security invoker
+as $$
+  with enviadas as (
+    select *
+    from jsonb_populate_recordset(null::public.leituras, leituras)
+  ),
+  gravadas as (
+    insert into public.leituras as atual (
+      id, residencia_id, cliente_id, leiturista_id, leitura_valor, foto_path,
+      status, data_leitura, hora_leitura, sincronizado, versao
+    )
+    select
+      id, residencia_id, cliente_id, leiturista_id, leitura_valor, foto_path,
+      status, data_leitura, hora_leitura, sincronizado, coalesce(versao, 1)
+    from enviadas
+    on conflict (id) do update set
+      residencia_id = excluded.residencia_id,
+      cliente_id = excluded.cliente_id,
+      leiturista_id = excluded.leiturista_id,
+      leitura_valor = excluded.leitura_valor,
+      foto_path = excluded.foto_path,
+      status = excluded.status,
+      data_leitura = excluded.data_leitura,
+      hora_leitura = excluded.hora_leitura,
+      sincronizado = excluded.sincronizado,
+      versao = excluded.versao,
+      updated_at = now()
+    where atual.versao < excluded.versao
+    returning atual.id::text, atual.versao::integer
+  )
+  select gravadas.id, gravadas.versao from gravadas
+  union all
+  select atual.id::text, atual.versao::integer
+  from public.leituras as atual
+  join enviadas on enviadas.id = atual.id
+  where not exists (select 1 from gravadas where gravadas.id = atual.id);
+$$;
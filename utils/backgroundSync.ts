@@ -0,0 +1,204 @@
+import * as BackgroundFetch from "expo-background-fetch";
+import * as TaskManager from "expo-task-manager";
+import * as Battery from "expo-battery";
+import NetInfo from "@react-native-community/netinfo";
+import { initializeStorage, getSyncCursors } from "./storage";
+import { requestSync } from "./syncEngine";
+import { recordSkippedSyncRun } from "./syncHistory";
+import { logInfo, logWarn, logError } from "./logger";
+
+// Background sync: the OS wakes the app up every now and then (background
+// fetch), even when it is not in the foreground or was closed. Each run
+// flushes the reading outbox and refreshes the routes, so tomorrow's route is
+// already on the device in the morning. Runs go through the sync engine, so
+// they never overlap a sync started from a screen, and end up in the sync
+// history like any other run.
+
+export const BACKGROUND_SYNC_TASK = "leiturista-background-sync";
+
+// Outcome of a background run
+export interface BackgroundSyncResult {
+  outcome: "synced" | "no-data" | "skipped" | "failed";
+  // Why the run was skipped or failed, or what it did
+  detail: string;
+  uploadedCount: number;
+  downloadedCount: number;
+}
+
+// Limits for background runs
+const BACKGROUND_SYNC_LIMITS = {
+  // How often the OS should wake the app up, in seconds (the OS may wait
+  // longer, never less)
+  minimumIntervalSeconds: 15 * 60,
+  // The OS stops the task after about 30 seconds
+  timeoutMs: 25000,
+  // Skip runs below this battery level unless the device is charging
+  minBatteryLevel: 0.2,
+  // Refresh routes at most this often
+  routeRefreshIntervalMs: 4 * 60 * 60 * 1000,
+};
+
+// Check whether the battery allows a background run
+const getBatteryLimit = async (): Promise<string | null> => {
+  try {
+    const { batteryLevel, batteryState, lowPowerMode } =
+      await Battery.getPowerStateAsync();
+    if (lowPowerMode) return "modo de economia de bateria ativo";
+    const charging =
+      batteryState === Battery.BatteryState.CHARGING ||
+      batteryState === Battery.BatteryState.FULL;
+    // batteryLevel is -1 when the device does not report it
+    if (
+      !charging &&
+      batteryLevel >= 0 &&
+      batteryLevel < BACKGROUND_SYNC_LIMITS.minBatteryLevel
+    ) {
+      return `bateria em ${Math.round(batteryLevel * 100)}%`;
+    }
+    return null;
+  } catch (error) {
+    logWarn("Could not read the battery state", error);
+    return null;
+  }
+};
+
+// Check whether the routes are old enough to refresh again
+const isRouteRefreshDue = async (): Promise<boolean> => {
+  const cursors = await getSyncCursors();
+  const lastRefresh = cursors.roteiros?.syncedAt;
+  if (!lastRefresh) return true;
+  return (
+    Date.now() - new Date(lastRefresh).getTime() >=
+    BACKGROUND_SYNC_LIMITS.routeRefreshIntervalMs
+  );
+};
+
+// Run one background sync. Readings are always uploaded when there is a
+// connection, since they are small and should not wait; the route refresh
+// is skipped on metered networks.
+export const runBackgroundSync = async (): Promise<BackgroundSyncResult> => {
+  const record = (
+    outcome: BackgroundSyncResult["outcome"],
+    detail: string,
+    uploadedCount = 0,
+    downloadedCount = 0,
+  ): BackgroundSyncResult => ({
+    outcome,
+    detail,
+    uploadedCount,
+    downloadedCount,
+  });
+
+  await initializeStorage();
+
+  const netInfo = await NetInfo.fetch();
+  if (!netInfo.isConnected || netInfo.isInternetReachable === false) {
+    await recordSkippedSyncRun("background", "full", "sem conexão");
+    return record("skipped", "sem conexão");
+  }
+
+  const batteryLimit = await getBatteryLimit();
+  if (batteryLimit) {
+    await recordSkippedSyncRun("background", "full", batteryLimit);
+    return record("skipped", batteryLimit);
+  }
+
+  const upload = await requestSync("upload", {
+    timeoutMs: BACKGROUND_SYNC_LIMITS.timeoutMs,
+    trigger: "background",
+  });
+  if (!upload.success) {
+    return record(
+      "failed",
+      upload.cancelled
+        ? "envio de leituras interrompido"
+        : "falha ao enviar leituras",
+      upload.syncedCount,
+    );
+  }
+
+  const metered = netInfo.details?.isConnectionExpensive === true;
+  let detail = "leituras enviadas";
+  let downloadedCount = 0;
+  if (metered) {
+    detail = "leituras enviadas, roteiros não atualizados em rede móvel";
+  } else if (await isRouteRefreshDue()) {
+    const download = await requestSync("download", {
+      timeoutMs: BACKGROUND_SYNC_LIMITS.timeoutMs,
+      trigger: "background",
+    });
+    if (!download.success) {
+      return record(
+        "failed",
+        "falha ao atualizar roteiros",
+        upload.syncedCount,
+        download.syncedCount,
+      );
+    }
+    detail = "leituras enviadas e roteiros atualizados";
+    downloadedCount = download.syncedCount;
+  }
+
+  return record(
+    upload.syncedCount + downloadedCount > 0 ? "synced" : "no-data",
+    detail,
+    upload.syncedCount,
+    downloadedCount,
+  );
+};
+
+// The task has to be defined when the module is loaded, also when the OS
+// starts the app just to run it
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+  try {
+    const result = await runBackgroundSync();
+    logInfo(`Background sync ${result.outcome}: ${result.detail}`, result);
+
+    if (result.outcome === "failed") {
+      return BackgroundFetch.BackgroundFetchResult.Failed;
+    }
+    return result.outcome === "synced"
+      ? BackgroundFetch.BackgroundFetchResult.NewData
+      : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    logError("Background sync failed", error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+// Ask the OS to run the background sync periodically
+export const registerBackgroundSync = async (): Promise<boolean> => {
+  try {
+    const status = await BackgroundFetch.getStatusAsync();
+    if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+      logWarn("Background fetch is not available on this device", { status });
+      return false;
+    }
+
+    if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+      return true;
+    }
+
+    await BackgroundFetch.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+      minimumInterval: BACKGROUND_SYNC_LIMITS.minimumIntervalSeconds,
+      stopOnTerminate: false,
+      startOnBoot: true,
+    });
+    logInfo("Background sync registered");
+    return true;
+  } catch (error) {
+    logError("Error registering background sync", error);
+    return false;
+  }
+};
+
+// Stop running the background sync
+export const unregisterBackgroundSync = async (): Promise<void> => {
+  try {
+    if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) {
+      await BackgroundFetch.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+    }
+  } catch (error) {
+    logError("Error unregistering background sync", error);
+  }
+};
@@ -0,0 +1,328 @@
+import { useEffect, useState } from "react";
+import { AppState, AppStateStatus } from "react-native";
+import NetInfo, { NetInfoState } from "@react-native-community/netinfo";
+import { supabase, supabaseUrl, supabaseAnonKey } from "./supabaseClient";
+import { resetCircuits } from "./resilience";
+import { logInfo, logWarn } from "./logger";
+
+// Connectivity of the app, as one state for every screen and the sync.
+// NetInfo says whether the device has a network; a probe of the backend says
+// whether that network actually reaches our server:
+//   online          the backend answers
+//   offline         the device has no network
+//   unreachable     there is a network, but the backend doesn't answer
+//   degraded        the backend answers, but slowly or with server errors
+//   captive-portal  something other than the backend answers, typically a
+//                   Wi-Fi login page
+// The state is updated when NetInfo reports a change or the app comes to the
+// foreground, not by polling. While unreachable, degraded or behind a captive
+// portal (which NetInfo doesn't report on) the backend is probed again with
+// growing intervals.
+
+export type ConnectionStatus =
+  | "online"
+  | "offline"
+  | "unreachable"
+  | "degraded"
+  | "captive-portal";
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  // Network type reported by the device (wifi, cellular, ...)
+  networkType: string | null;
+  // Round trip of the last probe, when the backend answered
+  latencyMs: number | null;
+  // Why the connection isn't online
+  reason: string | null;
+  // When the state was last checked; null before the first check
+  checkedAt: string | null;
+}
+
+export type ConnectionStateListener = (state: ConnectionState) => void;
+
+// Time the backend has to answer a probe
+const PROBE_TIMEOUT_MS = 8000;
+// Probes slower than this mark the connection as degraded
+const SLOW_PROBE_MS = 3000;
+// A check this recent is reused instead of probing again
+const MAX_STATE_AGE_MS = 5000;
+// NetInfo reports several changes in a row when switching networks
+const CHANGE_DEBOUNCE_MS = 300;
+// Delays of the probes repeated while unreachable, degraded or behind a
+// captive portal
+const RECHECK_DELAYS_MS = [15000, 30000, 60000, 120000];
+
+// Whether requests can be sent over a connection in this state: the backend
+// answers, if not always well
+export const isUsableConnection = (status: ConnectionStatus): boolean =>
+  status === "online" || status === "degraded";
+
+type ProbeResult = Pick<ConnectionState, "status" | "latencyMs" | "reason">;
+
+// Ask the backend whether it can be reached. The auth health endpoint
+// answers without a session, so the probe also works on the login screen.
+const probeBackend = async (): Promise<ProbeResult> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(`${supabaseUrl}/auth/v1/health`, {
+      headers: {
+        apikey: supabaseAnonKey,
+        Accept: "application/json",
+        "Cache-Control": "no-cache",
+      },
+      signal: controller.signal,
+    });
+    const latencyMs = Date.now() - startedAt;
+    const contentType = response.headers.get("content-type") || "";
+
+    // A captive portal answers in place of the server, with its login page
+    // or a redirect to it
+    if (
+      response.status === 511 ||
+      response.redirected ||
+      (response.ok && !contentType.includes("json"))
+    ) {
+      return {
+        status: "captive-portal",
+        latencyMs,
+        reason: "A rede exige login antes de acessar a internet",
+      };
+    }
+    if (response.status >= 500) {
+      return {
+        status: "degraded",
+        latencyMs,
+        reason: `Servidor com problemas (${response.status})`,
+      };
+    }
+    if (latencyMs > SLOW_PROBE_MS) {
+      return { status: "degraded", latencyMs, reason: "Conexão lenta" };
+    }
+    return { status: "online", latencyMs, reason: null };
+  } catch (error) {
+    return {
+      status: "unreachable",
+      latencyMs: null,
+      reason: controller.signal.aborted
+        ? "Servidor não respondeu"
+        : "Servidor inacessível",
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+export class ConnectionStateManager {
+  private static instance: ConnectionStateManager | null = null;
+
+  // Singleton pattern to ensure only one instance exists
+  public static getInstance(): ConnectionStateManager {
+    if (!ConnectionStateManager.instance) {
+      ConnectionStateManager.instance = new ConnectionStateManager();
+    }
+    return ConnectionStateManager.instance;
+  }
+
+  // Optimistic until the first check, so screens don't flash an offline
+  // warning on start
+  private state: ConnectionState = {
+    status: "online",
+    networkType: null,
+    latencyMs: null,
+    reason: null,
+    checkedAt: null,
+  };
+  private listeners = new Set<ConnectionStateListener>();
+  private pendingCheck: Promise<ConnectionState> | null = null;
+  private stopNetInfo: (() => void) | null = null;
+  private stopAppState: (() => void) | null = null;
+  private debounceId: ReturnType<typeof setTimeout> | null = null;
+  private recheckId: ReturnType<typeof setTimeout> | null = null;
+  private recheckCount = 0;
+
+  // Get the last known state
+  public getState(): ConnectionState {
+    return this.state;
+  }
+
+  // Subscribe to state changes; returns the unsubscribe function. The
+  // manager follows NetInfo while it has subscribers.
+  public subscribe(listener: ConnectionStateListener): () => void {
+    this.listeners.add(listener);
+    if (!this.stopNetInfo) this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  // The current state, checked again unless the last check is recent
+  public async check(): Promise<ConnectionState> {
+    const { checkedAt } = this.state;
+    if (
+      checkedAt &&
+      Date.now() - new Date(checkedAt).getTime() < MAX_STATE_AGE_MS
+    ) {
+      return this.state;
+    }
+    return this.refresh();
+  }
+
+  // Check the network and probe the backend now. Concurrent calls share one
+  // check.
+  public refresh(netInfo?: NetInfoState): Promise<ConnectionState> {
+    if (!this.pendingCheck) {
+      this.pendingCheck = this.evaluate(netInfo).finally(() => {
+        this.pendingCheck = null;
+      });
+    }
+    return this.pendingCheck;
+  }
+
+  private start(): void {
+    this.stopNetInfo = NetInfo.addEventListener((netInfo) =>
+      this.handleNetInfoChange(netInfo),
+    );
+    const subscription = AppState.addEventListener(
+      "change",
+      (appState: AppStateStatus) => {
+        if (appState === "active") this.refresh().catch(() => undefined);
+      },
+    );
+    this.stopAppState = () => subscription.remove();
+  }
+
+  private stop(): void {
+    this.stopNetInfo?.();
+    this.stopNetInfo = null;
+    this.stopAppState?.();
+    this.stopAppState = null;
+    this.clearTimers();
+  }
+
+  private clearTimers(): void {
+    if (this.debounceId) clearTimeout(this.debounceId);
+    if (this.recheckId) clearTimeout(this.recheckId);
+    this.debounceId = null;
+    this.recheckId = null;
+  }
+
+  private handleNetInfoChange(netInfo: NetInfoState): void {
+    if (this.debounceId) clearTimeout(this.debounceId);
+    this.debounceId = setTimeout(() => {
+      this.debounceId = null;
+      this.refresh(netInfo).catch(() => undefined);
+    }, CHANGE_DEBOUNCE_MS);
+  }
+
+  private async evaluate(netInfo?: NetInfoState): Promise<ConnectionState> {
+    let next: ProbeResult;
+    let networkType: string | null = null;
+    try {
+      const current = netInfo || (await NetInfo.fetch());
+      networkType = current.type;
+      next =
+        current.isConnected === false || current.isInternetReachable === false
+          ? { status: "offline", latencyMs: null, reason: "Sem rede" }
+          : await probeBackend();
+    } catch (error) {
+      logWarn("Error checking the connection", error);
+      next = {
+        status: "offline",
+        latencyMs: null,
+        reason: "Não foi possível verificar a rede",
+      };
+    }
+
+    this.setState({
+      ...next,
+      networkType,
+      checkedAt: new Date().toISOString(),
+    });
+    return this.state;
+  }
+
+  private setState(next: ConnectionState): void {
+    const previous = this.state;
+    this.state = next;
+
+    if (next.status !== previous.status) {
+      logInfo(`Connection ${previous.status} -> ${next.status}`, {
+        reason: next.reason,
+        networkType: next.networkType,
+        latencyMs: next.latencyMs,
+      });
+      this.handleTransition(previous.status, next.status);
+    }
+    this.scheduleRecheck();
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(next);
+      } catch (error) {
+        console.error("Error in connection state listener:", error);
+      }
+    });
+  }
+
+  // Reconnect when the backend becomes reachable again, and stop refreshing
+  // the session while it can't be
+  private handleTransition(
+    previous: ConnectionStatus,
+    next: ConnectionStatus,
+  ): void {
+    const wasUsable = isUsableConnection(previous);
+    const isUsable = isUsableConnection(next);
+    if (isUsable && !wasUsable) {
+      // Failures while the connection was down say nothing about the server
+      resetCircuits();
+      supabase.auth.startAutoRefresh().catch((error) => {
+        logWarn("Could not restart the session refresh", error);
+      });
+    } else if (!isUsable && wasUsable) {
+      supabase.auth.stopAutoRefresh().catch(() => undefined);
+    }
+  }
+
+  // NetInfo doesn't report a server recovering or a captive portal login,
+  // so probe again after a while; offline waits for NetInfo instead
+  private scheduleRecheck(): void {
+    if (this.recheckId) clearTimeout(this.recheckId);
+    this.recheckId = null;
+
+    const { status } = this.state;
+    if (status === "online" || status === "offline" || !this.stopNetInfo) {
+      this.recheckCount = 0;
+      return;
+    }
+    const delay =
+      RECHECK_DELAYS_MS[
+        Math.min(this.recheckCount, RECHECK_DELAYS_MS.length - 1)
+      ];
+    this.recheckCount++;
+    this.recheckId = setTimeout(() => {
+      this.recheckId = null;
+      this.refresh().catch(() => undefined);
+    }, delay);
+  }
+}
+
+// Hook for screens showing the connection state
+export const useConnectionState = (): ConnectionState => {
+  const manager = ConnectionStateManager.getInstance();
+  const [state, setState] = useState<ConnectionState>(() =>
+    manager.getState(),
+  );
+
+  useEffect(() => {
+    const unsubscribe = manager.subscribe(setState);
+    // Check now in case nothing else has yet
+    manager.check().then(setState, () => undefined);
+    return unsubscribe;
+  }, [manager]);
+
+  return state;
+};
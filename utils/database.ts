@@ -1,5 +1,6 @@
 import * as SQLite from "expo-sqlite";
 import { v4 as uuidv4 } from "uuid";
+import { runMigrations, MigrationResult } from "./migrations";
 
 // Open the database
 export const db = SQLite.openDatabase("leituras.db");
@@ -30,345 +31,247 @@ export const exec = (sql: string, params: any[] = []): Promise<void> =>
     ),
   );
 
-// Initialize the database with all required tables
-export const initDatabase = (): Promise<void> => {
-  return new Promise((resolve, reject) => {
+// A SQL statement with its parameters, for batched execution
+export type SqlStatement = [sql: string, params?: any[]];
+
+// Statements are handed to SQLite in chunks, checking for cancellation in
+// between
+const BATCH_CHUNK_SIZE = 200;
+
+// Execute a list of statements inside a single transaction. Either all of
+// them are applied or, if any statement fails or the signal is aborted
+// before the last chunk ran, none of them are.
+export const execBatch = (
+  statements: SqlStatement[],
+  signal?: AbortSignal,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Operation aborted"));
+      return;
+    }
+    if (statements.length === 0) {
+      resolve();
+      return;
+    }
+
+    let aborted = false;
     db.transaction(
       (tx) => {
-        // Leituristas table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS leituristas (
-            id TEXT PRIMARY KEY,
-            nome TEXT NOT NULL,
-            cidade TEXT NOT NULL
-          );`,
-        );
-
-        // Bairros table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS bairros (
-            id TEXT PRIMARY KEY,
-            nome TEXT NOT NULL,
-            cidade TEXT NOT NULL
-          );`,
-        );
-
-        // Ruas table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS ruas (
-            id TEXT PRIMARY KEY,
-            nome TEXT NOT NULL,
-            bairro_id TEXT NOT NULL,
-            FOREIGN KEY (bairro_id) REFERENCES bairros(id)
-          );`,
-        );
-
-        // Residências table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS residencias (
-            id TEXT PRIMARY KEY,
-            rua_id TEXT NOT NULL,
-            numero INTEGER NOT NULL,
-            FOREIGN KEY (rua_id) REFERENCES ruas(id)
-          );`,
-        );
-
-        // Clientes table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS clientes (
-            id TEXT PRIMARY KEY,
-            nome TEXT NOT NULL,
-            cpf TEXT,
-            telefone TEXT,
-            email TEXT,
-            residencia_id TEXT NOT NULL,
-            FOREIGN KEY (residencia_id) REFERENCES residencias(id)
-          );`,
-        );
-
-        // Roteiros table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS roteiros (
-            id TEXT PRIMARY KEY,
-            leiturista_id TEXT NOT NULL,
-            rua_id TEXT NOT NULL,
-            dia_semana TEXT NOT NULL,
-            FOREIGN KEY (leiturista_id) REFERENCES leituristas(id),
-            FOREIGN KEY (rua_id) REFERENCES ruas(id)
-          );`,
-        );
-
-        // Leituras table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS leituras (
-            id TEXT PRIMARY KEY,
-            residencia_id TEXT NOT NULL,
-            cliente_id TEXT NOT NULL,
-            leiturista_id TEXT NOT NULL,
-            leitura_valor TEXT,
-            foto_path TEXT,
-            status TEXT DEFAULT 'pendente',
-            data_leitura DATE,
-            hora_leitura TIME,
-            sincronizado INTEGER DEFAULT 0,
-            FOREIGN KEY (residencia_id) REFERENCES residencias(id),
-            FOREIGN KEY (cliente_id) REFERENCES clientes(id),
-            FOREIGN KEY (leiturista_id) REFERENCES leituristas(id)
-          );`,
-        );
-
-        // Contas table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS contas (
-            id TEXT PRIMARY KEY,
-            cliente_id TEXT NOT NULL,
-            leitura_id TEXT NOT NULL,
-            mes INTEGER NOT NULL,
-            ano INTEGER NOT NULL,
-            valor_calculado REAL NOT NULL,
-            data_emissao DATE NOT NULL,
-            data_vencimento DATE NOT NULL,
-            status TEXT DEFAULT 'aberta',
-            FOREIGN KEY (cliente_id) REFERENCES clientes(id),
-            FOREIGN KEY (leitura_id) REFERENCES leituras(id)
-          );`,
-        );
-
-        // For backward compatibility with the existing AsyncStorage implementation
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS meter_readings (
-            id TEXT PRIMARY KEY,
-            meterId TEXT NOT NULL,
-            addressId TEXT NOT NULL,
-            routeId TEXT NOT NULL,
-            value TEXT NOT NULL,
-            timestamp TEXT NOT NULL,
-            imageUri TEXT,
-            syncStatus TEXT NOT NULL
-          );`,
-        );
-
-        // New readings table for the updated schema
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS readings (
-            id TEXT PRIMARY KEY,
-            meter_id TEXT NOT NULL,
-            reading_value TEXT NOT NULL,
-            client_name TEXT,
-            address TEXT,
-            notes TEXT,
-            image_path TEXT,
-            timestamp TEXT NOT NULL,
-            synced INTEGER DEFAULT 0,
-            remote_id TEXT,
-            latitude REAL,
-            longitude REAL
-          );`,
-        );
-
-        // Create indexes for readings table
-        tx.executeSql(
-          `CREATE INDEX IF NOT EXISTS idx_readings_meter_id ON readings (meter_id);`,
-        );
-        tx.executeSql(
-          `CREATE INDEX IF NOT EXISTS idx_readings_timestamp ON readings (timestamp);`,
-        );
-        tx.executeSql(
-          `CREATE INDEX IF NOT EXISTS idx_readings_synced ON readings (synced);`,
-        );
-
-        // Daily routes table
-        tx.executeSql(
-          `CREATE TABLE IF NOT EXISTS daily_routes (
-            id TEXT PRIMARY KEY,
-            date TEXT NOT NULL,
-            total_stops INTEGER DEFAULT 0,
-            completed_stops INTEGER DEFAULT 0,
-            estimated_time_remaining TEXT DEFAULT 'N/A'
-          );`,
-        );
-
-        // Create index for daily_routes
-        tx.executeSql(
-          `CREATE INDEX IF NOT EXISTS idx_daily_routes_date ON daily_routes (date);`,
-        );
-      },
-      (error) => {
-        console.error("Error creating database tables:", error);
-        reject(error);
-      },
-      () => {
-        console.log("Database initialized successfully");
-        resolve();
+        const runChunk = (start: number) => {
+          const end = Math.min(start + BATCH_CHUNK_SIZE, statements.length);
+          for (let i = start; i < end; i++) {
+            const [sql, params = []] = statements[i];
+            const isChunkEnd = i === end - 1 && end < statements.length;
+            tx.executeSql(
+              sql,
+              params,
+              isChunkEnd
+                ? () => {
+                    if (signal?.aborted) {
+                      // RAISE outside a trigger always fails, which rolls
+                      // back everything this transaction wrote
+                      aborted = true;
+                      tx.executeSql("SELECT RAISE(ABORT, 'cancelled')");
+                      return;
+                    }
+                    runChunk(end);
+                  }
+                : undefined,
+              // Returning true from the error callback rolls back
+              () => true,
+            );
+          }
+        };
+        runChunk(0);
       },
+      (error) => reject(aborted ? new Error("Operation aborted") : error),
+      () => resolve(),
     );
   });
-};
 
-// CRUD operations for meter_readings table (for compatibility with existing code)
+// Execute one statement for every parameter set inside a single transaction
+export const execMany = (
+  sql: string,
+  paramSets: any[][],
+  signal?: AbortSignal,
+): Promise<void> =>
+  execBatch(
+    paramSets.map((params) => [sql, params]),
+    signal,
+  );
 
-// Create a new meter reading
-export const createMeterReading = (reading: {
-  id: string;
-  meterId: string;
-  addressId: string;
-  routeId: string;
-  value: string;
-  timestamp: string;
-  imageUri?: string;
-  syncStatus: string;
-}): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    db.transaction(
-      (tx) => {
-        tx.executeSql(
-          `INSERT INTO meter_readings (
-            id, meterId, addressId, routeId, value, timestamp, imageUri, syncStatus
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            reading.id,
-            reading.meterId,
-            reading.addressId,
-            reading.routeId,
-            reading.value,
-            reading.timestamp,
-            reading.imageUri || null,
-            reading.syncStatus,
-          ],
-          (_, result) => {
-            resolve();
-          },
-        );
-      },
-      (error) => {
-        console.error("Error creating meter reading:", error);
-        reject(error);
-      },
+// Bring the database schema up to date by running any pending migrations.
+// A failed migration is rolled back and reported in the result rather than
+// thrown, so the app can keep reading data with the previous schema.
+export const initDatabase = async (): Promise<MigrationResult> => {
+  const result = await runMigrations(db);
+  if (result.error) {
+    console.error(
+      `Database left at schema version ${result.toVersion} of ${result.targetVersion}`,
     );
-  });
+  } else {
+    console.log(
+      `Database initialized successfully (schema version ${result.toVersion})`,
+    );
+  }
+  return result;
 };
 
-// CRUD operations for the new readings table
+// CRUD operations for the leituras table, the single local reading store
 
-// Create a new reading
-export interface Reading {
+// A reading as stored in the leituras table
+export interface Leitura {
   id: string;
-  meter_id: string;
-  reading_value: string;
-  client_name?: string;
-  address?: string;
-  notes?: string;
-  image_path?: string;
-  timestamp: string;
-  synced?: number;
-  remote_id?: string;
-  latitude?: number;
-  longitude?: number;
+  residencia_id: string;
+  cliente_id: string;
+  leiturista_id: string;
+  leitura_valor: string | null;
+  foto_path: string | null;
+  status: string;
+  data_leitura: string | null;
+  hora_leitura: string | null;
+  sincronizado: number;
+  medidor_id: string | null;
+  roteiro_id: string | null;
+  observacoes: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  erro_sincronizacao: string | null;
+  criado_em: string | null;
+  versao: number;
+  versao_servidor: number | null;
+  // Auth user who took the reading
+  usuario_id: string | null;
+  // 1 while the reading waits for its offline login to be validated online
+  autenticacao_offline: number;
 }
 
-export const createReading = (reading: Reading): Promise<void> => {
+// Insert or replace a reading
+export const upsertLeitura = (leitura: Leitura): Promise<void> => {
   return new Promise((resolve, reject) => {
     db.transaction(
       (tx) => {
         tx.executeSql(
-          `INSERT INTO readings (
-            id, meter_id, reading_value, client_name, address, notes, 
-            image_path, timestamp, synced, remote_id, latitude, longitude
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          `INSERT OR REPLACE INTO leituras (
+            id, residencia_id, cliente_id, leiturista_id, leitura_valor, foto_path,
+            status, data_leitura, hora_leitura, sincronizado, medidor_id, roteiro_id,
+            observacoes, latitude, longitude, erro_sincronizacao, criado_em,
+            versao, versao_servidor, usuario_id, autenticacao_offline
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           [
-            reading.id,
-            reading.meter_id,
-            reading.reading_value,
-            reading.client_name || null,
-            reading.address || null,
-            reading.notes || null,
-            reading.image_path || null,
-            reading.timestamp,
-            reading.synced || 0,
-            reading.remote_id || null,
-            reading.latitude || null,
-            reading.longitude || null,
+            leitura.id,
+            leitura.residencia_id,
+            leitura.cliente_id,
+            leitura.leiturista_id,
+            leitura.leitura_valor,
+            leitura.foto_path,
+            leitura.status,
+            leitura.data_leitura,
+            leitura.hora_leitura,
+            leitura.sincronizado,
+            leitura.medidor_id,
+            leitura.roteiro_id,
+            leitura.observacoes,
+            leitura.latitude,
+            leitura.longitude,
+            leitura.erro_sincronizacao,
+            leitura.criado_em,
+            leitura.versao,
+            leitura.versao_servidor,
+            leitura.usuario_id,
+            leitura.autenticacao_offline,
           ],
-          (_, result) => {
+          () => {
             resolve();
           },
         );
       },
       (error) => {
-        console.error("Error creating reading:", error);
+        console.error("Error saving leitura:", error);
         reject(error);
       },
     );
   });
 };
 
-// Get all meter readings
-export const getAllMeterReadings = (): Promise<any[]> => {
+// Get a single reading by ID
+export const getLeituraById = (id: string): Promise<Leitura | null> => {
   return new Promise((resolve, reject) => {
     db.transaction(
       (tx) => {
-        tx.executeSql("SELECT * FROM meter_readings", [], (_, { rows }) => {
-          resolve(rows._array);
-        });
+        tx.executeSql(
+          "SELECT * FROM leituras WHERE id = ?",
+          [id],
+          (_, { rows }) => {
+            resolve(rows.length > 0 ? (rows._array[0] as Leitura) : null);
+          },
+        );
       },
       (error) => {
-        console.error("Error getting meter readings:", error);
+        console.error("Error getting leitura:", error);
         reject(error);
       },
     );
   });
 };
 
-// Get all readings from the new readings table
-export const getAllReadings = (): Promise<Reading[]> => {
+// Get all readings, newest first
+export const getAllLeituras = (): Promise<Leitura[]> => {
   return new Promise((resolve, reject) => {
     db.transaction(
       (tx) => {
-        tx.executeSql("SELECT * FROM readings", [], (_, { rows }) => {
-          resolve(rows._array as Reading[]);
-        });
+        tx.executeSql(
+          "SELECT * FROM leituras ORDER BY criado_em DESC",
+          [],
+          (_, { rows }) => {
+            resolve(rows._array as Leitura[]);
+          },
+        );
       },
       (error) => {
-        console.error("Error getting readings:", error);
+        console.error("Error getting leituras:", error);
         reject(error);
       },
     );
   });
 };
 
-// Get readings by sync status
-export const getReadingsBySyncStatus = (synced: number): Promise<Reading[]> => {
+// Get readings by sync flag (0 = not yet on the server, 1 = synced)
+export const getLeiturasBySyncStatus = (
+  sincronizado: number,
+): Promise<Leitura[]> => {
   return new Promise((resolve, reject) => {
     db.transaction(
       (tx) => {
         tx.executeSql(
-          "SELECT * FROM readings WHERE synced = ?",
-          [synced],
+          "SELECT * FROM leituras WHERE sincronizado = ? ORDER BY criado_em",
+          [sincronizado],
           (_, { rows }) => {
-            resolve(rows._array as Reading[]);
+            resolve(rows._array as Leitura[]);
           },
         );
       },
       (error) => {
-        console.error("Error getting readings by sync status:", error);
+        console.error("Error getting leituras by sync status:", error);
         reject(error);
       },
     );
   });
 };
 
-// Update reading sync status
-export const updateReadingSyncStatus = (
+// Update the sync flag of a reading, recording the error of a failed attempt
+export const updateLeituraSyncStatus = (
   id: string,
-  synced: number,
-  remote_id?: string,
+  sincronizado: number,
+  erro: string | null = null,
 ): Promise<void> => {
   return new Promise((resolve, reject) => {
     db.transaction(
       (tx) => {
         tx.executeSql(
-          "UPDATE readings SET synced = ?, remote_id = ? WHERE id = ?",
-          [synced, remote_id || null, id],
+          "UPDATE leituras SET sincronizado = ?, erro_sincronizacao = ? WHERE id = ?",
+          [sincronizado, erro, id],
           (_, result) => {
             if (result.rowsAffected > 0) {
               resolve();
@@ -379,87 +282,207 @@ export const updateReadingSyncStatus = (
         );
       },
       (error) => {
-        console.error("Error updating reading sync status:", error);
+        console.error("Error updating leitura sync status:", error);
         reject(error);
       },
     );
   });
 };
 
-// Get meter readings by sync status
-export const getMeterReadingsBySyncStatus = (
-  status: string,
-): Promise<any[]> => {
+// Record the version the server acknowledged for a reading. The reading is
+// only marked as synced if it wasn't changed locally in the meantime;
+// resolves to whether the acknowledged version is the current one.
+export const confirmLeituraSync = (
+  id: string,
+  versaoServidor: number,
+): Promise<boolean> => {
   return new Promise((resolve, reject) => {
     db.transaction(
       (tx) => {
         tx.executeSql(
-          "SELECT * FROM meter_readings WHERE syncStatus = ?",
-          [status],
+          `UPDATE leituras
+           SET versao_servidor = ?,
+               sincronizado = CASE WHEN versao <= ? THEN 1 ELSE sincronizado END,
+               erro_sincronizacao = CASE WHEN versao <= ? THEN NULL ELSE erro_sincronizacao END
+           WHERE id = ?`,
+          [versaoServidor, versaoServidor, versaoServidor, id],
+        );
+        tx.executeSql(
+          "SELECT versao FROM leituras WHERE id = ?",
+          [id],
           (_, { rows }) => {
-            resolve(rows._array);
+            resolve(rows.length > 0 && rows._array[0].versao <= versaoServidor);
           },
         );
       },
       (error) => {
-        console.error("Error getting meter readings by status:", error);
+        console.error("Error confirming leitura sync:", error);
         reject(error);
       },
     );
   });
 };
 
-// Update meter reading sync status
-export const updateMeterReadingSyncStatus = (
+// Replace the local photo path of a reading with the key of its uploaded
+// copy. This is a new version of the reading, so it has to be uploaded again.
+// Resolves to the updated reading, or null if the reading no longer points
+// at that local file (e.g. the photo was retaken meanwhile).
+export const replaceLeituraFotoPath = (
   id: string,
-  status: string,
-): Promise<void> => {
+  localPath: string,
+  remoteKey: string,
+): Promise<Leitura | null> => {
   return new Promise((resolve, reject) => {
     db.transaction(
       (tx) => {
         tx.executeSql(
-          "UPDATE meter_readings SET syncStatus = ? WHERE id = ?",
-          [status, id],
+          `UPDATE leituras
+           SET foto_path = ?, versao = versao + 1, sincronizado = 0,
+               erro_sincronizacao = NULL
+           WHERE id = ? AND foto_path = ?`,
+          [remoteKey, id, localPath],
           (_, result) => {
-            if (result.rowsAffected > 0) {
-              resolve();
-            } else {
-              reject(new Error("No reading found with the specified ID"));
+            if (result.rowsAffected === 0) {
+              resolve(null);
+              return;
             }
+            tx.executeSql(
+              "SELECT * FROM leituras WHERE id = ?",
+              [id],
+              (_, { rows }) => resolve(rows._array[0] || null),
+            );
           },
         );
       },
       (error) => {
-        console.error("Error updating meter reading sync status:", error);
+        console.error("Error replacing leitura photo path:", error);
         reject(error);
       },
     );
   });
 };
 
-// Delete meter readings by sync status
-export const deleteMeterReadingsBySyncStatus = (
-  status: string,
-): Promise<void> => {
+// Count readings by sync state
+export const getLeituraCounts = (): Promise<{
+  total: number;
+  synced: number;
+  pending: number;
+  failed: number;
+}> => {
   return new Promise((resolve, reject) => {
     db.transaction(
       (tx) => {
         tx.executeSql(
-          "DELETE FROM meter_readings WHERE syncStatus = ?",
-          [status],
-          (_, result) => {
-            resolve();
+          `SELECT
+             COUNT(*) as total,
+             COALESCE(SUM(CASE WHEN sincronizado = 1 THEN 1 ELSE 0 END), 0) as synced,
+             COALESCE(SUM(CASE WHEN sincronizado = 0 AND erro_sincronizacao IS NULL THEN 1 ELSE 0 END), 0) as pending,
+             COALESCE(SUM(CASE WHEN sincronizado = 0 AND erro_sincronizacao IS NOT NULL THEN 1 ELSE 0 END), 0) as failed
+           FROM leituras`,
+          [],
+          (_, { rows }) => {
+            resolve(rows._array[0]);
           },
         );
       },
       (error) => {
-        console.error("Error deleting meter readings by status:", error);
+        console.error("Error counting leituras:", error);
+        reject(error);
+      },
+    );
+  });
+};
+
+// Sync error shown on readings whose residence, customer or reader isn't
+// known yet
+export const LEITURA_OWNERS_UNKNOWN =
+  "Residência, cliente ou leiturista da leitura desconhecidos";
+
+// IDs of the unsynced readings that can't be uploaded yet because their
+// residence, customer or reader is unknown
+export const getLeituraIdsMissingOwners = async (): Promise<Set<string>> => {
+  const rows = await query(
+    `SELECT id FROM leituras
+     WHERE sincronizado = 0
+       AND (residencia_id = '' OR cliente_id = '' OR leiturista_id = '')`,
+  );
+  return new Set(rows.map((row) => row.id));
+};
+
+// IDs of the readings taken after an offline login that wait for their user
+// to be validated online
+export const getLeituraIdsAwaitingRevalidation = async (): Promise<
+  Set<string>
+> => {
+  const rows = await query(
+    "SELECT id FROM leituras WHERE autenticacao_offline = 1",
+  );
+  return new Set(rows.map((row) => row.id));
+};
+
+// Release the readings a user took offline once the server validated that
+// user again. Resolves to the number of readings released.
+export const confirmOfflineLeituras = (usuarioId: string): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    db.transaction(
+      (tx) => {
+        tx.executeSql(
+          `UPDATE leituras SET autenticacao_offline = 0
+           WHERE usuario_id = ? AND autenticacao_offline = 1`,
+          [usuarioId],
+          (_, result) => resolve(result.rowsAffected),
+        );
+      },
+      (error) => {
+        console.error("Error confirming offline leituras:", error);
         reject(error);
       },
     );
   });
 };
 
+// A reader as cached in the leituristas table
+export interface Leiturista {
+  id: string;
+  nome: string;
+  cidade: string;
+  email: string | null;
+  // Auth user the reader signs in as
+  user_id: string | null;
+}
+
+// Cache the leituristas row of an auth user, unlinking any other row the
+// user was linked to before
+export const saveLeiturista = (leiturista: Leiturista): Promise<void> =>
+  execBatch([
+    [
+      "UPDATE leituristas SET user_id = NULL WHERE user_id = ? AND id <> ?",
+      [leiturista.user_id, leiturista.id],
+    ],
+    [
+      `INSERT OR REPLACE INTO leituristas (id, nome, cidade, email, user_id)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        leiturista.id,
+        leiturista.nome,
+        leiturista.cidade,
+        leiturista.email,
+        leiturista.user_id,
+      ],
+    ],
+  ]);
+
+// Get the cached leituristas row of an auth user
+export const getLeituristaByUserId = async (
+  userId: string,
+): Promise<Leiturista | null> => {
+  const rows = await query(
+    "SELECT id, nome, cidade, email, user_id FROM leituristas WHERE user_id = ?",
+    [userId],
+  );
+  return rows[0] || null;
+};
+
 // Get routes for a specific leiturista
 export const getRoutesForLeiturista = (
   leituristaId: string,
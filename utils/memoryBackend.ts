@@ -0,0 +1,201 @@
+import type {
+  SyncBackend,
+  RouteTable,
+  ReadingAck,
+  SyncPolicyRow,
+} from "./syncBackend";
+
+// Sync backend that keeps everything in memory, for running the app and its
+// syncs without a server. It answers like the real backends: route data
+// scoped to the reader, readings upserted by id and photos stored by key.
+
+type Row = Record<string, any>;
+
+export interface MemoryBackendData {
+  bairros: Row[];
+  ruas: Row[];
+  residencias: Row[];
+  clientes: Row[];
+  roteiros: Row[];
+  leituristas: Row[];
+  leituras: Row[];
+  politicas_sincronizacao: SyncPolicyRow[];
+  // Keys of the stored photos with their content type
+  fotos: Record<string, string>;
+}
+
+export interface MemoryBackend extends SyncBackend {
+  // The backend's tables, for seeding and inspecting them
+  data: MemoryBackendData;
+}
+
+const emptyData = (): MemoryBackendData => ({
+  bairros: [],
+  ruas: [],
+  residencias: [],
+  clientes: [],
+  roteiros: [],
+  leituristas: [],
+  leituras: [],
+  politicas_sincronizacao: [],
+  fotos: {},
+});
+
+// Rows of every route table assigned to a reader
+const getAssignedRows = (
+  data: MemoryBackendData,
+  leituristaId: string,
+): Record<RouteTable, Row[]> => {
+  const roteiros = data.roteiros.filter(
+    (roteiro) => roteiro.leiturista_id === leituristaId,
+  );
+  const ruaIds = new Set(roteiros.map((roteiro) => roteiro.rua_id));
+  const ruas = data.ruas.filter((rua) => ruaIds.has(rua.id));
+  const bairroIds = new Set(ruas.map((rua) => rua.bairro_id));
+  const residencias = data.residencias.filter((residencia) =>
+    ruaIds.has(residencia.rua_id),
+  );
+  const residenciaIds = new Set(residencias.map((residencia) => residencia.id));
+
+  return {
+    bairros: data.bairros.filter((bairro) => bairroIds.has(bairro.id)),
+    ruas,
+    residencias,
+    clientes: data.clientes.filter((cliente) =>
+      residenciaIds.has(cliente.residencia_id),
+    ),
+    roteiros,
+  };
+};
+
+// Copy rows so callers can't change the stored ones
+const copyRows = (rows: Row[]): Row[] => rows.map((row) => ({ ...row }));
+
+export const createMemoryBackend = (
+  seed: Partial<MemoryBackendData> = {},
+): MemoryBackend => {
+  const data: MemoryBackendData = { ...emptyData(), ...seed };
+
+  return {
+    name: "memory",
+    data,
+
+    fetchRoutes: async (leituristaId) => {
+      const assigned = getAssignedRows(data, leituristaId);
+      const tree = assigned.roteiros.map((roteiro) => {
+        const rua = assigned.ruas.find((row) => row.id === roteiro.rua_id);
+        return {
+          ...roteiro,
+          ruas: rua && {
+            ...rua,
+            bairros: assigned.bairros.find((row) => row.id === rua.bairro_id),
+            residencias: assigned.residencias
+              .filter((residencia) => residencia.rua_id === rua.id)
+              .map((residencia) => ({
+                ...residencia,
+                clientes: copyRows(
+                  assigned.clientes.filter(
+                    (cliente) => cliente.residencia_id === residencia.id,
+                  ),
+                ),
+              })),
+          },
+        };
+      });
+      return { data: tree, error: null };
+    },
+
+    fetchChanges: async (table, leituristaId, since) => ({
+      data: copyRows(
+        getAssignedRows(data, leituristaId)[table].filter(
+          (row) => row.updated_at >= since,
+        ),
+      ),
+      error: null,
+    }),
+
+    fetchAssignedIds: async (table, leituristaId, offset, limit) => ({
+      data: getAssignedRows(data, leituristaId)
+        [table].map((row) => ({ id: row.id }))
+        .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .slice(offset, offset + limit),
+      error: null,
+    }),
+
+    upsertReadings: async (readings) => {
+      const acks: ReadingAck[] = [];
+      for (const reading of readings) {
+        const stored = { ...reading, updated_at: new Date().toISOString() };
+        const index = data.leituras.findIndex((row) => row.id === reading.id);
+        if (index === -1) {
+          data.leituras.push(stored);
+        } else if ((data.leituras[index].versao ?? 1) < reading.versao) {
+          data.leituras[index] = stored;
+        }
+        // Like upsert_leituras, a stale reading is answered with the newer
+        // version that was kept
+        const kept = index === -1 ? stored : data.leituras[index];
+        acks.push({ id: kept.id, versao: kept.versao });
+      }
+      return { data: acks, error: null };
+    },
+
+    ack: async (leituristaId, from, to) => ({
+      data: data.leituras
+        .filter(
+          (row) =>
+            row.leiturista_id === leituristaId &&
+            row.data_leitura >= from &&
+            row.data_leitura <= to,
+        )
+        .map((row) => ({
+          id: row.id,
+          versao: row.versao,
+          leitura_valor: row.leitura_valor,
+          status: row.status,
+          data_leitura: row.data_leitura,
+        })),
+      error: null,
+    }),
+
+    photoExists: async (key) => key in data.fotos,
+
+    uploadPhoto: async (key, _fileUri, contentType, signal) => {
+      if (signal?.aborted) {
+        throw new Error("Operation aborted");
+      }
+      data.fotos[key] = contentType;
+    },
+
+    fetchSyncPolicies: async (leituristaId) => {
+      const cidade = data.leituristas.find(
+        (leiturista) => leiturista.id === leituristaId,
+      )?.cidade;
+      return {
+        data: data.politicas_sincronizacao.filter(
+          (policy) =>
+            policy.leiturista_id === leituristaId ||
+            (!!cidade && policy.cidade === cidade),
+        ),
+        error: null,
+      };
+    },
+
+    fetchLeituristas: async (userId, email) => ({
+      data: data.leituristas
+        .filter(
+          (leiturista) =>
+            leiturista.user_id === userId ||
+            (!!email && leiturista.email === email),
+        )
+        .map((leiturista) => ({
+          id: leiturista.id,
+          nome: leiturista.nome,
+          cidade: leiturista.cidade,
+          email: leiturista.email ?? null,
+          user_id: leiturista.user_id ?? null,
+        })),
+      error: null,
+    }),
+  };
+};
@@ -0,0 +1,263 @@
+import NetInfo from "@react-native-community/netinfo";
+
+// Typed errors for talking to the server. The transport turns a failed
+// request into one of these instead of guessing from error messages, the
+// sync passes them on unchanged, and retry policies ask them whether trying
+// again can help.
+
+export type NetworkErrorKind =
+  | "offline"
+  | "timeout"
+  | "rate-limited"
+  | "connection-reset"
+  | "auth-expired"
+  | "server"
+  | "validation"
+  | "cursor-expired"
+  | "circuit-open";
+
+export class NetworkError extends Error {
+  readonly kind: NetworkErrorKind;
+  // Whether the same request may succeed when sent again
+  readonly retryable: boolean;
+  // HTTP status when the server replied
+  readonly status: number | null;
+  // Stable code, kept when a library copies the error into its own shape
+  readonly code: string;
+  readonly cause?: unknown;
+
+  constructor(
+    kind: NetworkErrorKind,
+    code: string,
+    message: string,
+    options: { retryable: boolean; status?: number | null; cause?: unknown },
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.code = code;
+    this.retryable = options.retryable;
+    this.status = options.status ?? null;
+    this.cause = options.cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// The device has no connection
+export class OfflineError extends NetworkError {
+  static readonly code = "NETWORK_OFFLINE";
+  constructor(message = "Dispositivo sem conexão", cause?: unknown) {
+    super("offline", OfflineError.code, message, { retryable: true, cause });
+  }
+}
+
+// The server didn't answer in time, or gave up waiting for the request
+// (408)
+export class RequestTimeoutError extends NetworkError {
+  static readonly code = "NETWORK_TIMEOUT";
+  constructor(
+    message = "Tempo de resposta esgotado",
+    cause?: unknown,
+    status: number | null = null,
+  ) {
+    super("timeout", RequestTimeoutError.code, message, {
+      retryable: true,
+      status,
+      cause,
+    });
+  }
+}
+
+// The server asked to slow down (429). The request may be sent again, once
+// the wait the server asked for with Retry-After is over.
+export class RateLimitedError extends NetworkError {
+  static readonly code = "RATE_LIMITED";
+  // How long the server asked to wait, when it said
+  readonly retryAfterMs: number | null;
+  constructor(
+    message = "Muitas requisições, aguarde um pouco",
+    retryAfterMs: number | null = null,
+  ) {
+    super("rate-limited", RateLimitedError.code, message, {
+      retryable: true,
+      status: 429,
+    });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The connection failed or was cut, including mid-response (premature close)
+export class ConnectionResetError extends NetworkError {
+  static readonly code = "NETWORK_CONNECTION_RESET";
+  constructor(message = "Conexão interrompida", cause?: unknown) {
+    super("connection-reset", ConnectionResetError.code, message, {
+      retryable: true,
+      cause,
+    });
+  }
+}
+
+// The session is no longer accepted; the user has to sign in again
+export class AuthExpiredError extends NetworkError {
+  static readonly code = "AUTH_EXPIRED";
+  constructor(message = "Sessão expirada", status = 401) {
+    super("auth-expired", AuthExpiredError.code, message, {
+      retryable: false,
+      status,
+    });
+  }
+}
+
+// The server failed (5xx)
+export class ServerError extends NetworkError {
+  static readonly code = "SERVER_ERROR";
+  constructor(message: string, status: number) {
+    super("server", ServerError.code, message, { retryable: true, status });
+  }
+}
+
+// The server rejected the request (4xx); sending it again won't help
+export class ValidationError extends NetworkError {
+  static readonly code = "VALIDATION_ERROR";
+  constructor(message: string, status: number) {
+    super("validation", ValidationError.code, message, {
+      retryable: false,
+      status,
+    });
+  }
+}
+
+// Status of the reply refusing an incremental download
+export const CURSOR_EXPIRED_STATUS = 410;
+
+// The server no longer keeps the changes since the cursor of an incremental
+// download, so only a full download can bring the device up to date
+export class CursorExpiredError extends NetworkError {
+  static readonly code = "CURSOR_EXPIRED";
+  constructor(message = "Cursor de sincronização expirado") {
+    super("cursor-expired", CursorExpiredError.code, message, {
+      retryable: false,
+      status: CURSOR_EXPIRED_STATUS,
+    });
+  }
+}
+
+// Requests to the endpoint are held back after repeated failures, so the
+// request was not sent. Retrying before the circuit closes again can't help.
+export class CircuitOpenError extends NetworkError {
+  static readonly code = "CIRCUIT_OPEN";
+  constructor(message = "Servidor indisponível, tente novamente mais tarde") {
+    super("circuit-open", CircuitOpenError.code, message, {
+      retryable: false,
+    });
+  }
+}
+
+// Milliseconds a Retry-After header asks to wait; it holds seconds or an
+// HTTP date
+export const parseRetryAfter = (
+  value: string | null | undefined,
+): number | null => {
+  if (!value?.trim()) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+// The typed error for an HTTP reply, or null when the status is a success.
+// `retryAfter` is the reply's Retry-After header, if any.
+export const errorFromStatus = (
+  status: number,
+  message?: string,
+  retryAfter?: string | null,
+): NetworkError | null => {
+  if (status === 401) {
+    return new AuthExpiredError(message || undefined);
+  }
+  if (status === 408) {
+    return new RequestTimeoutError(message || undefined, undefined, status);
+  }
+  if (status === 429) {
+    return new RateLimitedError(
+      message || undefined,
+      parseRetryAfter(retryAfter),
+    );
+  }
+  if (status >= 500) {
+    return new ServerError(message || `Erro no servidor (${status})`, status);
+  }
+  if (status >= 400) {
+    return new ValidationError(
+      message || `Requisição recusada (${status})`,
+      status,
+    );
+  }
+  return null;
+};
+
+// The typed error of a changes download, where a 410 reply means the
+// server refused the cursor
+export const errorFromChangesReply = (error: any): any =>
+  error instanceof NetworkError && error.status === CURSOR_EXPIRED_STATUS
+    ? new CursorExpiredError(error.message)
+    : error;
+
+// The typed error for a request that got no reply. The caller's own abort
+// is not a network error and is left to the caller.
+export const errorFromFailedRequest = async (
+  error: unknown,
+  timedOut: boolean,
+): Promise<NetworkError> => {
+  if (error instanceof NetworkError) return error;
+  if (timedOut) return new RequestTimeoutError(undefined, error);
+
+  const netInfo = await NetInfo.fetch().catch(() => null);
+  if (netInfo && netInfo.isConnected === false) {
+    return new OfflineError(undefined, error);
+  }
+  return new ConnectionResetError(undefined, error);
+};
+
+// The HTTP status an error from a client library carries, e.g. the
+// StorageApiError of supabase-js storage calls
+export const getErrorStatus = (error: unknown): number | null =>
+  typeof error === "object" &&
+  error !== null &&
+  "status" in error &&
+  typeof error.status === "number"
+    ? error.status
+    : null;
+
+// Transport errors by code, for errors that were copied into a plain object
+// on their way through a client library
+const TRANSPORT_ERRORS: Record<string, (message: string) => NetworkError> = {
+  [OfflineError.code]: (message) => new OfflineError(message),
+  [RequestTimeoutError.code]: (message) => new RequestTimeoutError(message),
+  [ConnectionResetError.code]: (message) => new ConnectionResetError(message),
+  [CircuitOpenError.code]: (message) => new CircuitOpenError(message),
+};
+
+// Turn an error from a client library into a typed error. supabase-js
+// returns transport errors as { message, code } with status 0 and server
+// errors with the reply's status; anything else is returned as is.
+export const toNetworkError = (error: any, status?: number | null): any => {
+  if (!error || error instanceof NetworkError) return error;
+  if (error.originalError instanceof NetworkError) return error.originalError;
+
+  const message = error.message || String(error);
+  const fromCode = TRANSPORT_ERRORS[error.code];
+  if (fromCode) {
+    // supabase-js prefixes the message with the error's name
+    return fromCode(message.replace(/^\w+: /, ""));
+  }
+  return (status && errorFromStatus(status, message)) || error;
+};
+
+// Whether a failed request may succeed when sent again
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof NetworkError && error.retryable;
+
+// Whether the server rejected the data itself, so no retry can succeed
+export const isPermanentError = (error: unknown): boolean =>
+  error instanceof ValidationError;
@@ -0,0 +1,286 @@
+import * as Crypto from "expo-crypto";
+import { isAuthRetryableFetchError } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+import {
+  AuthSession,
+  OfflineCredential,
+  getAuthSession,
+  saveAuthSession,
+  getOfflineCredential,
+  saveOfflineCredential,
+  getOfflineLoginDeclined,
+  saveOfflineLoginDeclined,
+} from "./storage";
+import { confirmOfflineLeituras } from "./database";
+import { requeuePoisonedOutboxItems } from "./outbox";
+import { logInfo, logWarn } from "./logger";
+
+// Offline login. A reader who signed in online once can set a PIN; while the
+// device has no connection, that PIN unlocks the session Supabase cached on
+// the device for a grace period counted from the last time the server
+// validated the user. Readings taken after an offline unlock are attributed
+// to the user and held back from upload until the server validates that user
+// again, so nothing reaches the server on the strength of the PIN alone.
+//
+// The PIN is stored as a salted SHA-256 hash iterated hashIterations times.
+// After maxFailedAttempts wrong PINs the credential is removed and the reader
+// has to sign in online again.
+
+const readGracePeriodHours = (): number => {
+  const hours = Number(process.env.EXPO_PUBLIC_OFFLINE_LOGIN_GRACE_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : 72;
+};
+
+export const OFFLINE_LOGIN_CONFIG = {
+  // How long after the last online validation the PIN unlocks the app; set
+  // with EXPO_PUBLIC_OFFLINE_LOGIN_GRACE_HOURS
+  gracePeriodHours: readGracePeriodHours(),
+  minPinLength: 4,
+  maxFailedAttempts: 5,
+  hashIterations: 1000,
+};
+
+export type OfflineUnlockFailure =
+  "no-credential" | "expired" | "wrong-pin" | "locked";
+
+export interface OfflineUnlockResult {
+  // Set when the PIN unlocked the app
+  session: AuthSession | null;
+  reason: OfflineUnlockFailure | null;
+  // Wrong PINs still allowed before the credential is removed
+  attemptsLeft: number;
+}
+
+export interface OfflineLoginAvailability {
+  available: boolean;
+  // Why offline login can't be used
+  reason: Exclude<OfflineUnlockFailure, "wrong-pin"> | null;
+  email: string | null;
+  // When the grace period ends
+  expiresAt: string | null;
+}
+
+// The server's verdict on an offline session once it can be reached
+export type RevalidationResult =
+  "not-needed" | "validated" | "rejected" | "unreachable";
+
+interface LoginUser {
+  id: string;
+  email?: string | null;
+}
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const hashPin = async (
+  pin: string,
+  salt: string,
+  iterations: number,
+): Promise<string> => {
+  let hash = `${salt}:${pin}`;
+  for (let i = 0; i < iterations; i++) {
+    hash = await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      `${salt}:${hash}`,
+    );
+  }
+  return hash;
+};
+
+// Compare without stopping at the first difference
+const hashesMatch = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+const getExpiry = (credential: OfflineCredential): Date =>
+  new Date(
+    new Date(credential.validatedAt).getTime() +
+      OFFLINE_LOGIN_CONFIG.gracePeriodHours * 60 * 60 * 1000,
+  );
+
+// Whether a PIN is long enough and made of digits only
+export const isValidPin = (pin: string): boolean =>
+  pin.length >= OFFLINE_LOGIN_CONFIG.minPinLength && /^\d+$/.test(pin);
+
+// Record a login the server validated: start an online session, renew the
+// grace period of the user's credential and release the readings the user
+// took offline, and give uploads that ran out of attempts another chance. A
+// credential of another user is removed, since the device now belongs to
+// whoever signed in last.
+export const recordOnlineLogin = async (user: LoginUser): Promise<void> => {
+  await saveAuthSession({
+    userId: user.id,
+    email: user.email || "",
+    mode: "online",
+    startedAt: new Date().toISOString(),
+  });
+
+  const credential = await getOfflineCredential();
+  if (credential && credential.userId !== user.id) {
+    logInfo("Offline login of the previous user removed");
+    await saveOfflineCredential(null);
+  } else if (credential) {
+    await saveOfflineCredential({
+      ...credential,
+      email: user.email || credential.email,
+      validatedAt: new Date().toISOString(),
+      failedAttempts: 0,
+    });
+  }
+
+  const released = await confirmOfflineLeituras(user.id);
+  if (released > 0) {
+    logInfo(`${released} readings taken offline released for upload`);
+  }
+
+  await requeuePoisonedOutboxItems({ exhaustedOnly: true });
+};
+
+// Whether to offer the user to set up offline login after an online login
+export const shouldOfferOfflineLogin = async (
+  userId: string,
+): Promise<boolean> => {
+  const credential = await getOfflineCredential();
+  if (credential?.userId === userId) return false;
+  return (await getOfflineLoginDeclined()) !== userId;
+};
+
+// Remember that the user doesn't want offline login on this device
+export const declineOfflineLogin = async (userId: string): Promise<void> => {
+  await saveOfflineLoginDeclined(userId);
+};
+
+// Set up offline login with a PIN. Must be called right after an online
+// login, since the grace period starts now.
+export const enableOfflineLogin = async (
+  user: LoginUser,
+  pin: string,
+): Promise<void> => {
+  if (!isValidPin(pin)) {
+    throw new Error(
+      `O PIN deve ter pelo menos ${OFFLINE_LOGIN_CONFIG.minPinLength} números`,
+    );
+  }
+  const salt = toHex(Crypto.getRandomBytes(16));
+  const { hashIterations } = OFFLINE_LOGIN_CONFIG;
+  await saveOfflineCredential({
+    userId: user.id,
+    email: user.email || "",
+    hash: await hashPin(pin, salt, hashIterations),
+    salt,
+    iterations: hashIterations,
+    validatedAt: new Date().toISOString(),
+    failedAttempts: 0,
+  });
+  await saveOfflineLoginDeclined(null);
+  logInfo("Offline login enabled");
+};
+
+// Remove the offline login of this device
+export const disableOfflineLogin = async (): Promise<void> => {
+  await saveOfflineCredential(null);
+};
+
+// Whether the PIN can unlock the app now
+export const getOfflineLoginAvailability =
+  async (): Promise<OfflineLoginAvailability> => {
+    const credential = await getOfflineCredential();
+    if (!credential) {
+      return {
+        available: false,
+        reason: "no-credential",
+        email: null,
+        expiresAt: null,
+      };
+    }
+    const expiresAt = getExpiry(credential);
+    const expired = expiresAt.getTime() <= Date.now();
+    return {
+      available: !expired,
+      reason: expired ? "expired" : null,
+      email: credential.email,
+      expiresAt: expiresAt.toISOString(),
+    };
+  };
+
+// Unlock the cached session with the PIN and start an offline session
+export const unlockOffline = async (
+  pin: string,
+): Promise<OfflineUnlockResult> => {
+  const { maxFailedAttempts } = OFFLINE_LOGIN_CONFIG;
+  const credential = await getOfflineCredential();
+  if (!credential) {
+    return { session: null, reason: "no-credential", attemptsLeft: 0 };
+  }
+  if (getExpiry(credential).getTime() <= Date.now()) {
+    return { session: null, reason: "expired", attemptsLeft: 0 };
+  }
+
+  const hash = await hashPin(pin, credential.salt, credential.iterations);
+  if (!hashesMatch(hash, credential.hash)) {
+    const failedAttempts = credential.failedAttempts + 1;
+    if (failedAttempts >= maxFailedAttempts) {
+      logWarn("Too many wrong PINs, offline login removed");
+      await saveOfflineCredential(null);
+      return { session: null, reason: "locked", attemptsLeft: 0 };
+    }
+    await saveOfflineCredential({ ...credential, failedAttempts });
+    return {
+      session: null,
+      reason: "wrong-pin",
+      attemptsLeft: maxFailedAttempts - failedAttempts,
+    };
+  }
+
+  if (credential.failedAttempts > 0) {
+    await saveOfflineCredential({ ...credential, failedAttempts: 0 });
+  }
+  const session: AuthSession = {
+    userId: credential.userId,
+    email: credential.email,
+    mode: "offline",
+    startedAt: new Date().toISOString(),
+  };
+  await saveAuthSession(session);
+  logInfo("Session unlocked offline", { userId: credential.userId });
+  return { session, reason: null, attemptsLeft: maxFailedAttempts };
+};
+
+// Ask the server about the user of an offline session. A validated user
+// becomes an online session and their offline readings are released; a
+// rejected one loses the offline login and their readings stay held until
+// they sign in online.
+export const revalidateOfflineSession =
+  async (): Promise<RevalidationResult> => {
+    const session = await getAuthSession();
+    if (session?.mode !== "offline") return "not-needed";
+
+    const {
+      data: { user },
+      error,
+    } = await supabase.auth.getUser();
+    if (error && isAuthRetryableFetchError(error)) return "unreachable";
+
+    if (!user || user.id !== session.userId) {
+      logWarn("Offline session rejected by the server", {
+        userId: session.userId,
+        error: error?.message,
+      });
+      await saveOfflineCredential(null);
+      return "rejected";
+    }
+
+    await recordOnlineLogin(user);
+    logInfo("Offline session validated online", { userId: user.id });
+    return "validated";
+  };
+
+// End the session of the current user
+export const endAuthSession = async (): Promise<void> => {
+  await saveAuthSession(null);
+};
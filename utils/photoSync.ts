@@ -0,0 +1,160 @@
+import NetInfo from "@react-native-community/netinfo";
+import * as FileSystem from "expo-file-system";
+import {
+  PhotoUpload,
+  enqueuePendingPhotos,
+  replaceReadingPhotoPath,
+  getPhotoUploadWifiOnly,
+} from "./storage";
+import { getSyncBackend } from "./syncBackend";
+import { isPermanentError } from "./networkErrors";
+import {
+  getDueOutboxItems,
+  completeOutboxItem,
+  failOutboxItem,
+  updateOutboxPayload,
+} from "./outbox";
+import { logInfo, logError, logWarn } from "./logger";
+import { SyncProgressReporter } from "./syncProgress";
+
+// Photo sync: meter photos referenced by readings are uploaded to the sync
+// backend through the outbox. Photos are stored under a key derived from the
+// reading, so an upload interrupted by a crash, a lost connection or the app
+// being closed is simply picked up again from the outbox on the next run,
+// and an object that made it to the store before the interruption is not
+// uploaded a second time. Uploads are resumable and the outbox item keeps
+// the upload's URL and offset, so the next run continues from the last byte
+// the server stored. The reading keeps its local path until the upload has
+// succeeded.
+
+export interface PhotoSyncResult {
+  success: boolean;
+  syncedCount: number;
+  errorCount: number;
+  // Set when uploads were postponed until the device is on Wi-Fi
+  deferred: boolean;
+}
+
+export interface PhotoSyncOptions {
+  signal?: AbortSignal;
+  progress?: SyncProgressReporter;
+  // Overrides the stored Wi-Fi only setting
+  wifiOnly?: boolean;
+}
+
+// Maximum number of photos uploaded per sync run
+const PHOTO_BATCH_SIZE = 20;
+
+// Copy a captured photo out of the camera cache into the app's documents, so
+// it survives until it has been uploaded
+export const persistReadingPhoto = async (
+  uri: string,
+  readingId: string,
+): Promise<string> => {
+  const directory = `${FileSystem.documentDirectory}fotos/`;
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  const extension = uri.match(/\.(\w+)$/)?.[1] || "jpg";
+  const target = `${directory}${readingId}.${extension}`;
+  await FileSystem.copyAsync({ from: uri, to: target });
+  return target;
+};
+
+// Check whether the device is on a network photos may be uploaded over
+const isOnUnmeteredNetwork = async (): Promise<boolean> => {
+  const netInfo = await NetInfo.fetch();
+  return netInfo.type === "wifi" || netInfo.type === "ethernet";
+};
+
+// Upload the photos that are due in the outbox
+export const syncPendingPhotos = async (
+  options: PhotoSyncOptions = {},
+): Promise<PhotoSyncResult> => {
+  const { signal, progress } = options;
+  let syncedCount = 0;
+  let errorCount = 0;
+
+  const enqueuedCount = await enqueuePendingPhotos();
+  if (enqueuedCount > 0) {
+    logInfo(`Queued ${enqueuedCount} pending photos in the outbox`);
+  }
+
+  const items = await getDueOutboxItems<PhotoUpload>("foto", PHOTO_BATCH_SIZE);
+  if (items.length === 0) {
+    return { success: true, syncedCount, errorCount, deferred: false };
+  }
+
+  const wifiOnly = options.wifiOnly ?? (await getPhotoUploadWifiOnly());
+  if (wifiOnly && !(await isOnUnmeteredNetwork())) {
+    logInfo(`Deferring ${items.length} photo uploads until Wi-Fi is available`);
+    return { success: true, syncedCount, errorCount, deferred: true };
+  }
+
+  const backend = getSyncBackend();
+  logInfo(`Uploading ${items.length} photos to ${backend.name}`);
+  progress?.phase("uploading-photos", items.length);
+
+  for (const item of items) {
+    if (signal?.aborted) {
+      logWarn("Photo sync aborted");
+      break;
+    }
+
+    const upload = item.payload;
+    progress?.update({ currentEntity: upload.leituraId });
+    try {
+      // The object may already be there if the previous attempt was cut
+      // off after the upload but before it was recorded
+      if (!(await backend.photoExists(upload.remoteKey))) {
+        const info = await FileSystem.getInfoAsync(upload.localPath);
+        if (!info.exists) {
+          throw new Error("Arquivo da foto não encontrado no dispositivo");
+        }
+        let bytesReported = 0;
+        await backend.uploadPhoto(
+          upload.remoteKey,
+          upload.localPath,
+          upload.contentType,
+          signal,
+          (bytesSent) => {
+            progress?.advance(0, bytesSent - bytesReported);
+            bytesReported = bytesSent;
+          },
+          {
+            state: upload.resumable || null,
+            save: (resumable) =>
+              updateOutboxPayload(item.id, { ...upload, resumable }),
+          },
+        );
+      }
+
+      if (!(await replaceReadingPhotoPath(upload))) {
+        logInfo(`Reading ${upload.leituraId} has a different photo now`);
+      }
+      await completeOutboxItem(item.id);
+      syncedCount++;
+      progress?.advance();
+    } catch (error: any) {
+      if (signal?.aborted) {
+        logWarn("Photo sync aborted");
+        break;
+      }
+      logError(`Error uploading photo for ${upload.leituraId}`, error);
+      await failOutboxItem(
+        item,
+        error?.message || "Erro desconhecido",
+        isPermanentError(error),
+      );
+      errorCount++;
+      progress?.error(error?.message || "Erro desconhecido");
+      progress?.advance();
+    }
+  }
+
+  logInfo("Photo sync finished", { syncedCount, errorCount });
+  return {
+    success: errorCount === 0,
+    syncedCount,
+    errorCount,
+    deferred: false,
+  };
+};
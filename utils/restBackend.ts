@@ -0,0 +1,193 @@
+import { supabase } from "./supabaseClient";
+import type { SyncBackend, BackendResponse } from "./syncBackend";
+import {
+  errorFromFailedRequest,
+  errorFromStatus,
+  errorFromChangesReply,
+} from "./networkErrors";
+import { withResilience } from "./resilience";
+import { uploadResumable } from "./resumableUpload";
+
+// Sync backend talking to our own REST API. Users still sign in with
+// Supabase Auth, so requests carry the Supabase access token.
+//
+// Endpoints, relative to the base URL:
+//   GET  /leituristas/:id/roteiros                     route tree
+//   GET  /leituristas/:id/:table?since=                changed rows
+//   GET  /leituristas/:id/:table/ids?offset=&limit=    assigned ids
+//   GET  /leituristas/:id/leituras?from=&to=           stored readings
+//   GET  /leituristas/:id/politicas-sincronizacao      sync policies
+//   GET  /leituristas?user_id=&email=                  rows of an auth user
+//   POST /leituras                                     upsert readings
+//   HEAD /fotos/:key                                   photo check
+//   POST /fotos/uploads, HEAD|PATCH /fotos/uploads/:id resumable (tus)
+//                                                      photo uploads
+//
+// A changes request whose `since` is older than the server keeps changes for
+// is answered with 410 Gone, and the sync downloads everything instead.
+//
+// POST /leituras only replaces a stored reading whose versao is lower than
+// the one sent, and replies with the id and versao it holds for each
+// reading, like the upsert_leituras function on Supabase.
+
+// Build the request headers, with the user's token when signed in
+const getHeaders = async (
+  extra: Record<string, string> = {},
+): Promise<Record<string, string>> => {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return {
+    Accept: "application/json",
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    ...extra,
+  };
+};
+
+// Send a request once; a request that gets no reply fails with a typed
+// network error
+const fetchOnce = async (
+  url: RequestInfo | URL,
+  init?: RequestInit,
+): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (init?.signal?.aborted) throw error;
+    throw await errorFromFailedRequest(error, false);
+  }
+};
+
+// Requests share the circuit breaker, retry budget and backoff of the
+// Supabase client
+const resilientFetch = withResilience(fetchOnce);
+
+export const createRestBackend = (baseUrl: string): SyncBackend => {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  // Send a JSON request; failures are returned as typed network errors, not
+  // thrown, like supabase-js
+  const request = async <T>(
+    method: string,
+    path: string,
+    signal?: AbortSignal,
+    body?: unknown,
+  ): Promise<BackendResponse<T>> => {
+    try {
+      const response = await resilientFetch(`${base}${path}`, {
+        method,
+        headers: await getHeaders(
+          body !== undefined ? { "Content-Type": "application/json" } : {},
+        ),
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal,
+      });
+      if (!response.ok) {
+        const message = await response.text().catch(() => "");
+        return {
+          data: null,
+          error: errorFromStatus(
+            response.status,
+            message || undefined,
+            response.headers.get("retry-after"),
+          ),
+        };
+      }
+      return { data: (await response.json()) as T, error: null };
+    } catch (error) {
+      if (signal?.aborted) return { data: null, error };
+      return { data: null, error: await errorFromFailedRequest(error, false) };
+    }
+  };
+
+  const leiturista = (id: string) => `/leituristas/${encodeURIComponent(id)}`;
+  const withQuery = (path: string, params: Record<string, string | number>) =>
+    `${path}?${Object.entries(params)
+      .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+      .join("&")}`;
+  const photoUrl = (key: string) =>
+    `${base}/fotos/${key.split("/").map(encodeURIComponent).join("/")}`;
+
+  return {
+    name: `rest:${base}`,
+
+    fetchRoutes: (leituristaId, signal) =>
+      request("GET", `${leiturista(leituristaId)}/roteiros`, signal),
+
+    fetchChanges: async (table, leituristaId, since, signal) => {
+      const { data, error } = await request<any[]>(
+        "GET",
+        withQuery(`${leiturista(leituristaId)}/${table}`, { since }),
+        signal,
+      );
+      return { data, error: errorFromChangesReply(error) };
+    },
+
+    fetchAssignedIds: (table, leituristaId, offset, limit, signal) =>
+      request(
+        "GET",
+        withQuery(`${leiturista(leituristaId)}/${table}/ids`, {
+          offset,
+          limit,
+        }),
+        signal,
+      ),
+
+    upsertReadings: (readings, signal) =>
+      request("POST", "/leituras", signal, readings),
+
+    ack: (leituristaId, from, to, signal) =>
+      request(
+        "GET",
+        withQuery(`${leiturista(leituristaId)}/leituras`, { from, to }),
+        signal,
+      ),
+
+    photoExists: async (key) => {
+      const response = await resilientFetch(photoUrl(key), {
+        method: "HEAD",
+        headers: await getHeaders(),
+      });
+      if (response.status === 404) return false;
+      const error = errorFromStatus(
+        response.status,
+        `Photo check failed with status ${response.status}`,
+      );
+      if (error) throw error;
+      return true;
+    },
+
+    uploadPhoto: async (
+      key,
+      fileUri,
+      contentType,
+      signal,
+      onProgress,
+      session,
+    ) =>
+      uploadResumable({
+        endpoint: `${base}/fotos/uploads`,
+        fileUri,
+        headers: await getHeaders(),
+        metadata: { objectName: key, contentType },
+        fetch: resilientFetch,
+        resumeFrom: session?.state,
+        onStateChange: session?.save,
+        signal,
+        onProgress,
+      }),
+
+    fetchSyncPolicies: (leituristaId, signal) =>
+      request(
+        "GET",
+        `${leiturista(leituristaId)}/politicas-sincronizacao`,
+        signal,
+      ),
+
+    fetchLeituristas: (userId, email, signal) =>
+      request(
+        "GET",
+        withQuery("/leituristas", { user_id: userId, email: email || "" }),
+        signal,
+      ),
+  };
+};
@@ -0,0 +1,424 @@
+import { useEffect, useState } from "react";
+import {
+  checkOnlineStatus,
+  setupNetworkListener,
+  syncFromSupabase,
+  syncToSupabase,
+  SyncResult,
+} from "./syncService";
+import { getLastLeituristaId, saveLastLeituristaId } from "./storage";
+import {
+  getSyncPolicy,
+  isAutomaticSyncDue,
+  downloadSyncPolicy,
+} from "./syncPolicy";
+import {
+  SyncTrigger,
+  SyncRunOutcome,
+  startSyncRun,
+  finishSyncRun,
+  closeInterruptedSyncRuns,
+} from "./syncHistory";
+import { logInfo, logWarn, logError } from "./logger";
+import { NetworkError } from "./networkErrors";
+import { startRetryBudget, finishRetryBudget } from "./resilience";
+import { revalidateOfflineSession } from "./offlineAuth";
+import { getCurrentLeiturista } from "./leiturista";
+import { requeuePoisonedOutboxItems } from "./outbox";
+
+// The sync engine is the single entry point for running syncs. It keeps one
+// state machine for the whole app, makes sure only one sync runs at a time
+// (concurrent requests wait for the running one, and a request for a kind
+// that is already running or queued shares its result), pauses syncs while
+// the device is offline and resumes them when the connection comes back.
+
+// download: refresh routes from the server; upload: send pending readings
+// and photos; full: upload first, then download
+export type SyncKind = "download" | "upload" | "full";
+
+export type SyncEngineStatus =
+  | "idle"
+  | "downloading"
+  | "uploading"
+  | "paused-offline"
+  | "failed"
+  | "done";
+
+export interface SyncEngineState {
+  status: SyncEngineStatus;
+  // Kind of the running sync, or of the last one
+  kind: SyncKind | null;
+  isOnline: boolean;
+  lastResult: SyncResult | null;
+  lastError: string | null;
+  // When the last sync finished, successfully or not
+  lastSyncAt: string | null;
+}
+
+export interface SyncRequestOptions {
+  // Needed for downloads
+  leituristaId?: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // What asked for the sync, recorded in the sync history; defaults to
+  // "manual"
+  trigger?: SyncTrigger;
+}
+
+export type SyncEngineListener = (state: SyncEngineState) => void;
+
+let state: SyncEngineState = {
+  status: "idle",
+  kind: null,
+  isOnline: true,
+  lastResult: null,
+  lastError: null,
+  lastSyncAt: null,
+};
+
+const listeners = new Set<SyncEngineListener>();
+
+// Requests that are running or waiting for the lock, by kind
+const inFlight = new Map<SyncKind, Promise<SyncResult>>();
+// Tail of the queue of requests; each request runs after the previous one
+let lock: Promise<unknown> = Promise.resolve();
+// Controller of the running sync, for cancelSync
+let currentController: AbortController | null = null;
+// Request that could not run because the device was offline
+let pausedRequest: { kind: SyncKind; options: SyncRequestOptions } | null =
+  null;
+
+// Whether runs left unfinished by a previous app session were closed
+let interruptedRunsClosed = false;
+
+// Leiturista of the last download, reused when a download is resumed or
+// requested without one
+let lastLeituristaId: string | null = null;
+
+const setState = (changes: Partial<SyncEngineState>): void => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => {
+    try {
+      listener(state);
+    } catch (error) {
+      console.error("Error in sync engine listener:", error);
+    }
+  });
+};
+
+// Get the current engine state
+export const getSyncEngineState = (): SyncEngineState => state;
+
+// Subscribe to engine state changes; returns the unsubscribe function
+export const subscribeToSyncEngine = (
+  listener: SyncEngineListener,
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const offlineResult = (): SyncResult => ({
+  success: false,
+  syncedCount: 0,
+  errorCount: 0,
+});
+
+// Combine the results of the two halves of a full sync
+const combineResults = (
+  upload: SyncResult,
+  download: SyncResult,
+): SyncResult => {
+  if (upload.cancelled) return upload;
+  if (download.cancelled) return download;
+  return {
+    success: upload.success && download.success,
+    syncedCount: upload.syncedCount + download.syncedCount,
+    errorCount: upload.errorCount + download.errorCount,
+  };
+};
+
+// Describe a failed result for the UI
+const describeFailure = (result: SyncResult): string | null => {
+  if (result.cancelled) {
+    return result.reason === "timeout"
+      ? "Tempo limite da sincronização excedido"
+      : "Sincronização cancelada";
+  }
+  if (result.success) return null;
+  // A single failure is shown as the transport reported it
+  const error = "error" in result ? result.error : null;
+  if (result.errorCount <= 1 && error instanceof NetworkError) {
+    return error.message;
+  }
+  return result.errorCount > 0
+    ? `${result.errorCount} itens não foram sincronizados`
+    : "Não foi possível sincronizar";
+};
+
+// Status of a finished run in the sync history
+const toRunStatus = (result: SyncResult): SyncRunOutcome["status"] => {
+  if (result.cancelled) return "cancelled";
+  return result.success ? "done" : "failed";
+};
+
+// Upload and/or download, depending on the kind
+const executeSync = async (
+  kind: SyncKind,
+  options: SyncRequestOptions,
+  signal: AbortSignal,
+): Promise<SyncResult> => {
+  const syncOptions = { signal, timeoutMs: options.timeoutMs };
+  // The signed-in reader, or the last one whose routes were downloaded
+  const leituristaId =
+    options.leituristaId ||
+    (await getCurrentLeiturista())?.id ||
+    lastLeituristaId ||
+    (await getLastLeituristaId());
+  let result: SyncResult;
+
+  if (kind !== "download") {
+    setState({ status: "uploading", kind, lastError: null });
+    // Readings taken after an offline login are only uploaded once the
+    // server has validated their user
+    if ((await revalidateOfflineSession()) === "rejected") {
+      logWarn("Offline readings held until the user signs in online");
+    }
+    // A sync the user asked for also retries the items that ran out of
+    // attempts
+    if ((options.trigger || "manual") === "manual") {
+      await requeuePoisonedOutboxItems({ exhaustedOnly: true });
+    }
+    result = await syncToSupabase(syncOptions);
+  } else {
+    result = { success: true, syncedCount: 0, errorCount: 0 };
+  }
+
+  if (kind !== "upload" && !result.cancelled) {
+    if (!leituristaId) {
+      const message = "Leiturista desconhecido, não é possível baixar rotas";
+      if (kind === "download") throw new Error(message);
+      // The upload of a full sync doesn't need the reader and keeps its
+      // result; only the download is skipped
+      logWarn("No leiturista to download routes for, skipping the download");
+      setState({ lastError: message });
+      return combineResults(result, {
+        success: false,
+        syncedCount: 0,
+        errorCount: 0,
+        error: new Error(message),
+      });
+    }
+    if (leituristaId !== lastLeituristaId) {
+      lastLeituristaId = leituristaId;
+      await saveLastLeituristaId(leituristaId);
+    }
+    setState({ status: "downloading", kind, lastError: null });
+    const download = await syncFromSupabase(leituristaId, syncOptions);
+    if (download.success) {
+      // The policy may have changed along with the routes
+      await downloadSyncPolicy(leituristaId, signal);
+    }
+    result = kind === "full" ? combineResults(result, download) : download;
+  }
+  return result;
+};
+
+// Run one sync while holding the lock. Every path, a failed setup included,
+// ends with the engine state and the sync history updated.
+const runSync = async (
+  kind: SyncKind,
+  options: SyncRequestOptions,
+): Promise<SyncResult> => {
+  const controller = new AbortController();
+  currentController = controller;
+  const onCallerAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", onCallerAbort, { once: true });
+
+  let runId: string | null = null;
+  // Set when the sync didn't start because the device was offline
+  let startedOffline = false;
+  let result: SyncResult;
+  startRetryBudget();
+
+  try {
+    // Nothing can be running yet the first time we get here, so any run
+    // still marked as running was cut off when the app was closed
+    if (!interruptedRunsClosed) {
+      interruptedRunsClosed = true;
+      await closeInterruptedSyncRuns();
+    }
+    runId = await startSyncRun(options.trigger || "manual", kind);
+
+    if (await checkOnlineStatus()) {
+      result = await executeSync(kind, options, controller.signal);
+    } else {
+      startedOffline = true;
+      result = offlineResult();
+    }
+  } catch (error: any) {
+    logError(`Sync ${kind} failed`, error);
+    result = { success: false, syncedCount: 0, errorCount: 1 };
+    setState({ lastError: error?.message || String(error) });
+  } finally {
+    options.signal?.removeEventListener("abort", onCallerAbort);
+    currentController = null;
+    const budget = finishRetryBudget();
+    if (budget?.used) {
+      logInfo(`Sync ${kind} used ${budget.used}/${budget.limit} retries`);
+    }
+  }
+
+  if (startedOffline) {
+    logInfo(`Sync ${kind} paused until the device is back online`);
+    pausedRequest = { kind, options };
+    setState({ status: "paused-offline", kind, isOnline: false });
+    await finishSyncRun(runId, { status: "offline" });
+    return result;
+  }
+
+  const finishedAt = new Date().toISOString();
+
+  // A sync that failed because the connection dropped waits for it
+  if (!result.success && !result.cancelled && !(await checkOnlineStatus())) {
+    logWarn(`Sync ${kind} interrupted by lost connection, will resume`);
+    pausedRequest = { kind, options };
+    setState({
+      status: "paused-offline",
+      isOnline: false,
+      lastResult: result,
+      lastSyncAt: finishedAt,
+    });
+    await finishSyncRun(runId, {
+      status: "offline",
+      syncedCount: result.syncedCount,
+      errorCount: result.errorCount,
+      errorMessage: state.lastError,
+    });
+    return result;
+  }
+
+  pausedRequest = null;
+  const cancelledByUser = result.cancelled && result.reason === "aborted";
+  setState({
+    status: result.success ? "done" : cancelledByUser ? "idle" : "failed",
+    lastResult: result,
+    lastError: state.lastError || describeFailure(result),
+    lastSyncAt: finishedAt,
+  });
+  await finishSyncRun(runId, {
+    status: toRunStatus(result),
+    syncedCount: result.syncedCount,
+    errorCount: result.errorCount,
+    errorMessage: state.lastError,
+  });
+  return result;
+};
+
+// Request a sync. Only one sync runs at a time: a request made while
+// another sync is running starts when it finishes, and a request for a kind
+// that is already running or waiting shares that run's result.
+export const requestSync = (
+  kind: SyncKind,
+  options: SyncRequestOptions = {},
+): Promise<SyncResult> => {
+  const existing = inFlight.get(kind);
+  if (existing) {
+    logInfo(`Sync ${kind} already requested, sharing its result`);
+    return existing;
+  }
+
+  const promise = lock.then(() => runSync(kind, options));
+  lock = promise.catch(() => undefined);
+  inFlight.set(kind, promise);
+  promise
+    .finally(() => {
+      if (inFlight.get(kind) === promise) {
+        inFlight.delete(kind);
+      }
+    })
+    .catch(() => undefined);
+  return promise;
+};
+
+// Cancel the running sync, if any
+export const cancelSync = (): void => {
+  currentController?.abort();
+};
+
+// Upload what was recorded offline once the connection is back, if the
+// sync policy allows it
+const syncOnReconnect = async (): Promise<void> => {
+  const policy = await getSyncPolicy();
+  if (!policy.syncOnReconnect) {
+    logInfo(`Sync on reconnect disabled by the ${policy.source} policy`);
+    return;
+  }
+  if (!(await isAutomaticSyncDue(policy))) {
+    logInfo("Connection restored, but the last sync was too recent");
+    return;
+  }
+  logInfo("Connection restored, uploading pending readings");
+  await requestSync("upload", { trigger: "reconnect" });
+};
+
+// React to connectivity changes: resume the sync that was paused, or upload
+// pending readings as soon as the connection is back
+const handleConnectionChange = (isConnected: boolean): void => {
+  const wasOnline = state.isOnline;
+  setState({ isOnline: isConnected });
+  if (!isConnected || wasOnline === isConnected) return;
+
+  if (pausedRequest) {
+    const { kind, options } = pausedRequest;
+    pausedRequest = null;
+    logInfo(`Connection restored, resuming ${kind} sync`);
+    requestSync(kind, options).catch(() => undefined);
+  } else {
+    syncOnReconnect().catch((error) =>
+      logError("Error syncing after reconnect", error),
+    );
+  }
+};
+
+let engineUsers = 0;
+let stopNetworkListener: (() => void) | null = null;
+
+// Start following connectivity changes. Returns a function that releases
+// this start; the listener stops when every caller has released it.
+export const startSyncEngine = (): (() => void) => {
+  engineUsers++;
+  if (!stopNetworkListener) {
+    stopNetworkListener = setupNetworkListener(handleConnectionChange);
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    engineUsers--;
+    if (engineUsers === 0 && stopNetworkListener) {
+      stopNetworkListener();
+      stopNetworkListener = null;
+    }
+  };
+};
+
+// React hook with the engine state and its controls. Keeps the engine
+// running while the component is mounted.
+export const useSyncEngine = () => {
+  const [engineState, setEngineState] =
+    useState<SyncEngineState>(getSyncEngineState);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSyncEngine(setEngineState);
+    const stop = startSyncEngine();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
+  return { ...engineState, requestSync, cancelSync };
+};
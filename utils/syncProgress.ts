@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+
+// Progress reporting for sync runs. The sync functions publish a
+// SyncProgress snapshot every time something moves; screens subscribe to it
+// (or use the useSyncProgress hook) to show what the sync is doing instead of
+// just a spinner.
+
+export type SyncDirection = "download" | "upload";
+
+export type SyncPhase =
+  | "connecting"
+  | "downloading"
+  | "writing"
+  | "uploading-photos"
+  | "uploading-readings"
+  | "verifying"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface SyncProgress {
+  direction: SyncDirection;
+  phase: SyncPhase;
+  // Items finished and expected in the current phase
+  done: number;
+  total: number;
+  // Bytes moved over the network during the whole run
+  bytesTransferred: number;
+  // What is being worked on right now, e.g. a table name or a reading id
+  currentEntity: string | null;
+  // Errors so far during the whole run
+  errorCount: number;
+  lastError: string | null;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export type SyncProgressListener = (progress: SyncProgress) => void;
+
+export interface SyncProgressReporter {
+  // Publish a change to the current progress
+  update: (changes: Partial<SyncProgress>) => void;
+  // Start a new phase, resetting the item counters
+  phase: (phase: SyncPhase, total?: number) => void;
+  // Count finished items in the current phase
+  advance: (count?: number, bytes?: number) => void;
+  // Count an error
+  error: (message: string) => void;
+  // Publish the final state of the run
+  finish: (outcome: "done" | "failed" | "cancelled") => void;
+}
+
+const listeners = new Set<SyncProgressListener>();
+let currentProgress: SyncProgress | null = null;
+
+// Send a snapshot to every listener
+const publish = (progress: SyncProgress): void => {
+  currentProgress = progress;
+  listeners.forEach((listener) => {
+    try {
+      listener(progress);
+    } catch (error) {
+      console.error("Error in sync progress listener:", error);
+    }
+  });
+};
+
+// Subscribe to progress snapshots; returns the unsubscribe function
+export const subscribeToSyncProgress = (
+  listener: SyncProgressListener,
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Get the latest snapshot, from the running sync or the last one that ran
+export const getSyncProgress = (): SyncProgress | null => currentProgress;
+
+// Start reporting a new sync run
+export const startSyncProgress = (
+  direction: SyncDirection,
+): SyncProgressReporter => {
+  const now = new Date().toISOString();
+  let progress: SyncProgress = {
+    direction,
+    phase: "connecting",
+    done: 0,
+    total: 0,
+    bytesTransferred: 0,
+    currentEntity: null,
+    errorCount: 0,
+    lastError: null,
+    startedAt: now,
+    updatedAt: now,
+  };
+  publish(progress);
+
+  const update = (changes: Partial<SyncProgress>) => {
+    progress = {
+      ...progress,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    publish(progress);
+  };
+
+  return {
+    update,
+    phase: (phase, total = 0) =>
+      update({ phase, done: 0, total, currentEntity: null }),
+    advance: (count = 1, bytes = 0) =>
+      update({
+        done: progress.done + count,
+        bytesTransferred: progress.bytesTransferred + bytes,
+      }),
+    error: (message) =>
+      update({ errorCount: progress.errorCount + 1, lastError: message }),
+    finish: (outcome) => update({ phase: outcome, currentEntity: null }),
+  };
+};
+
+// React hook with the latest sync progress snapshot
+export const useSyncProgress = (): SyncProgress | null => {
+  const [progress, setProgress] = useState<SyncProgress | null>(
+    getSyncProgress,
+  );
+
+  useEffect(() => subscribeToSyncProgress(setProgress), []);
+
+  return progress;
+};
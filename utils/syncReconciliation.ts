@@ -0,0 +1,141 @@
+import { query, Leitura } from "./database";
+import {
+  UploadConfirmation,
+  updateReadingSyncStatus,
+  enqueuePendingReadings,
+  saveUploadConfirmation,
+} from "./storage";
+import { getSyncBackend } from "./syncBackend";
+import { logInfo, logWarn } from "./logger";
+
+// Reconciliation after upload: the local sincronizado flag only says the
+// server acknowledged an upload at some point. This check asks the server
+// which readings it actually holds for each reader over the last days and
+// compares them with the local leituras, so a reading lost on the server
+// (restored backup, deleted row, failed trigger) is queued for upload again
+// instead of silently staying "synced" on the device.
+
+export interface ReconciliationOptions {
+  signal?: AbortSignal;
+  // Number of days back, counting today, to check
+  days?: number;
+}
+
+// Fields of a reading compared with the server's copy
+type ReadingFingerprint = Pick<
+  Leitura,
+  "id" | "versao" | "leitura_valor" | "status" | "data_leitura"
+>;
+
+type LocalReading = ReadingFingerprint & Pick<Leitura, "leiturista_id">;
+
+const DEFAULT_RECONCILIATION_DAYS = 7;
+
+// Compact representation of the fields both sides must agree on
+const fingerprint = (reading: ReadingFingerprint): string =>
+  [reading.leitura_valor ?? "", reading.status, reading.data_leitura].join("|");
+
+// Fetch the readings the server holds for a reader in a date range
+const fetchServerReadings = async (
+  leituristaId: string,
+  from: string,
+  to: string,
+  signal?: AbortSignal,
+): Promise<Map<string, ReadingFingerprint>> => {
+  const { data, error } = await getSyncBackend().ack(
+    leituristaId,
+    from,
+    to,
+    signal,
+  );
+  if (error) throw error;
+
+  const readings = new Map<string, ReadingFingerprint>();
+  for (const row of (data || []) as ReadingFingerprint[]) {
+    readings.set(row.id, row);
+  }
+  return readings;
+};
+
+// Check whether the server's copy covers the local reading. A newer version
+// on the server counts: it was edited there after our upload.
+const isConfirmed = (
+  local: ReadingFingerprint,
+  server: ReadingFingerprint | undefined,
+): boolean => {
+  if (!server) return false;
+  const serverVersion = server.versao ?? 0;
+  if (serverVersion !== local.versao) return serverVersion > local.versao;
+  return fingerprint(server) === fingerprint(local);
+};
+
+// Compare the readings marked as synced with the server's copies and queue
+// the ones the server is missing for upload again
+export const reconcileUploadedReadings = async (
+  options: ReconciliationOptions = {},
+): Promise<UploadConfirmation> => {
+  const { signal, days = DEFAULT_RECONCILIATION_DAYS } = options;
+  const today = new Date();
+  const start = new Date(today);
+  start.setDate(start.getDate() - (days - 1));
+  const from = start.toISOString().split("T")[0];
+  const to = today.toISOString().split("T")[0];
+
+  const localReadings: LocalReading[] = await query(
+    `SELECT id, versao, leitura_valor, status, data_leitura, leiturista_id
+     FROM leituras
+     WHERE sincronizado = 1 AND data_leitura >= ? AND data_leitura <= ?`,
+    [from, to],
+  );
+
+  const byLeiturista = new Map<string, ReadingFingerprint[]>();
+  for (const reading of localReadings) {
+    const readings = byLeiturista.get(reading.leiturista_id) || [];
+    readings.push(reading);
+    byLeiturista.set(reading.leiturista_id, readings);
+  }
+
+  const requeuedIds: string[] = [];
+  for (const [leituristaId, readings] of byLeiturista) {
+    const serverReadings = await fetchServerReadings(
+      leituristaId,
+      from,
+      to,
+      signal,
+    );
+    for (const reading of readings) {
+      if (!isConfirmed(reading, serverReadings.get(reading.id))) {
+        requeuedIds.push(reading.id);
+      }
+    }
+  }
+
+  if (requeuedIds.length > 0) {
+    logWarn(`Server is missing ${requeuedIds.length} uploaded readings`, {
+      requeuedIds,
+    });
+    for (const id of requeuedIds) {
+      await updateReadingSyncStatus(
+        id,
+        "error",
+        "Leitura não confirmada pelo servidor",
+      );
+    }
+    await enqueuePendingReadings();
+  }
+
+  const confirmation: UploadConfirmation = {
+    checkedAt: new Date().toISOString(),
+    from,
+    to,
+    expectedCount: localReadings.length,
+    confirmedCount: localReadings.length - requeuedIds.length,
+    requeuedIds,
+  };
+  await saveUploadConfirmation(confirmation);
+  logInfo(
+    `Server confirmed ${confirmation.confirmedCount} of ` +
+      `${confirmation.expectedCount} readings`,
+  );
+  return confirmation;
+};